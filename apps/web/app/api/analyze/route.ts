@@ -12,21 +12,76 @@ import {
   ConsistencyChecker,
   PersonaEvaluator,
   AggregateReportGenerator,
+  BibleVersionConflictError,
+  ERROR_MESSAGES,
+  SettingNoteImportError,
+  SettingNoteSchema,
+  anchorConsistencyCheck,
+  anchorWorldRules,
+  createBibleVersion,
+  createEvidenceLocator,
+  importSettingNote,
+  lintSettingNote,
+  selectRecentChapters,
+  collectPrompts,
+  countLLMCalls,
+  summarizeUsage,
   type Analysis,
-  type AnalyzeRequest
+  type AnalyzeRequest,
+  type AnalyzeStep,
+  type AnalyzeStreamEvent,
+  type CallOptions,
+  type ConsistencyCheck,
+  type PersonaFailure,
+  type PersonaResult,
+  type SeriesBible,
+  type SettingNote
 } from '@page-atelier/core';
-import { createLLMAdapter, type LLMConfig } from '@page-atelier/llm';
+import { isAbortError, isLLMError, type LLMConfig } from '@page-atelier/llm';
 import { loadHonggildongjeonText } from '@page-atelier/data';
+import {
+  LLM_ERROR_RESPONSES,
+  buildLLMConfig,
+  createTrackedAdapter,
+  getPromptRegistry,
+  llmErrorResponse,
+  logger,
+  traceSpan,
+  tracer
+} from '@/lib/llm';
+import { SeriesIdSchema, bibleNotFoundResponse, bibleStore } from '@/lib/bible';
+
+// Longer texts are split into chapter windows for the setting note; roughly a 300-chapter serial fits the max
+const SINGLE_PASS_MAX_CHARS = 50000;
+const CHUNKED_MAX_CHARS = 2000000;
 
 // Request validation schema
 const AnalyzeRequestSchema = z.object({
-  text: z.string().min(100).max(50000),
+  text: z.string().min(100).max(CHUNKED_MAX_CHARS),
   options: z.object({
     skip_personas: z.boolean().optional(),
     skip_setting_note: z.boolean().optional(),
     custom_personas: z.array(z.string()).optional(),
-    temperature: z.number().min(0).max(1).optional()
-  }).optional()
+    temperature: z.number().min(0).max(1).optional(),
+    bypass_cache: z.boolean().optional(),
+    samples: z.number().int().min(1).max(5).optional(),
+    locale: z.string().min(2).max(10).optional(),
+    chunked: z.boolean().optional(),
+    series_id: SeriesIdSchema.optional(),
+    setting_note: SettingNoteSchema.optional(),
+    setting_document: z.object({
+      content: z.string().min(1).max(CHUNKED_MAX_CHARS),
+      format: z.enum(['markdown', 'yaml']).optional()
+    }).optional(),
+    stream: z.boolean().optional()
+  })
+    .refine(options => !(options.setting_note && options.setting_document), {
+      message: 'Pass either setting_note or setting_document, not both'
+    })
+    .refine(options => !options.skip_setting_note || options.setting_note || options.setting_document || options.series_id, {
+      message: 'skip_setting_note requires setting_note, setting_document or series_id'
+    })
+    .optional()
 });
 
 /**
@@ -37,7 +92,6 @@ const AnalyzeRequestSchema = z.object({
  */
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
-  let llmCallsCount = 0;
 
   try {
     // Parse and validate request body
@@ -57,140 +111,29 @@ export async function POST(request: NextRequest) {
 
     const { text, options } = validationResult.data;
 
-    // Get Gemini API key from environment
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-    if (!geminiApiKey) {
+    // Without a note of its own, a skipped setting note step needs an existing bible
+    if (options?.skip_setting_note && !options.setting_note && !options.setting_document && options.series_id) {
+      if (!(await bibleStore.get(options.series_id))) return bibleNotFoundResponse(options.series_id);
+    }
+
+    // Resolve LLM provider configuration from environment
+    const llmConfig = buildLLMConfig(options?.temperature ?? 0.3);
+    if (!llmConfig) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Gemini API key not configured'
+          error: ERROR_MESSAGES.apiKeyMissing
         },
         { status: 500 }
       );
     }
 
-    // Initialize LLM adapter
-    const llmConfig: LLMConfig = {
-      provider: 'gemini',
-      apiKey: geminiApiKey,
-      model: 'gemini-1.5-flash',
-      temperature: options?.temperature ?? 0.3,
-      maxRetries: 3
-    };
-    
-    const llmAdapter = createLLMAdapter(llmConfig);
-
-    // Initialize analysis modules
-    const settingBuilder = new SettingBuilder(llmAdapter);
-    const consistencyChecker = new ConsistencyChecker(llmAdapter);
-    const personaEvaluator = new PersonaEvaluator(llmAdapter);
-    const reportGenerator = new AggregateReportGenerator();
-
-    // Step 1: Generate setting note
-    console.log('[API] Step 1: Generating setting note...');
-    let settingNote;
-    try {
-      settingNote = await settingBuilder.generateSettingNote(text);
-      llmCallsCount++;
-    } catch (error) {
-      console.error('[API] Failed to generate setting note, using default:', error);
-      // Use default setting note as fallback
-      settingNote = await getDefaultSettingNote(text);
-    }
-
-    // Step 2: Check consistency
-    console.log('[API] Step 2: Checking consistency...');
-    let consistencyCheck;
-    try {
-      consistencyCheck = await consistencyChecker.checkConsistency(
-        text,
-        settingNote
-      );
-      llmCallsCount++;
-    } catch (error) {
-      console.error('[API] Failed to check consistency, using default:', error);
-      // Use default consistency check
-      consistencyCheck = {
-        continuity: { score: 75, issues: [] },
-        character: { score: 75, issues: [] },
-        world_rules: { score: 75, issues: [] },
-        overall_score: 75
-      };
-    }
-
-    // Step 3: Evaluate personas
-    console.log('[API] Step 3: Evaluating personas...');
-    let personaEvaluations = [];
-    if (!options?.skip_personas) {
-      try {
-        personaEvaluations = await personaEvaluator.evaluateAllPersonas(text, settingNote);
-        llmCallsCount += 3;
-      } catch (error) {
-        console.error('[API] Failed to evaluate personas, using defaults:', error);
-        // Use default personas
-        personaEvaluations = [
-          {
-            persona_type: 'setting_obsessed' as const,
-            persona_name: '설정 과몰입형 독자',
-            persona_description: '세계관 설정과 파워 시스템의 논리성을 중시하는 독자',
-            metrics: { satisfaction: 70, engagement: 70, frustration: 30 },
-            likes: ['도술 설정이 흥미로움', '시대적 배경이 잘 그려짐'],
-            dislikes: ['도술 체계가 더 상세했으면'],
-            suggestions: ['도술 수련 과정 추가'],
-            overall_reaction: 'positive' as const
-          },
-          {
-            persona_type: 'romance_sub_focused' as const,
-            persona_name: '로판 서브주총러',
-            persona_description: '로맨스와 감정선을 중시하는 독자',
-            metrics: { satisfaction: 60, engagement: 60, frustration: 40 },
-            likes: ['길동의 감정 묘사가 섬세함'],
-            dislikes: ['로맨스 요소가 부족함'],
-            suggestions: ['여성 캐릭터 추가 필요'],
-            overall_reaction: 'neutral' as const
-          },
-          {
-            persona_type: 'traditional_martial_arts_fan' as const,
-            persona_name: '정통무협팬',
-            persona_description: '전통 무협의 요소를 중시하는 독자',
-            metrics: { satisfaction: 80, engagement: 80, frustration: 20 },
-            likes: ['전통적인 무협 분위기', '영웅 서사가 매력적'],
-            dislikes: ['무공 수련 장면이 적음'],
-            suggestions: ['무공 대결 장면 추가'],
-            overall_reaction: 'positive' as const
-          }
-        ];
-      }
+    if (options?.stream) {
+      return streamAnalysis(request, text, options, llmConfig);
     }
 
-    // Step 4: Generate aggregate report
-    console.log('[API] Step 4: Generating aggregate report...');
-    const aggregateReport = reportGenerator.generateReport(
-      consistencyCheck,
-      personaEvaluations
-    );
-
-    // Compose final analysis result
-    const analysis: Analysis = {
-      id: generateAnalysisId(),
-      timestamp: new Date().toISOString(),
-      input: {
-        text: text.substring(0, 200) + '...', // Store snippet only
-        metadata: {
-          title: settingNote.title,
-          chapter: 1
-        }
-      },
-      setting_note: settingNote,
-      consistency_check: consistencyCheck,
-      persona_evaluations: personaEvaluations,
-      aggregate_report: aggregateReport,
-      processing_time_ms: Date.now() - startTime,
-      llm_calls_count: llmCallsCount,
-      status: 'success',
-    };
-
-    console.log(`[API] Analysis complete in ${analysis.processing_time_ms}ms`);
+    // Aborts in-flight LLM calls when the client disconnects or cancels
+    const analysis = await runAnalysis(text, options, llmConfig, request.signal);
 
     return NextResponse.json({
       success: true,
@@ -198,7 +141,27 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('[API] Analysis error:', error);
+    if (isAbortError(error)) {
+      // The client is gone, so nobody reads this; it only ends the request
+      logger.info('Analysis cancelled', { elapsedMs: Date.now() - startTime });
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Analysis cancelled'
+        },
+        { status: 499 }
+      );
+    }
+
+    if (error instanceof SettingNoteImportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    logger.error('Analysis failed', { error });
+
+    if (isLLMError(error)) {
+      return llmErrorResponse(error);
+    }
     
     // Return partial result if possible
     return NextResponse.json(
@@ -212,6 +175,277 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Streams analysis progress as newline-delimited JSON events
+ * Used by: Frontend - Live consistency issues while the analysis runs
+ * 
+ * @tags streaming, ndjson, progress-events
+ */
+function streamAnalysis(
+  request: NextRequest,
+  text: string,
+  options: AnalyzeRequest['options'],
+  llmConfig: LLMConfig
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalyzeStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        const analysis = await runAnalysis(text, options, llmConfig, abortController.signal, send);
+        send({ type: 'result', data: analysis });
+      } catch (error) {
+        if (isAbortError(error)) {
+          logger.info('Streaming analysis cancelled');
+        } else {
+          logger.error('Analysis failed', { error });
+          send(
+            isLLMError(error)
+              ? { type: 'error', error: LLM_ERROR_RESPONSES[error.kind].message, error_kind: error.kind }
+              : { type: 'error', error: error instanceof Error ? error.message : 'Analysis failed' }
+          );
+        }
+      } finally {
+        // Closing fails when the client already cancelled the stream
+        try {
+          controller.close();
+        } catch {}
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
+
+/**
+ * Runs the full analysis pipeline under one root span and a per-analysis logger
+ * Used by: Backend - Buffered and streaming POST responses
+ * 
+ * @tags analysis-pipeline, orchestration, tracing
+ */
+async function runAnalysis(
+  text: string,
+  options: AnalyzeRequest['options'],
+  llmConfig: LLMConfig,
+  signal: AbortSignal,
+  onEvent?: (event: AnalyzeStreamEvent) => void
+): Promise<Analysis> {
+  const analysisId = generateAnalysisId();
+  const callOptions: CallOptions = {
+    signal,
+    samples: options?.samples,
+    locale: options?.locale,
+    logger: logger.child({ analysis_id: analysisId }),
+    tracer
+  };
+
+  return traceSpan(
+    'analysis',
+    callOptions,
+    spanOptions => runPipeline(analysisId, text, options, llmConfig, spanOptions, onEvent),
+    { 'analysis.id': analysisId, 'analysis.text_length': text.length, 'analysis.stream': !!onEvent }
+  );
+}
+
+/**
+ * Runs the analysis steps, each in its own span under the analysis span
+ * Used by: Backend - runAnalysis
+ * 
+ * @tags analysis-pipeline, steps
+ */
+async function runPipeline(
+  analysisId: string,
+  text: string,
+  options: AnalyzeRequest['options'],
+  llmConfig: LLMConfig,
+  callOptions: CallOptions,
+  onEvent?: (event: AnalyzeStreamEvent) => void
+): Promise<Analysis> {
+  const startTime = Date.now();
+  const log = callOptions.logger ?? logger;
+  const chunked = options?.chunked ?? text.length > SINGLE_PASS_MAX_CHARS;
+  // The latest chapters are checked and evaluated against the bible built from the whole text
+  const reviewText = chunked ? selectRecentChapters(text) : text;
+  const llmAdapter = createTrackedAdapter(llmConfig, options?.bypass_cache);
+  // Evidence is looked up in the full text, so chapters and offsets refer to the manuscript
+  const locateEvidence = createEvidenceLocator(text);
+
+  // Initialize analysis modules
+  const settingBuilder = new SettingBuilder(llmAdapter, getPromptRegistry());
+  const consistencyChecker = new ConsistencyChecker(llmAdapter, getPromptRegistry());
+  const personaEvaluator = new PersonaEvaluator(llmAdapter, getPromptRegistry());
+  const reportGenerator = new AggregateReportGenerator();
+
+  // Without a setting note or consistency check there is nothing to report, so their failures end
+  // the pipeline; a failed persona step leaves a partial analysis that names it
+  const failedSteps: AnalyzeStep[] = [];
+  const stepErrors: string[] = [];
+
+  // Step 1: Use the author's setting note, load the series bible, or generate a setting note
+  // Checking against the author's canon or a stored bible catches contradictions with earlier volumes
+  let authorNote = options?.setting_note;
+  let settingNoteImport: Analysis['setting_note_import'];
+  if (options?.setting_document) {
+    const { setting_note, ...report } = importSettingNote(
+      options.setting_document.content,
+      options.setting_document.format
+    );
+    authorNote = setting_note;
+    settingNoteImport = report;
+    log.info('Imported setting document', { format: report.format, unmapped: report.unmapped.length });
+  }
+
+  let bible = options?.series_id ? await bibleStore.get(options.series_id) : undefined;
+  let settingNote: SettingNote;
+  if (authorNote) {
+    log.info('Using provided setting note', { characters: authorNote.characters.length });
+    // The note seeds a missing series bible; an existing bible is neither changed nor checked against
+    bible = options?.series_id && !bible
+      ? await createSeriesBible(options.series_id, authorNote, 'author', '작가 설정집으로 생성')
+      : undefined;
+    settingNote = bible?.setting_note ?? authorNote;
+  } else if (bible) {
+    log.info('Using series bible', { seriesId: bible.series_id, version: bible.version });
+    settingNote = bible.setting_note;
+  } else if (options?.skip_setting_note) {
+    throw new Error(`Series bible ${options.series_id} not found`);
+  } else {
+    log.info('Generating setting note');
+    onEvent?.({ type: 'step', step: 'setting_note' });
+    const generated = await traceSpan('analysis.setting_note', callOptions, stepOptions =>
+      chunked
+        ? settingBuilder.generateSettingNoteChunked(text, stepOptions)
+        : settingBuilder.generateSettingNote(text, stepOptions)
+    );
+    if (options?.series_id) {
+      bible = await createSeriesBible(options.series_id, generated, 'builder', '분석 텍스트로 생성');
+      settingNote = bible.setting_note;
+    } else {
+      settingNote = generated;
+    }
+    // Anchors are only added to the response; a stored bible is checked against other texts
+    settingNote = anchorWorldRules(settingNote, locateEvidence);
+  }
+
+  // Report structural problems of the note before anything is checked against it
+  const settingNoteLint = lintSettingNote(settingNote);
+  if (settingNoteLint.length > 0) {
+    log.info('Setting note lint warnings', {
+      count: settingNoteLint.length,
+      rules: [...new Set(settingNoteLint.map(warning => warning.rule))]
+    });
+  }
+
+  // Step 2: Check consistency
+  log.info('Checking consistency');
+  onEvent?.({ type: 'step', step: 'consistency' });
+  const checked = await traceSpan('analysis.consistency', callOptions, async stepOptions => {
+    if (!onEvent) {
+      return consistencyChecker.checkConsistency(reviewText, settingNote, stepOptions);
+    }
+    // Forward issues as the model emits them
+    let check: ConsistencyCheck | undefined;
+    for await (const event of consistencyChecker.checkConsistencyStream(
+      reviewText,
+      settingNote,
+      stepOptions
+    )) {
+      if (event.type === 'issues') onEvent(event);
+      else check = event.check;
+    }
+    return check;
+  });
+  if (!checked) throw new Error('Consistency check returned no result');
+  const consistencyCheck = anchorConsistencyCheck(checked, locateEvidence);
+
+  // Step 3: Evaluate personas
+  let personaEvaluations: PersonaResult[] = [];
+  let personaFailures: PersonaFailure[] = [];
+  if (!options?.skip_personas) {
+    log.info('Evaluating personas');
+    onEvent?.({ type: 'step', step: 'personas' });
+    try {
+      const evaluations = await traceSpan('analysis.personas', callOptions, stepOptions =>
+        personaEvaluator.evaluateAllPersonas(reviewText, settingNote, stepOptions)
+      );
+      personaEvaluations = evaluations.results;
+      personaFailures = evaluations.failures;
+    } catch (error) {
+      if (isAbortError(error) || isLLMError(error)) throw error;
+      log.warn('Failed to evaluate personas', { error });
+      failedSteps.push('personas');
+      stepErrors.push(`personas: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (personaFailures.length > 0) {
+      log.warn('Failed to evaluate some personas', { personas: personaFailures.map(failure => failure.persona_type) });
+      // Without any reader reaction the persona step is missing altogether
+      if (personaEvaluations.length === 0) failedSteps.push('personas');
+      stepErrors.push(...personaFailures.map(failure => `persona ${failure.persona_type}: ${failure.error}`));
+    }
+  }
+
+  // Step 4: Generate aggregate report
+  log.info('Generating aggregate report');
+  onEvent?.({ type: 'step', step: 'report' });
+  const aggregateReport = reportGenerator.generateReport(
+    consistencyCheck,
+    personaEvaluations
+  );
+
+  // Compose final analysis result
+  const llmCallRecords = llmAdapter.getRecords();
+  const analysis: Analysis = {
+    id: analysisId,
+    timestamp: new Date().toISOString(),
+    input: {
+      text: text.substring(0, 200) + '...', // Store snippet only
+      metadata: {
+        title: settingNote.title,
+        chapter: 1
+      }
+    },
+    setting_note: settingNote,
+    setting_note_lint: settingNoteLint,
+    ...(settingNoteImport ? { setting_note_import: settingNoteImport } : {}),
+    ...(bible ? { bible: { series_id: bible.series_id, version: bible.version } } : {}),
+    consistency_check: consistencyCheck,
+    persona_evaluations: personaEvaluations,
+    aggregate_report: aggregateReport,
+    processing_time_ms: Date.now() - startTime,
+    llm_calls_count: countLLMCalls(llmCallRecords),
+    usage: summarizeUsage(llmCallRecords),
+    prompts: collectPrompts(llmCallRecords),
+    status: stepErrors.length > 0 ? 'partial' : 'success',
+    ...(failedSteps.length > 0 ? { failed_steps: failedSteps } : {}),
+    ...(personaFailures.length > 0 ? { persona_failures: personaFailures } : {}),
+    ...(stepErrors.length > 0 ? { error: stepErrors.join('; ') } : {})
+  };
+
+  log.info('Analysis complete', {
+    processingTimeMs: analysis.processing_time_ms,
+    llmCalls: analysis.llm_calls_count,
+    totalTokens: analysis.usage.total_tokens,
+    estimatedCostUsd: analysis.usage.estimated_cost_usd
+  });
+
+  return analysis;
+}
+
+
 /**
  * GET /api/analyze - Returns API documentation
  * Used by: Frontend - API discovery and documentation
@@ -224,12 +458,20 @@ export async function GET() {
     method: 'POST',
     description: 'Analyzes web novel text for consistency, quality, and reader satisfaction',
     request_format: {
-      text: 'string (100-50000 characters)',
+      text: 'string (100-2000000 characters)',
       options: {
         skip_personas: 'boolean (optional)',
-        skip_setting_note: 'boolean (optional)', 
+        skip_setting_note: 'boolean (optional, never generates a note; requires setting_note, setting_document or an existing series bible)',
         custom_personas: 'string[] (optional)',
-        temperature: 'number 0-1 (optional, default 0.3)'
+        temperature: 'number 0-1 (optional, default 0.3)',
+        bypass_cache: 'boolean (optional, skips cached LLM responses)',
+        samples: 'number 1-5 (optional, default 1; merges repeated consistency and persona runs)',
+        locale: "string (optional, prompt locale such as 'ko' or 'en')",
+        chunked: 'boolean (optional, builds the setting note per chapter window; default on above 50000 characters)',
+        series_id: 'string (optional, checks against the stored series bible; creates it from the text when missing)',
+        setting_note: 'SettingNote (optional, checks against this note instead of generating one)',
+        setting_document: "{ content: string, format?: 'markdown' | 'yaml' } (optional, imports the author's 설정집 as the setting note)",
+        stream: 'boolean (optional, responds with NDJSON progress events)'
       }
     },
     response_format: {
@@ -246,130 +488,36 @@ export async function GET() {
   });
 }
 
+
 /**
- * Generates unique analysis ID
- * Used by: Backend - Analysis tracking
+ * Stores a generated or author-provided setting note as the first version of a series bible
+ * A bible created concurrently by another analysis wins
+ * Used by: Backend - First bible-backed analysis of a series
  * 
- * @tags utility, id-generation
+ * @tags series-bible, bootstrap
  */
-function generateAnalysisId(): string {
-  return `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+async function createSeriesBible(
+  seriesId: string,
+  settingNote: SettingNote,
+  source: SeriesBible['source'],
+  message: string
+): Promise<SeriesBible> {
+  const bible = createBibleVersion(seriesId, undefined, { setting_note: settingNote, source, message });
+  try {
+    await bibleStore.save(bible);
+    return bible;
+  } catch (error) {
+    if (!(error instanceof BibleVersionConflictError)) throw error;
+    return (await bibleStore.get(seriesId)) ?? bible;
+  }
 }
 
 /**
- * Returns default setting note for fallback
- * Used by: Backend - Quick analysis without LLM setting generation
+ * Generates unique analysis ID
+ * Used by: Backend - Analysis tracking
  * 
- * @tags fallback, default-setting
+ * @tags utility, id-generation
  */
-async function getDefaultSettingNote(text: string) {
-  // Extract title from text or use default
-  const title = text.includes('홍길동') ? '홍길동전' : '무제';
-  
-  return {
-    title,
-    genre: ['무협', '고전', '영웅서사'],
-    characters: [
-      {
-        name: '홍길동',
-        role: 'protagonist' as const,
-        traits: ['정의로움', '효심', '뛰어난 무예', '총명함', '서자의 한'],
-        goals: ['신분 극복', '정의 실현', '아버지 인정', '활빈당 창설'],
-        relationships: [
-          {
-            character: '홍대감',
-            type: 'family' as const,
-            description: '아버지이나 서자라 인정받지 못함'
-          },
-          {
-            character: '홍인형',
-            type: 'family' as const,
-            description: '적자인 형, 길동을 시기하고 죽이려 함'
-          },
-          {
-            character: '춘섬',
-            type: 'family' as const,
-            description: '생모, 천한 신분의 계집종'
-          }
-        ],
-        speech_pattern: '정중하고 격식있는 어투',
-        taboo_actions: ['아버지를 아버지라 부르지 못함', '형을 형이라 부르지 못함']
-      },
-      {
-        name: '홍인형',
-        role: 'antagonist' as const,
-        traits: ['시기심', '잔인함', '적자의 우월감'],
-        goals: ['홍길동 제거', '가문의 명예 수호'],
-        relationships: [
-          {
-            character: '홍길동',
-            type: 'family' as const,
-            description: '서자인 동생, 위협적 존재로 인식'
-          }
-        ],
-        speech_pattern: '권위적이고 차가운 어투'
-      },
-      {
-        name: '홍대감',
-        role: 'supporting' as const,
-        traits: ['엄격함', '전통적', '내면의 애정'],
-        goals: ['가문 유지', '체면 유지'],
-        relationships: [
-          {
-            character: '홍길동',
-            type: 'family' as const,
-            description: '서자인 아들, 애정은 있으나 인정하지 못함'
-          }
-        ],
-        speech_pattern: '권위적이고 격식있는 어투'
-      }
-    ],
-    world_rules: [
-      {
-        category: 'society' as const,
-        rule: '엄격한 적서차별 신분제',
-        importance: 'critical' as const,
-        evidence: '서자는 아버지를 아버지라 부를 수 없음'
-      },
-      {
-        category: 'magic' as const,
-        rule: '도술과 변신술이 존재',
-        importance: 'high' as const,
-        evidence: '길동이 도술을 사용하여 위기 모면'
-      },
-      {
-        category: 'culture' as const,
-        rule: '유교적 가부장제 사회',
-        importance: 'critical' as const,
-        evidence: '가문의 명예와 효를 중시'
-      }
-    ],
-    timeline: [
-      {
-        timestamp: '1장',
-        event: '홍길동 출생, 천한 서자로 태어남',
-        involved_characters: ['홍길동', '춘섬', '홍대감'],
-        importance: 'critical' as const
-      },
-      {
-        timestamp: '2장',
-        event: '길동이 신분의 한을 토로하며 슬퍼함',
-        involved_characters: ['홍길동', '홍대감'],
-        importance: 'high' as const
-      },
-      {
-        timestamp: '3장',
-        event: '홍인형이 자객을 보내 길동 암살 시도',
-        involved_characters: ['홍길동', '홍인형'],
-        importance: 'critical' as const
-      },
-      {
-        timestamp: '4장',
-        event: '길동이 집을 떠나 활빈당 창설',
-        involved_characters: ['홍길동'],
-        importance: 'critical' as const
-      }
-    ],
-    summary: '조선시대 서자로 태어난 홍길동이 신분의 한계를 극복하고 도술을 익혀 활빈당을 창설, 탐관오리를 징치하고 백성을 구제하는 영웅이 되는 이야기. 적서차별의 모순을 비판하고 사회정의를 실현하려는 민중 영웅의 서사.'
-  };
+function generateAnalysisId(): string {
+  return `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
\ No newline at end of file
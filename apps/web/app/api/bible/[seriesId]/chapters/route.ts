@@ -0,0 +1,156 @@
+/**
+ * Series bible chapter update endpoint
+ * Used by: Frontend/Automation - Daily serial updates of a stored bible
+ * 
+ * @tags api, series-bible, incremental-update, changelog
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  BibleVersionConflictError,
+  SettingBuilder,
+  ERROR_MESSAGES,
+  createBibleVersion,
+  lintSettingNote,
+  summarizeUsage
+} from '@page-atelier/core';
+import { isAbortError, isLLMError } from '@page-atelier/llm';
+import {
+  buildLLMConfig,
+  createTrackedAdapter,
+  getPromptRegistry,
+  llmErrorResponse,
+  logger,
+  traceSpan,
+  tracer
+} from '@/lib/llm';
+import { SeriesIdSchema, bibleConflictResponse, bibleNotFoundResponse, bibleStore } from '@/lib/bible';
+
+// Request validation schema
+const ChapterRequestSchema = z.object({
+  chapter_text: z.string().min(100).max(50000),
+  chapter_number: z.number().int().min(1),
+  // Fails with 409 when the bible has moved past this version
+  expected_version: z.number().int().min(1).optional(),
+  options: z.object({
+    temperature: z.number().min(0).max(1).optional(),
+    bypass_cache: z.boolean().optional(),
+    locale: z.string().min(2).max(10).optional()
+  }).optional()
+});
+
+/**
+ * POST /api/bible/:seriesId/chapters - Applies one new chapter to the bible, keeping locked fields
+ * Used by: Frontend/Automation - Keeps a serial's bible current without rebuilding it
+ * 
+ * @tags post-handler, incremental-update, locks
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  try {
+    const { seriesId } = await params;
+    if (!SeriesIdSchema.safeParse(seriesId).success) {
+      return NextResponse.json({ success: false, error: 'Invalid series id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validationResult = ChapterRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { chapter_text, chapter_number, expected_version, options } = validationResult.data;
+
+    const previous = await bibleStore.get(seriesId);
+    if (!previous) return bibleNotFoundResponse(seriesId);
+    if (expected_version !== undefined && expected_version !== previous.version) {
+      return bibleConflictResponse(new BibleVersionConflictError(seriesId, previous.version));
+    }
+
+    const llmConfig = buildLLMConfig(options?.temperature ?? 0.3);
+    if (!llmConfig) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.apiKeyMissing
+        },
+        { status: 500 }
+      );
+    }
+
+    const llmAdapter = createTrackedAdapter(llmConfig, options?.bypass_cache);
+    const settingBuilder = new SettingBuilder(llmAdapter, getPromptRegistry());
+    const update = await traceSpan(
+      'bible.chapter_update',
+      {
+        signal: request.signal,
+        locale: options?.locale,
+        logger: logger.child({ series_id: seriesId, chapter: chapter_number }),
+        tracer
+      },
+      callOptions => settingBuilder.updateSettingNote(
+        previous.setting_note,
+        chapter_text,
+        chapter_number,
+        callOptions,
+        previous.locks
+      ),
+      { 'bible.series_id': seriesId, 'bible.version': previous.version, 'setting_note.chapter': chapter_number }
+    );
+
+    // Saving fails if an author edit landed while the model was running
+    const bible = createBibleVersion(seriesId, previous, {
+      setting_note: update.setting_note,
+      source: 'builder',
+      message: `${chapter_number}화 반영`
+    });
+    await bibleStore.save(bible);
+
+    return NextResponse.json({
+      success: true,
+      data: { bible, changelog: update.changelog },
+      warnings: lintSettingNote(bible.setting_note),
+      usage: summarizeUsage(llmAdapter.getRecords())
+    });
+
+  } catch (error) {
+    if (isAbortError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Update cancelled'
+        },
+        { status: 499 }
+      );
+    }
+
+    if (error instanceof BibleVersionConflictError) {
+      return bibleConflictResponse(error);
+    }
+
+    logger.error('Series bible update failed', { error });
+
+    if (isLLMError(error)) {
+      return llmErrorResponse(error);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Series bible update failed'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Series bible endpoint: read and author edits
+ * Used by: Frontend/Automation - Maintaining the canonical setting of a serial
+ * 
+ * @tags api, series-bible, locks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  BibleLockSchema,
+  BibleVersionConflictError,
+  SettingNoteSchema,
+  createBibleVersion,
+  lintSettingNote
+} from '@page-atelier/core';
+import { logger } from '@/lib/llm';
+import { SeriesIdSchema, bibleConflictResponse, bibleNotFoundResponse, bibleStore } from '@/lib/bible';
+
+interface RouteContext {
+  params: Promise<{ seriesId: string }>;
+}
+
+// Request validation schema
+const BibleEditSchema = z.object({
+  setting_note: SettingNoteSchema,
+  locks: z.array(BibleLockSchema).optional(),
+  // Version the edit was made on; omitted only when creating the bible
+  expected_version: z.number().int().min(0).optional(),
+  message: z.string().max(500).optional()
+});
+
+/**
+ * GET /api/bible/:seriesId - Returns the latest bible, or ?version=N
+ * Used by: Frontend - Bible editor
+ * 
+ * @tags get-handler, series-bible
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { seriesId } = await params;
+  if (!SeriesIdSchema.safeParse(seriesId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid series id' }, { status: 400 });
+  }
+
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam === null ? undefined : Number(versionParam);
+  if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+    return NextResponse.json({ success: false, error: 'Invalid version' }, { status: 400 });
+  }
+
+  const bible = await bibleStore.get(seriesId, version);
+  if (!bible) return bibleNotFoundResponse(seriesId);
+
+  return NextResponse.json({ success: true, data: bible });
+}
+
+/**
+ * PUT /api/bible/:seriesId - Saves an author edit, with its locks, as a new version
+ * Used by: Frontend - Bible editor
+ * 
+ * @tags put-handler, series-bible, locks
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { seriesId } = await params;
+    if (!SeriesIdSchema.safeParse(seriesId).success) {
+      return NextResponse.json({ success: false, error: 'Invalid series id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validationResult = BibleEditSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { setting_note, locks, expected_version, message } = validationResult.data;
+    const previous = await bibleStore.get(seriesId);
+    const latestVersion = previous?.version ?? 0;
+    if (expected_version === undefined ? previous !== undefined : expected_version !== latestVersion) {
+      return bibleConflictResponse(new BibleVersionConflictError(seriesId, latestVersion));
+    }
+
+    const bible = createBibleVersion(seriesId, previous, {
+      setting_note,
+      locks,
+      source: 'author',
+      message
+    });
+    await bibleStore.save(bible);
+
+    logger.info('Series bible edited', { seriesId, version: bible.version, locks: bible.locks.length });
+    return NextResponse.json({ success: true, data: bible, warnings: lintSettingNote(bible.setting_note) });
+
+  } catch (error) {
+    if (error instanceof BibleVersionConflictError) {
+      return bibleConflictResponse(error);
+    }
+
+    logger.error('Series bible edit failed', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Series bible edit failed'
+      },
+      { status: 500 }
+    );
+  }
+}
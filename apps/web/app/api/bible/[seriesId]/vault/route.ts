@@ -0,0 +1,37 @@
+/**
+ * Series bible vault endpoint
+ * Used by: Frontend/Automation - Browsing a bible version in Obsidian or other wiki tools
+ * 
+ * @tags api, series-bible, vault
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SeriesIdSchema, bibleNotFoundResponse, bibleStore, bibleVaultResponse } from '@/lib/bible';
+
+/**
+ * GET /api/bible/:seriesId/vault - Returns the latest bible, or ?version=N, as a zipped vault
+ * Re-exporting an unchanged version yields the same archive, so vaults kept in git diff cleanly
+ * Used by: Frontend/Automation - Vault downloads
+ * 
+ * @tags get-handler, vault
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  const { seriesId } = await params;
+  if (!SeriesIdSchema.safeParse(seriesId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid series id' }, { status: 400 });
+  }
+
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam === null ? undefined : Number(versionParam);
+  if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+    return NextResponse.json({ success: false, error: 'Invalid version' }, { status: 400 });
+  }
+
+  const bible = await bibleStore.get(seriesId, version);
+  if (!bible) return bibleNotFoundResponse(seriesId);
+
+  return bibleVaultResponse(bible.setting_note.title || seriesId, bible.setting_note);
+}
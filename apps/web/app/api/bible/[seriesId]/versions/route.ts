@@ -0,0 +1,30 @@
+/**
+ * Series bible version history endpoint
+ * Used by: Frontend - Bible editor history
+ * 
+ * @tags api, series-bible, versioning
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SeriesIdSchema, bibleNotFoundResponse, bibleStore } from '@/lib/bible';
+
+/**
+ * GET /api/bible/:seriesId/versions - Lists every version, oldest first
+ * Used by: Frontend - Choosing a version to view or compare
+ * 
+ * @tags get-handler, versioning
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  const { seriesId } = await params;
+  if (!SeriesIdSchema.safeParse(seriesId).success) {
+    return NextResponse.json({ success: false, error: 'Invalid series id' }, { status: 400 });
+  }
+
+  const versions = await bibleStore.listVersions(seriesId);
+  if (versions.length === 0) return bibleNotFoundResponse(seriesId);
+
+  return NextResponse.json({ success: true, data: versions });
+}
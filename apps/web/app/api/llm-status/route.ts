@@ -0,0 +1,24 @@
+/**
+ * LLM client status endpoint
+ * Used by: Operations - Observing provider queue depth and rate limit usage
+ * 
+ * @tags api, llm-status, rate-limit, observability
+ */
+
+import { NextResponse } from 'next/server';
+import { getRateLimiterStats } from '@page-atelier/llm';
+
+// Stats live in process memory and change per request
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/llm-status - Returns queue depth and window usage per rate limiter
+ * Used by: Operations - Monitoring back-pressure on provider quotas
+ * 
+ * @tags get-handler, rate-limit, queue-depth
+ */
+export async function GET() {
+  return NextResponse.json({
+    rate_limiters: getRateLimiterStats()
+  });
+}
\ No newline at end of file
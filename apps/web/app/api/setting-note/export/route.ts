@@ -0,0 +1,72 @@
+/**
+ * Setting note export endpoint
+ * Used by: Frontend - Downloading relationship graphs and timelines for planning docs
+ * 
+ * @tags api, setting-note, export
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  SETTING_NOTE_EXPORT_FORMATS,
+  SettingNoteSchema,
+  exportSettingNote
+} from '@page-atelier/core';
+import { logger } from '@/lib/llm';
+
+// Request validation schema
+const ExportRequestSchema = z.object({
+  setting_note: SettingNoteSchema,
+  format: z.enum(SETTING_NOTE_EXPORT_FORMATS)
+});
+
+/**
+ * POST /api/setting-note/export - Returns the relationships or timeline of a setting note as a file
+ * Used by: Frontend - Export downloads in the JSON tab
+ * 
+ * @tags post-handler, export
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = ExportRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { setting_note, format } = validationResult.data;
+    const file = exportSettingNote(setting_note, format);
+    const filename = `${setting_note.title || 'setting-note'}-${format}.${file.extension}`;
+
+    // Spreadsheet apps read UTF-8 CSV without a byte order mark as the local legacy encoding
+    const content = file.extension === 'csv' ? `\uFEFF${file.content}` : file.content;
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': file.mime_type,
+        // ASCII fallback for clients that ignore the encoded Korean title
+        'Content-Disposition': `attachment; filename="setting-note-${format}.${file.extension}"; ` +
+          `filename*=UTF-8''${encodeURIComponent(filename)}`
+      }
+    });
+
+  } catch (error) {
+    logger.error('Setting note export failed', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Setting note export failed'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Setting document import endpoint
+ * Used by: Frontend/Automation - Previewing how an author's 설정집 maps onto a setting note
+ * 
+ * @tags api, setting-note, import
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  SettingNoteImportError,
+  importSettingNote,
+  lintSettingNote
+} from '@page-atelier/core';
+import { logger } from '@/lib/llm';
+
+// Request validation schema
+const ImportRequestSchema = z.object({
+  content: z.string().min(1).max(2000000),
+  format: z.enum(['markdown', 'yaml']).optional()
+});
+
+/**
+ * POST /api/setting-note/import - Maps a Markdown or YAML document onto a setting note
+ * Returns the note with the fields that could not be mapped and its lint warnings
+ * Used by: Frontend/Automation - Checking a 설정집 before analyzing against it
+ * 
+ * @tags post-handler, import
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = ImportRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { content, format } = validationResult.data;
+    const imported = importSettingNote(content, format);
+
+    return NextResponse.json({
+      success: true,
+      data: imported,
+      warnings: lintSettingNote(imported.setting_note)
+    });
+
+  } catch (error) {
+    if (error instanceof SettingNoteImportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    logger.error('Setting document import failed', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Setting document import failed'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Incremental setting note update endpoint
+ * Used by: Frontend/Automation - Daily serial updates from one new chapter
+ * 
+ * @tags api, setting-note, incremental-update, changelog
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  SettingBuilder,
+  SettingNoteSchema,
+  ERROR_MESSAGES,
+  summarizeUsage
+} from '@page-atelier/core';
+import { isAbortError, isLLMError } from '@page-atelier/llm';
+import {
+  buildLLMConfig,
+  createTrackedAdapter,
+  getPromptRegistry,
+  llmErrorResponse,
+  logger,
+  traceSpan,
+  tracer
+} from '@/lib/llm';
+
+// Request validation schema
+const UpdateRequestSchema = z.object({
+  setting_note: SettingNoteSchema,
+  chapter_text: z.string().min(100).max(50000),
+  chapter_number: z.number().int().min(1),
+  options: z.object({
+    temperature: z.number().min(0).max(1).optional(),
+    bypass_cache: z.boolean().optional(),
+    locale: z.string().min(2).max(10).optional()
+  }).optional()
+});
+
+/**
+ * POST /api/setting-note/update - Applies one new chapter to an existing setting note
+ * Used by: Frontend/Automation - Keeps a serial's setting note current without rebuilding it
+ * 
+ * @tags post-handler, incremental-update
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = UpdateRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { setting_note, chapter_text, chapter_number, options } = validationResult.data;
+
+    const llmConfig = buildLLMConfig(options?.temperature ?? 0.3);
+    if (!llmConfig) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.apiKeyMissing
+        },
+        { status: 500 }
+      );
+    }
+
+    const llmAdapter = createTrackedAdapter(llmConfig, options?.bypass_cache);
+    const settingBuilder = new SettingBuilder(llmAdapter, getPromptRegistry());
+    const update = await traceSpan(
+      'setting_note.update',
+      {
+        signal: request.signal,
+        locale: options?.locale,
+        logger: logger.child({ chapter: chapter_number }),
+        tracer
+      },
+      callOptions => settingBuilder.updateSettingNote(setting_note, chapter_text, chapter_number, callOptions),
+      { 'setting_note.chapter': chapter_number }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: update,
+      usage: summarizeUsage(llmAdapter.getRecords())
+    });
+
+  } catch (error) {
+    if (isAbortError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Update cancelled'
+        },
+        { status: 499 }
+      );
+    }
+
+    logger.error('Setting note update failed', { error });
+
+    if (isLLMError(error)) {
+      return llmErrorResponse(error);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Setting note update failed'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Setting note vault endpoint
+ * Used by: Frontend - Downloading the setting note as a folder of linked Markdown pages
+ * 
+ * @tags api, setting-note, export, vault
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SettingNoteSchema } from '@page-atelier/core';
+import { bibleVaultResponse } from '@/lib/bible';
+import { logger } from '@/lib/llm';
+
+// Request validation schema
+const VaultRequestSchema = z.object({
+  setting_note: SettingNoteSchema
+});
+
+/**
+ * POST /api/setting-note/vault - Returns the setting note as a zipped Obsidian vault
+ * Used by: Frontend - Vault download in the JSON tab
+ * 
+ * @tags post-handler, vault
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = VaultRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request format',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { setting_note } = validationResult.data;
+    return bibleVaultResponse(setting_note.title || 'setting-note', setting_note);
+
+  } catch (error) {
+    logger.error('Setting note vault export failed', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Setting note vault export failed'
+      },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
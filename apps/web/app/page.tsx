@@ -1,23 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Toaster, toast } from 'sonner';
-import { FileText, Send, Loader2, BookOpen } from 'lucide-react';
-import type { Analysis } from '@page-atelier/core';
+import { FileText, Send, Loader2, BookOpen, X } from 'lucide-react';
+import type { Analysis, AnalyzeStep, AnalyzeStreamEvent, Issue } from '@page-atelier/core';
 import ConsistencyCheckTab from '@/components/ConsistencyCheckTab';
 import PersonasTab from '@/components/PersonasTab';
 import JsonTab from '@/components/JsonTab';
+import LiveIssuesPanel from '@/components/LiveIssuesPanel';
 
 export default function Home() {
   const [inputText, setInputText] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<Analysis | null>(null);
   const [activeTab, setActiveTab] = useState('consistency');
+  const [liveStep, setLiveStep] = useState<AnalyzeStep | null>(null);
+  const [liveIssues, setLiveIssues] = useState<Issue[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleAnalyze = async () => {
     if (!inputText.trim()) {
@@ -30,44 +34,86 @@ export default function Home() {
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsAnalyzing(true);
+    setAnalysisResult(null);
+    setLiveStep(null);
+    setLiveIssues([]);
     toast.info('분석을 시작합니다... (약 30초-1분 소요)');
 
     try {
       const response = await fetch('/api/analyze', {
         method: 'POST',
+        signal: abortController.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           text: inputText,
           options: {
-            temperature: 0.3
+            temperature: 0.3,
+            stream: true
           }
         }),
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
         throw new Error(result.error || '분석 중 오류가 발생했습니다');
       }
 
-      if (result.success && result.data) {
-        setAnalysisResult(result.data);
+      // Assigned in the stream callback, which control flow analysis does not follow
+      let analysis = null as Analysis | null;
+      await readAnalyzeStream(response.body, event => {
+        switch (event.type) {
+          case 'step':
+            setLiveStep(event.step);
+            break;
+          case 'issues':
+            setLiveIssues(event.issues);
+            break;
+          case 'result':
+            analysis = event.data;
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
+
+      if (analysis) {
+        setAnalysisResult(analysis);
         setActiveTab('consistency');
-        toast.success('분석이 완료되었습니다!');
+        if (analysis.status === 'partial') {
+          const failed = [
+            ...(analysis.failed_steps ?? []),
+            ...(analysis.persona_failures ?? []).map(failure => `persona:${failure.persona_type}`)
+          ];
+          toast.warning(`일부 단계가 실패했습니다: ${[...new Set(failed)].join(', ')}`);
+        } else {
+          toast.success('분석이 완료되었습니다!');
+        }
       } else {
         throw new Error('분석 결과를 받아올 수 없습니다');
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        toast.info('분석이 취소되었습니다');
+        return;
+      }
       console.error('Analysis error:', error);
       toast.error(error instanceof Error ? error.message : '분석 중 오류가 발생했습니다');
     } finally {
+      abortControllerRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
+  const handleCancel = () => {
+    // Aborting the fetch also aborts the server-side pipeline via request.signal
+    abortControllerRef.current?.abort();
+  };
+
   const loadSampleText = async () => {
     try {
       const response = await fetch('/example.txt');
@@ -128,7 +174,10 @@ export default function Home() {
                   <FileText className="w-4 h-4 mr-2" />
                   홍길동전 샘플 로드
                 </Button>
-                <Badge variant="outline">{inputText.length} / 50000자</Badge>
+                <Badge variant="outline">{inputText.length} / 2000000자</Badge>
+                {inputText.length > 50000 && (
+                  <Badge variant="secondary">장 단위 분할 분석</Badge>
+                )}
               </div>
               
               <Textarea
@@ -136,7 +185,7 @@ export default function Home() {
                 onChange={(e) => setInputText(e.target.value)}
                 placeholder="웹소설 텍스트를 입력하세요..."
                 className="flex-1 resize-none font-mono text-sm"
-                maxLength={50000}
+                maxLength={2000000}
                 disabled={isAnalyzing}
               />
               
@@ -158,6 +207,17 @@ export default function Home() {
                   </>
                 )}
               </Button>
+
+              {isAnalyzing && (
+                <Button
+                  onClick={handleCancel}
+                  variant="outline"
+                  className="mt-2 w-full"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  분석 취소
+                </Button>
+              )}
             </CardContent>
           </Card>
 
@@ -185,6 +245,7 @@ export default function Home() {
                       <ConsistencyCheckTab 
                         consistencyCheck={analysisResult.consistency_check}
                         aggregateReport={analysisResult.aggregate_report}
+                        lintWarnings={analysisResult.setting_note_lint}
                       />
                     </TabsContent>
                     
@@ -201,6 +262,10 @@ export default function Home() {
                     </TabsContent>
                   </div>
                 </Tabs>
+              ) : isAnalyzing ? (
+                <div className="h-full overflow-y-auto">
+                  <LiveIssuesPanel step={liveStep} issues={liveIssues} />
+                </div>
               ) : (
                 <div className="flex items-center justify-center h-full text-gray-400">
                   <div className="text-center">
@@ -216,4 +281,34 @@ export default function Home() {
       </main>
     </div>
   );
+}
+
+/**
+ * Reads newline-delimited JSON events from a streaming /api/analyze response
+ * Used by: Frontend - Live progress and issues during analysis
+ * 
+ * @tags streaming, ndjson, fetch
+ */
+async function readAnalyzeStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalyzeStreamEvent) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
 }
\ No newline at end of file
@@ -5,16 +5,18 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle2, XCircle, AlertCircle, TrendingUp, TrendingDown } from 'lucide-react';
-import type { ConsistencyCheck, AggregateReport } from '@page-atelier/core';
+import type { ConsistencyCheck, AggregateReport, SettingNoteLintWarning } from '@page-atelier/core';
 
 interface ConsistencyCheckTabProps {
   consistencyCheck: ConsistencyCheck;
   aggregateReport: AggregateReport;
+  lintWarnings?: SettingNoteLintWarning[];
 }
 
 export default function ConsistencyCheckTab({ 
   consistencyCheck, 
-  aggregateReport 
+  aggregateReport,
+  lintWarnings = []
 }: ConsistencyCheckTabProps) {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
@@ -103,6 +105,8 @@ export default function ConsistencyCheckTab({
             <Progress value={consistencyCheck.continuity.score} className="h-2" />
             <p className="text-xs text-gray-500 mt-2">
               {consistencyCheck.continuity.issues.length}개 이슈 발견
+              {consistencyCheck.score_stats &&
+                ` · ${consistencyCheck.score_stats.continuity.samples}회 샘플 편차 ±${consistencyCheck.score_stats.continuity.stddev}`}
             </p>
           </CardContent>
         </Card>
@@ -121,6 +125,8 @@ export default function ConsistencyCheckTab({
             <Progress value={consistencyCheck.character.score} className="h-2" />
             <p className="text-xs text-gray-500 mt-2">
               {consistencyCheck.character.issues.length}개 이슈 발견
+              {consistencyCheck.score_stats &&
+                ` · ${consistencyCheck.score_stats.character.samples}회 샘플 편차 ±${consistencyCheck.score_stats.character.stddev}`}
             </p>
           </CardContent>
         </Card>
@@ -139,6 +145,8 @@ export default function ConsistencyCheckTab({
             <Progress value={consistencyCheck.world_rules.score} className="h-2" />
             <p className="text-xs text-gray-500 mt-2">
               {consistencyCheck.world_rules.issues.length}개 이슈 발견
+              {consistencyCheck.score_stats &&
+                ` · ${consistencyCheck.score_stats.world_rules.samples}회 샘플 편차 ±${consistencyCheck.score_stats.world_rules.stddev}`}
             </p>
           </CardContent>
         </Card>
@@ -196,8 +204,24 @@ export default function ConsistencyCheckTab({
                   <div className="flex items-center gap-2 mb-1">
                     {getSeverityBadge(issue.severity)}
                     <Badge variant="outline">{issue.type}</Badge>
+                    {issue.occurrences !== undefined && consistencyCheck.score_stats && (
+                      <Badge variant="secondary">
+                        {issue.occurrences}/{consistencyCheck.score_stats.overall.samples}회 발견
+                      </Badge>
+                    )}
+                    {issue.possibly_hallucinated && (
+                      <Badge variant="outline" className="border-red-400 text-red-600">
+                        근거 미확인
+                      </Badge>
+                    )}
                   </div>
                   <p className="text-sm font-medium mt-2">{issue.description}</p>
+                  {issue.location?.chapter !== undefined && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      위치: {issue.location.chapter}장
+                      {issue.location.paragraph !== undefined && ` ${issue.location.paragraph}번째 문단`}
+                    </p>
+                  )}
                   {issue.evidence && issue.evidence.length > 0 && (
                     <div className="mt-2 p-2 bg-gray-100 rounded text-xs">
                       <p className="font-semibold mb-1">증거:</p>
@@ -216,6 +240,30 @@ export default function ConsistencyCheckTab({
           </div>
         </CardContent>
       </Card>
+
+      {/* Setting Note Lint */}
+      {lintWarnings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">설정노트 점검</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {lintWarnings.map((warning, index) => (
+                <div key={index} className="flex items-start gap-2">
+                  <Badge variant={warning.severity === 'warning' ? 'default' : 'secondary'}>
+                    {warning.severity === 'warning' ? '경고' : '참고'}
+                  </Badge>
+                  <div className="flex-1">
+                    <p className="text-sm">{warning.message}</p>
+                    <p className="text-xs text-gray-500 font-mono">{warning.path}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -4,24 +4,35 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Copy, Download, Check, FileJson } from 'lucide-react';
+import { Copy, Download, Check, FileJson, Share2 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Analysis } from '@page-atelier/core';
+import type { Analysis, SettingNoteExportFormat } from '@page-atelier/core';
 
 interface JsonTabProps {
   data: Analysis;
 }
 
+const EXPORT_OPTIONS: { format: SettingNoteExportFormat; label: string }[] = [
+  { format: 'relationships_mermaid', label: '관계도 (Mermaid)' },
+  { format: 'relationships_dot', label: '관계도 (Graphviz DOT)' },
+  { format: 'relationships_graphml', label: '관계도 (GraphML)' },
+  { format: 'timeline_gantt', label: '타임라인 (Mermaid 간트)' },
+  { format: 'timeline_csv', label: '타임라인 (CSV)' }
+];
+
 export default function JsonTab({ data }: JsonTabProps) {
   const [copied, setCopied] = useState(false);
   const [selectedSection, setSelectedSection] = useState<string>('full');
+  const [exporting, setExporting] = useState<SettingNoteExportFormat | 'vault' | null>(null);
 
   const sections = {
     full: { label: '전체 데이터', data: data },
     setting_note: { label: '설정노트', data: data.setting_note },
+    setting_note_lint: { label: '설정노트 점검', data: data.setting_note_lint },
     consistency: { label: '일관성 검사', data: data.consistency_check },
     personas: { label: '페르소나 평가', data: data.persona_evaluations },
     report: { label: '종합 리포트', data: data.aggregate_report },
+    usage: { label: 'LLM 사용량', data: data.usage },
   };
 
   const handleCopy = async () => {
@@ -62,6 +73,34 @@ export default function JsonTab({ data }: JsonTabProps) {
     }
   };
 
+  // The vault is a zip of linked Markdown pages rather than one export format
+  const handleExport = async (format: SettingNoteExportFormat | 'vault') => {
+    setExporting(format);
+    try {
+      const response = await fetch(format === 'vault' ? '/api/setting-note/vault' : '/api/setting-note/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(format === 'vault' ? { setting_note: data.setting_note } : { setting_note: data.setting_note, format })
+      });
+      if (!response.ok) throw new Error(`Export failed: ${response.status}`);
+
+      const encoded = response.headers.get('Content-Disposition')?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = encoded ? decodeURIComponent(encoded) : `page-atelier-${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success('설정노트를 내보냈습니다');
+    } catch (error) {
+      toast.error('내보내기에 실패했습니다');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -70,6 +109,8 @@ export default function JsonTab({ data }: JsonTabProps) {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   };
 
+  const formatCost = (usd: number) => `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+
   const getJsonSize = () => {
     const jsonString = JSON.stringify(sections[selectedSection as keyof typeof sections].data);
     return formatBytes(new Blob([jsonString]).size);
@@ -94,6 +135,15 @@ export default function JsonTab({ data }: JsonTabProps) {
                 {section.label}
               </Button>
             ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport('vault')}
+              disabled={exporting !== null}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Obsidian 볼트 (zip)
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -154,6 +204,32 @@ export default function JsonTab({ data }: JsonTabProps) {
         </CardContent>
       </Card>
 
+      {/* Setting Note Export */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <Share2 className="w-5 h-5" />
+            <CardTitle className="text-lg">설정노트 내보내기</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_OPTIONS.map(option => (
+              <Button
+                key={option.format}
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport(option.format)}
+                disabled={exporting !== null}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Metadata */}
       <Card>
         <CardHeader>
@@ -193,9 +269,83 @@ export default function JsonTab({ data }: JsonTabProps) {
                 {data.aggregate_report.verdict}
               </Badge>
             </div>
+            {data.prompts && data.prompts.length > 0 && (
+              <div className="col-span-2">
+                <span className="text-gray-500">프롬프트 버전:</span>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {data.prompts.map(prompt => (
+                    <Badge key={`${prompt.id}@${prompt.version}:${prompt.locale}`} variant="outline" className="font-mono">
+                      {prompt.id}@{prompt.version} ({prompt.locale})
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      {/* LLM Usage */}
+      {data.usage && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">LLM 사용량</CardTitle>
+              <Badge variant="secondary">
+                예상 비용 {formatCost(data.usage.estimated_cost_usd)}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+              <div>
+                <span className="text-gray-500">총 토큰:</span>
+                <p>{data.usage.total_tokens.toLocaleString('ko-KR')}</p>
+              </div>
+              <div>
+                <span className="text-gray-500">재시도:</span>
+                <p>{data.usage.retries}회</p>
+              </div>
+              <div>
+                <span className="text-gray-500">응답 복구:</span>
+                <p>{data.usage.repairs}회</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2">단계</th>
+                    <th className="py-2 pr-2">모델</th>
+                    <th className="py-2 pr-2 text-right">입력</th>
+                    <th className="py-2 pr-2 text-right">출력</th>
+                    <th className="py-2 pr-2 text-right">재시도</th>
+                    <th className="py-2 pr-2 text-right">지연</th>
+                    <th className="py-2 text-right">비용</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.usage.steps.map((step, index) => (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="py-2 pr-2 font-mono">
+                        {step.step}
+                        {step.cached && <Badge variant="outline" className="ml-2">캐시</Badge>}
+                        {!step.success && <Badge variant="destructive" className="ml-2">실패</Badge>}
+                      </td>
+                      <td className="py-2 pr-2">{step.model || '-'}</td>
+                      <td className="py-2 pr-2 text-right">{step.prompt_tokens.toLocaleString('ko-KR')}</td>
+                      <td className="py-2 pr-2 text-right">{step.completion_tokens.toLocaleString('ko-KR')}</td>
+                      <td className="py-2 pr-2 text-right">{step.retries + step.repairs}</td>
+                      <td className="py-2 pr-2 text-right">{(step.latency_ms / 1000).toFixed(1)}초</td>
+                      <td className="py-2 text-right">{formatCost(step.estimated_cost_usd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
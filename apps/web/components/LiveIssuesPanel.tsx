@@ -0,0 +1,87 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, CheckCircle2 } from 'lucide-react';
+import type { AnalyzeStep, Issue } from '@page-atelier/core';
+
+interface LiveIssuesPanelProps {
+  step: AnalyzeStep | null;
+  issues: Issue[];
+}
+
+const STEPS: { key: AnalyzeStep; label: string }[] = [
+  { key: 'setting_note', label: '설정노트 생성' },
+  { key: 'consistency', label: '일관성 검사' },
+  { key: 'personas', label: '페르소나 평가' },
+  { key: 'report', label: '종합 리포트' }
+];
+
+export default function LiveIssuesPanel({ step, issues }: LiveIssuesPanelProps) {
+  const currentIndex = STEPS.findIndex(s => s.key === step);
+
+  const getSeverityBadge = (severity: string) => {
+    const variants: Record<string, 'destructive' | 'default' | 'secondary' | 'outline'> = {
+      critical: 'destructive',
+      high: 'default',
+      medium: 'secondary',
+      low: 'outline'
+    };
+    return <Badge variant={variants[severity] || 'outline'}>{severity}</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Pipeline Progress */}
+      <div className="flex flex-wrap gap-4">
+        {STEPS.map((s, index) => (
+          <div key={s.key} className="flex items-center gap-2 text-sm">
+            {index < currentIndex ? (
+              <CheckCircle2 className="w-4 h-4 text-green-600" />
+            ) : index === currentIndex ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <div className="w-4 h-4 rounded-full border border-gray-300" />
+            )}
+            <span className={index <= currentIndex ? 'text-gray-900' : 'text-gray-400'}>
+              {s.label}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Issues as they are generated */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">실시간 발견 이슈 ({issues.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {issues.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {currentIndex > STEPS.findIndex(s => s.key === 'consistency')
+                ? '발견된 이슈가 없습니다'
+                : '일관성 검사 중 발견되는 이슈가 여기에 표시됩니다'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {issues.map((issue, index) => (
+                <div key={index} className="border-l-4 border-gray-300 pl-4 py-2">
+                  <div className="flex items-center gap-2 mb-1">
+                    {getSeverityBadge(issue.severity)}
+                    <Badge variant="outline">{issue.type}</Badge>
+                  </div>
+                  <p className="text-sm font-medium mt-2">{issue.description}</p>
+                  {issue.suggested_fix && (
+                    <p className="text-xs text-blue-600 mt-2">
+                      💡 제안: {issue.suggested_fix}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
\ No newline at end of file
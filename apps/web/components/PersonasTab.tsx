@@ -133,21 +133,36 @@ export default function PersonasTab({ personas }: PersonasTabProps) {
                 <div>
                   <div className="flex justify-between items-center mb-1">
                     <span className="text-sm font-medium">만족도</span>
-                    <span className="text-sm font-bold">{persona.metrics.satisfaction}%</span>
+                    <span className="text-sm font-bold">
+                      {persona.metrics.satisfaction}%
+                      {persona.metrics_stats && (
+                        <span className="font-normal text-gray-500"> ±{persona.metrics_stats.satisfaction.stddev}</span>
+                      )}
+                    </span>
                   </div>
                   <Progress value={persona.metrics.satisfaction} className="h-2" />
                 </div>
                 <div>
                   <div className="flex justify-between items-center mb-1">
                     <span className="text-sm font-medium">몰입도</span>
-                    <span className="text-sm font-bold">{persona.metrics.engagement}%</span>
+                    <span className="text-sm font-bold">
+                      {persona.metrics.engagement}%
+                      {persona.metrics_stats && (
+                        <span className="font-normal text-gray-500"> ±{persona.metrics_stats.engagement.stddev}</span>
+                      )}
+                    </span>
                   </div>
                   <Progress value={persona.metrics.engagement} className="h-2" />
                 </div>
                 <div>
                   <div className="flex justify-between items-center mb-1">
                     <span className="text-sm font-medium">불만족도</span>
-                    <span className="text-sm font-bold">{persona.metrics.frustration}%</span>
+                    <span className="text-sm font-bold">
+                      {persona.metrics.frustration}%
+                      {persona.metrics_stats && (
+                        <span className="font-normal text-gray-500"> ±{persona.metrics_stats.frustration.stddev}</span>
+                      )}
+                    </span>
                   </div>
                   <Progress value={persona.metrics.frustration} className="h-2" />
                 </div>
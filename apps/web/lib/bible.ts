@@ -0,0 +1,76 @@
+/**
+ * Shared series bible storage for API routes
+ * Used by: Backend - /api/bible routes and bible-backed /api/analyze
+ * 
+ * @tags series-bible, storage, environment
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  FileBibleStore,
+  MemoryBibleStore,
+  buildBibleVault,
+  zipBibleVault,
+  type BibleStore,
+  type BibleVersionConflictError,
+  type SettingNote
+} from '@page-atelier/core';
+
+// Bibles outlive the process only with BIBLE_DIR; the memory store is for development
+export const bibleStore: BibleStore = process.env.BIBLE_DIR
+  ? new FileBibleStore(process.env.BIBLE_DIR)
+  : new MemoryBibleStore();
+
+export const SeriesIdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/i);
+
+/**
+ * Builds the 409 response for a write based on an outdated bible version
+ * Used by: Backend - Bible PUT and chapter update routes
+ * 
+ * @tags error-response, conflict
+ */
+export function bibleConflictResponse(error: BibleVersionConflictError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Series bible was changed by another writer',
+      latest_version: error.latestVersion
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Builds the 404 response for an unknown series or version
+ * Used by: Backend - Bible routes
+ * 
+ * @tags error-response
+ */
+export function bibleNotFoundResponse(seriesId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Series bible not found: ${seriesId}`
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * Builds the zip download of a setting note as an Obsidian vault named after the series
+ * Used by: Backend - Bible and setting note vault routes
+ * 
+ * @tags vault, download
+ */
+export function bibleVaultResponse(name: string, settingNote: SettingNote) {
+  const zip = zipBibleVault(buildBibleVault(settingNote), name);
+  return new NextResponse(Buffer.from(zip), {
+    headers: {
+      'Content-Type': 'application/zip',
+      // ASCII fallback for clients that ignore the encoded Korean title
+      'Content-Disposition': 'attachment; filename="setting-note-vault.zip"; ' +
+        `filename*=UTF-8''${encodeURIComponent(`${name}-vault.zip`)}`
+    }
+  });
+}
\ No newline at end of file
@@ -0,0 +1,308 @@
+/**
+ * Shared LLM setup for API routes: provider config, cache, prompts, logging and tracing
+ * Used by: Backend - /api/analyze and /api/setting-note routes
+ * 
+ * @tags llm-config, environment, observability
+ */
+
+import { readFileSync } from 'fs';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES, PromptRegistry, PromptTemplateSchema, type CallOptions } from '@page-atelier/core';
+import {
+  BasicTracer,
+  CachedAdapter,
+  ConsoleLogger,
+  DEFAULT_PRICING,
+  FileCacheStore,
+  FileSpanExporter,
+  MemoryCacheStore,
+  UsageTracker,
+  createLLMAdapter,
+  noopTracer,
+  type CacheStore,
+  type JsonMode,
+  type LLMError,
+  type LLMConfig,
+  type LLMErrorKind,
+  type LLMProvider,
+  type LogLevel,
+  type PriceTable,
+  type RateLimitConfig,
+  type SpanAttributes,
+  type Tracer
+} from '@page-atelier/llm';
+
+/**
+ * Raised when an environment variable holds a value the LLM setup cannot use
+ * Used by: Backend - 500 responses naming the misconfigured variable
+ * 
+ * @tags error, config, environment
+ */
+export class LLMConfigError extends Error {
+  constructor(
+    public variable: string,
+    message: string
+  ) {
+    super(`Invalid ${variable}: ${message}`);
+    this.name = 'LLMConfigError';
+  }
+}
+
+/**
+ * Parses a JSON setting from the environment and validates it against its schema
+ * Used by: Backend - JSON-valued LLM environment variables
+ * 
+ * @tags config, environment, validation
+ */
+function parseJSONConfig<T extends z.ZodTypeAny>(variable: string, content: string, schema: T): z.output<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new LLMConfigError(variable, `not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new LLMConfigError(
+      variable,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+    );
+  }
+  return result.data;
+}
+
+// LOG_REDACT=false includes manuscript text and model output in logs, for local debugging only
+export const logger = new ConsoleLogger({
+  level: (process.env.LOG_LEVEL as LogLevel | undefined) ?? 'info',
+  redact: process.env.LOG_REDACT !== 'false'
+});
+
+// Spans are appended to TRACE_FILE as OTLP-style JSON lines; tracing is off without it
+export const tracer: Tracer = process.env.TRACE_FILE
+  ? new BasicTracer([new FileSpanExporter(process.env.TRACE_FILE, logger)])
+  : noopTracer;
+
+// Shared across requests so re-analysis of unchanged text hits the cache
+const llmCache: CacheStore = process.env.LLM_CACHE_DIR
+  ? new FileCacheStore(process.env.LLM_CACHE_DIR)
+  : new MemoryCacheStore();
+const LLM_CACHE_TTL_MS = Number(process.env.LLM_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000);
+
+// Built-in prompts, replaced per ID and locale by templates from PROMPT_OVERRIDES_FILE (JSON array)
+let promptRegistry: PromptRegistry | undefined;
+
+/**
+ * Returns the shared prompt registry, loading the override file on first use
+ * Used by: Backend - Core modules of LLM-backed routes
+ * 
+ * @tags prompt-registry, overrides, environment
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (promptRegistry) return promptRegistry;
+
+  const file = process.env.PROMPT_OVERRIDES_FILE;
+  let content: string | undefined;
+  try {
+    content = file ? readFileSync(file, 'utf-8') : undefined;
+  } catch (error) {
+    throw new LLMConfigError('PROMPT_OVERRIDES_FILE', `cannot read ${file} (${error instanceof Error ? error.message : String(error)})`);
+  }
+  promptRegistry = new PromptRegistry({
+    defaultLocale: process.env.PROMPT_LOCALE,
+    overrides: content ? parseJSONConfig('PROMPT_OVERRIDES_FILE', content, z.array(PromptTemplateSchema)) : []
+  });
+  return promptRegistry;
+}
+
+// Time budget per LLM call, including retries and repairs
+const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS ?? 60000);
+
+// Client-side limits per provider, e.g. {"gemini":{"requestsPerMinute":15,"maxConcurrent":2}}
+const RateLimitSchema: z.ZodType<RateLimitConfig> = z.object({
+  requestsPerMinute: z.number().positive().optional(),
+  tokensPerMinute: z.number().positive().optional(),
+  maxConcurrent: z.number().int().positive().optional()
+}).strict();
+let llmRateLimits: Partial<Record<LLMProvider, RateLimitConfig>> | undefined;
+
+function getLLMRateLimits(): Partial<Record<LLMProvider, RateLimitConfig>> {
+  llmRateLimits ??= process.env.LLM_RATE_LIMITS
+    ? parseJSONConfig('LLM_RATE_LIMITS', process.env.LLM_RATE_LIMITS, z.record(RateLimitSchema))
+    : {};
+  return llmRateLimits;
+}
+
+// USD per 1M tokens; LLM_PRICING overrides or extends the defaults per model
+// Read on first use, so a malformed value fails requests with an error naming it instead of the module import
+let llmPricing: PriceTable | undefined;
+
+function getLLMPricing(): PriceTable {
+  llmPricing ??= {
+    ...DEFAULT_PRICING,
+    ...(process.env.LLM_PRICING
+      ? parseJSONConfig('LLM_PRICING', process.env.LLM_PRICING, z.record(z.object({
+          inputPerMillion: z.number().nonnegative(),
+          outputPerMillion: z.number().nonnegative()
+        })))
+      : {})
+  };
+  return llmPricing;
+}
+
+// HTTP status and user-facing message per LLM failure kind
+export const LLM_ERROR_RESPONSES: Record<LLMErrorKind, { status: number; message: string }> = {
+  auth: { status: 502, message: ERROR_MESSAGES.apiKeyInvalid },
+  rate_limit: { status: 429, message: ERROR_MESSAGES.rateLimited },
+  quota: { status: 429, message: ERROR_MESSAGES.quotaExceeded },
+  safety: { status: 422, message: ERROR_MESSAGES.contentBlocked },
+  context_length: { status: 413, message: ERROR_MESSAGES.contextTooLong },
+  network: { status: 502, message: ERROR_MESSAGES.networkError },
+  server: { status: 503, message: ERROR_MESSAGES.llmFailure },
+  timeout: { status: 504, message: ERROR_MESSAGES.timeout },
+  invalid_output: { status: 502, message: ERROR_MESSAGES.validationFailure },
+  bad_request: { status: 502, message: ERROR_MESSAGES.llmFailure },
+  unknown: { status: 500, message: ERROR_MESSAGES.llmFailure }
+};
+
+/**
+ * Maps a fatal LLM error to its HTTP status and user-facing message
+ * Used by: Backend - Error responses of LLM-backed routes
+ * 
+ * @tags error-response, http-status
+ */
+export function llmErrorResponse(error: LLMError): NextResponse {
+  const { status, message } = LLM_ERROR_RESPONSES[error.kind];
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      error_kind: error.kind,
+      details: error.message
+    },
+    {
+      status,
+      headers: error.retryAfterMs
+        ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+        : undefined
+    }
+  );
+}
+
+/**
+ * Wraps the configured provider in the shared response cache and usage tracking
+ * Used by: Backend - One adapter per API request
+ * 
+ * @tags adapter, cache, usage
+ */
+export function createTrackedAdapter(llmConfig: LLMConfig, bypassCache?: boolean): UsageTracker {
+  return new UsageTracker(
+    new CachedAdapter(createLLMAdapter(llmConfig), llmCache, {
+      ttlMs: LLM_CACHE_TTL_MS,
+      bypass: bypassCache
+    }),
+    getLLMPricing()
+  );
+}
+
+/**
+ * Runs an operation in a span nested under the current one, passing the span on to its LLM calls
+ * Used by: Backend - Analysis and step spans of runAnalysis
+ * 
+ * @tags tracing, span
+ */
+export async function traceSpan<T>(
+  name: string,
+  callOptions: CallOptions,
+  run: (options: CallOptions) => Promise<T>,
+  attributes?: SpanAttributes
+): Promise<T> {
+  const span = (callOptions.tracer ?? noopTracer).startSpan(name, {
+    parent: callOptions.parentSpan,
+    attributes
+  });
+  try {
+    const result = await run({ ...callOptions, parentSpan: span });
+    span.setStatus({ code: 'ok' });
+    return result;
+  } catch (error) {
+    span.setStatus({ code: 'error', message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Builds LLM configuration from environment variables
+ * Used by: Backend - Provider selection for live, recorded, replayed or mocked runs
+ * 
+ * @tags llm-config, environment, provider-selection
+ */
+export function buildLLMConfig(temperature: number): LLMConfig | null {
+  const rateLimits = getLLMRateLimits();
+  const provider = (process.env.LLM_PROVIDER ?? 'gemini') as LLMProvider;
+  const geminiConfig: LLMConfig = {
+    provider: 'gemini',
+    apiKey: process.env.GEMINI_API_KEY,
+    model: 'gemini-1.5-flash',
+    temperature,
+    maxRetries: 3,
+    timeoutMs: LLM_TIMEOUT_MS,
+    rateLimit: rateLimits.gemini
+  };
+
+  switch (provider) {
+    case 'mock':
+    case 'replay':
+      return {
+        provider,
+        temperature,
+        fixtureDir: process.env.LLM_FIXTURE_DIR
+      };
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL) return null;
+      return {
+        provider,
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        headers: process.env.LLM_HEADERS
+          ? parseJSONConfig('LLM_HEADERS', process.env.LLM_HEADERS, z.record(z.string()))
+          : undefined,
+        jsonMode: (process.env.LLM_JSON_MODE as JsonMode | undefined) ?? 'json_object',
+        temperature,
+        maxRetries: 3,
+        timeoutMs: LLM_TIMEOUT_MS,
+        rateLimit: rateLimits['openai-compatible']
+      };
+    case 'record':
+      if (!geminiConfig.apiKey) return null;
+      return {
+        provider,
+        temperature,
+        fixtureDir: process.env.LLM_FIXTURE_DIR,
+        upstream: geminiConfig
+      };
+    default: {
+      // Gemini first, then OpenAI when a key is available
+      const chain: LLMConfig[] = [];
+      if (geminiConfig.apiKey) {
+        chain.push(geminiConfig);
+      }
+      if (process.env.OPENAI_API_KEY) {
+        chain.push({
+          provider: 'openai',
+          apiKey: process.env.OPENAI_API_KEY,
+          model: process.env.OPENAI_MODEL ?? 'gpt-4o-mini',
+          temperature,
+          maxRetries: 2,
+          timeoutMs: LLM_TIMEOUT_MS,
+          rateLimit: rateLimits.openai
+        });
+      }
+      if (chain.length === 0) return null;
+      return { provider: 'fallback', temperature, chain };
+    }
+  }
+}
\ No newline at end of file
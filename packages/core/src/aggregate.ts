@@ -13,6 +13,7 @@ import type {
   ActionItem,
   Verdict 
 } from './types';
+import { normalCdf } from './sampling';
 
 /**
  * Generates comprehensive aggregate reports from analysis results
@@ -33,6 +34,9 @@ export class AggregateReportGenerator {
     world_rules: 0.25
   };
 
+  // Run-to-run spread of a single sample's total score, assumed until samples measure it
+  private readonly singleSampleStddev = 8;
+
   /**
    * Generates complete aggregate report from all analysis results
    * Used by: Backend - Main analysis flow for final report compilation
@@ -58,7 +62,7 @@ export class AggregateReportGenerator {
     // Calculate confidence score
     const confidenceScore = this.calculateConfidenceScore(
       consistencyCheck,
-      personaEvaluations
+      weightedScores.total
     );
     
     // Generate executive summary
@@ -222,40 +226,37 @@ export class AggregateReportGenerator {
   }
 
   /**
-   * Calculates confidence score for the analysis
+   * Calculates confidence score as the probability that the verdict holds on a re-run
+   * The total is treated as normally distributed around the sampled mean, and the
+   * score is the share of that distribution inside the verdict's threshold band
    * Used by: Backend - Confidence metric calculation
    * 
-   * @tags confidence-score, reliability-metric
+   * @tags confidence-score, reliability-metric, sampling
    */
   private calculateConfidenceScore(
     consistencyCheck: ConsistencyCheck,
-    personaEvaluations: PersonaResult[]
+    totalScore: number
   ): number {
-    // Base confidence on consistency scores
-    let confidence = consistencyCheck.overall_score;
-
-    // Adjust based on persona agreement
-    const reactions = personaEvaluations.map(p => p.overall_reaction);
-    const positiveCount = reactions.filter(r => 
-      r === 'very_positive' || r === 'positive'
-    ).length;
-    
-    if (positiveCount === 3) {
-      confidence = Math.min(100, confidence + 10);
-    } else if (positiveCount === 0) {
-      confidence = Math.max(0, confidence - 10);
-    }
-
-    // Adjust based on issue severity
-    const criticalIssues = [
-      ...consistencyCheck.continuity.issues,
-      ...consistencyCheck.character.issues,
-      ...consistencyCheck.world_rules.issues
-    ].filter(i => i.severity === 'critical').length;
-
-    confidence = Math.max(0, confidence - (criticalIssues * 5));
-
-    return Math.round(confidence);
+    const stats = consistencyCheck.score_stats?.overall;
+    const samples = stats?.samples ?? 1;
+
+    // The assumed spread counts as one extra observation, so two agreeing samples are not taken as certainty
+    const variance = stats
+      ? (samples * stats.stddev ** 2 + this.singleSampleStddev ** 2) / samples
+      : this.singleSampleStddev ** 2;
+    const standardError = Math.sqrt(variance / samples);
+
+    const [lower, upper] = totalScore >= this.verdictThresholds.pass
+      ? [this.verdictThresholds.pass, Infinity]
+      : totalScore >= this.verdictThresholds.revise
+      ? [this.verdictThresholds.revise, this.verdictThresholds.pass]
+      : [-Infinity, this.verdictThresholds.revise];
+
+    const probability =
+      normalCdf((upper - totalScore) / standardError) -
+      normalCdf((lower - totalScore) / standardError);
+
+    return Math.round(probability * 100);
   }
 
   /**
@@ -281,10 +282,13 @@ export class AggregateReportGenerator {
       consistencyCheck.character.issues.length +
       consistencyCheck.world_rules.issues.length;
 
-    const avgSatisfaction = Math.round(
-      personaEvaluations.reduce((sum, p) => sum + p.metrics.satisfaction, 0) / 
-      personaEvaluations.length
-    );
+    // Persona evaluations are missing when skipped or when the step failed
+    const satisfactionLine = personaEvaluations.length > 0
+      ? `\n독자 만족도: 평균 ${Math.round(
+        personaEvaluations.reduce((sum, p) => sum + p.metrics.satisfaction, 0) /
+        personaEvaluations.length
+      )}/100`
+      : '';
 
     return `검수 결과: ${verdictText[verdict]} (종합 점수: ${scores.total}/100)
 
@@ -293,8 +297,7 @@ export class AggregateReportGenerator {
 - 캐릭터 일관성: ${scores.character}/100
 - 세계관 규칙: ${scores.world_rules}/100
 
-발견된 이슈: 총 ${totalIssues}개
-독자 만족도: 평균 ${avgSatisfaction}/100
+발견된 이슈: 총 ${totalIssues}개${satisfactionLine}
 
 ${verdict === 'PASS' 
   ? '작품이 전반적으로 양호한 상태입니다. minor한 수정 후 출간 가능합니다.'
@@ -317,21 +320,25 @@ ${verdict === 'PASS'
     const criticalItems = actionItems.filter(item => item.priority === 'critical');
     const highItems = actionItems.filter(item => item.priority === 'high');
     
-    const lowestSatisfactionPersona = personaEvaluations.reduce((min, p) => 
-      p.metrics.satisfaction < min.metrics.satisfaction ? p : min
-    );
+    const lowestSatisfactionPersona = personaEvaluations.length > 0
+      ? personaEvaluations.reduce((min, p) =>
+        p.metrics.satisfaction < min.metrics.satisfaction ? p : min
+      )
+      : undefined;
 
     if (verdict === 'PASS') {
       return `추천 사항:
 1. 출간 준비를 진행하셔도 좋습니다.
-2. ${highItems.length > 0 ? `${highItems.length}개의 개선사항을 검토해보세요.` : '세부 퇴고를 진행하세요.'}
-3. ${lowestSatisfactionPersona.persona_name} 독자층을 위한 추가 개선을 고려해보세요.`;
+2. ${highItems.length > 0 ? `${highItems.length}개의 개선사항을 검토해보세요.` : '세부 퇴고를 진행하세요.'}${lowestSatisfactionPersona
+  ? `\n3. ${lowestSatisfactionPersona.persona_name} 독자층을 위한 추가 개선을 고려해보세요.`
+  : ''}`;
     } else if (verdict === 'REVISE') {
       return `필수 수정 사항:
 1. ${criticalItems.length > 0 ? `긴급: ${criticalItems.length}개의 심각한 이슈를 먼저 해결하세요.` : ''}
 2. ${highItems.length}개의 중요 이슈를 수정하세요.
-3. ${lowestSatisfactionPersona.persona_name}의 피드백을 중점적으로 반영하세요.
-4. 수정 완료 후 재검수를 요청하세요.`;
+${lowestSatisfactionPersona
+  ? `3. ${lowestSatisfactionPersona.persona_name}의 피드백을 중점적으로 반영하세요.\n4. 수정 완료 후 재검수를 요청하세요.`
+  : '3. 수정 완료 후 재검수를 요청하세요.'}`;
     } else {
       return `긴급 조치 필요:
 1. 작품의 기본 구조부터 재검토가 필요합니다.
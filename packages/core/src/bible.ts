@@ -0,0 +1,142 @@
+/**
+ * Series bible versioning and author locks
+ * Used by: Backend - Bible API routes and bible-backed analysis
+ * 
+ * @tags series-bible, locks, versioning
+ */
+
+import { z } from 'zod';
+import { buildNameIndex } from './names';
+import { normalizeText } from './sampling';
+import { isSameFact } from './settingMerge';
+import type { BibleLock, BibleSection, Character, CharacterAttribute, SeriesBible, SettingNote } from './types';
+
+const CHARACTER_ATTRIBUTES = [
+  'aliases',
+  'role',
+  'traits',
+  'goals',
+  'relationships',
+  'speech_pattern',
+  'taboo_actions'
+] as const satisfies readonly CharacterAttribute[];
+
+const BIBLE_SECTIONS = [
+  'title',
+  'genre',
+  'summary',
+  'characters',
+  'world_rules',
+  'timeline',
+  'locations',
+  'factions',
+  'items',
+  'power_systems'
+] as const satisfies readonly BibleSection[];
+
+export const BibleLockSchema: z.ZodType<BibleLock> = z.union([
+  z.object({ field: z.enum(BIBLE_SECTIONS) }),
+  z.object({ field: z.literal('character'), name: z.string().min(1), attribute: z.enum(CHARACTER_ATTRIBUTES).optional() }),
+  z.object({ field: z.literal('world_rule'), rule: z.string().min(1) }),
+  z.object({ field: z.literal('timeline_event'), event: z.string().min(1) })
+]);
+
+export interface BibleChange {
+  setting_note: SettingNote;
+  source: SeriesBible['source'];
+  locks?: BibleLock[]; // Authors may change locks; builder changes keep the previous ones
+  message?: string;
+}
+
+/**
+ * Creates the next version of a bible; builder output passes through the previous version's locks
+ * Used by: Backend - Every bible write
+ * 
+ * @tags versioning, locks
+ */
+export function createBibleVersion(
+  seriesId: string,
+  previous: SeriesBible | undefined,
+  change: BibleChange
+): SeriesBible {
+  const locks = change.locks ?? previous?.locks ?? [];
+  const settingNote = previous && change.source === 'builder'
+    ? applyLocks(previous.setting_note, change.setting_note, locks)
+    : change.setting_note;
+
+  return {
+    series_id: seriesId,
+    version: (previous?.version ?? 0) + 1,
+    updated_at: new Date().toISOString(),
+    source: change.source,
+    ...(change.message ? { message: change.message } : {}),
+    setting_note: settingNote,
+    locks
+  };
+}
+
+/**
+ * Restores every locked field of the current note over a proposed note
+ * Locked characters, rules and events are kept even when the proposal dropped them
+ * Used by: Backend - createBibleVersion for builder output
+ * 
+ * @tags locks, canonical-fields
+ */
+export function applyLocks(current: SettingNote, proposed: SettingNote, locks: BibleLock[]): SettingNote {
+  const note = structuredClone(proposed);
+  const locked = (field: BibleLock['field']) => locks.some(lock => lock.field === field);
+
+  if (locked('title')) note.title = current.title;
+  if (locked('genre')) note.genre = [...current.genre];
+  if (locked('summary')) note.summary = current.summary;
+  if (locked('characters')) note.characters = structuredClone(current.characters);
+  if (locked('world_rules')) note.world_rules = structuredClone(current.world_rules);
+  if (locked('timeline')) note.timeline = structuredClone(current.timeline);
+  if (locked('locations')) note.locations = structuredClone(current.locations);
+  if (locked('factions')) note.factions = structuredClone(current.factions);
+  if (locked('items')) note.items = structuredClone(current.items);
+  if (locked('power_systems')) note.power_systems = structuredClone(current.power_systems);
+
+  const findCurrent = buildNameIndex(current.characters);
+  for (const lock of locks) {
+    if (lock.field === 'character') {
+      const source = findCurrent(lock.name);
+      if (!source) continue;
+      // Proposed entries may use any name the current note knows this character by
+      const target = note.characters.find(character => findCurrent(character.name) === source) ??
+        buildNameIndex(note.characters)(source.name);
+      if (!target) {
+        note.characters.push(structuredClone(source));
+      } else if (lock.attribute) {
+        copyAttribute(target, source, lock.attribute);
+      } else {
+        note.characters[note.characters.indexOf(target)] = structuredClone(source);
+      }
+    } else if (lock.field === 'world_rule') {
+      const source = current.world_rules.find(rule => normalizeText(rule.rule) === normalizeText(lock.rule));
+      if (source) note.world_rules = replaceFact(note.world_rules, source, rule => rule.rule);
+    } else if (lock.field === 'timeline_event') {
+      const source = current.timeline.find(event => normalizeText(event.event) === normalizeText(lock.event));
+      if (source) note.timeline = replaceFact(note.timeline, source, event => event.event);
+    }
+  }
+
+  return note;
+}
+
+function copyAttribute<K extends CharacterAttribute>(target: Character, source: Character, attribute: K): void {
+  target[attribute] = structuredClone(source[attribute]);
+}
+
+/**
+ * Puts a locked item in place of the proposed restatement of it, or appends it when absent
+ * Used by: Backend - applyLocks for world rules and timeline events
+ * 
+ * @tags locks
+ */
+function replaceFact<T>(items: T[], locked: T, text: (item: T) => string): T[] {
+  const index = items.findIndex(item => isSameFact(text(item), text(locked)));
+  const rest = items.filter(item => !isSameFact(text(item), text(locked)));
+  rest.splice(index === -1 ? rest.length : Math.min(index, rest.length), 0, structuredClone(locked));
+  return rest;
+}
@@ -0,0 +1,145 @@
+/**
+ * Versioned storage for series bibles
+ * Used by: Backend - Bible API routes and bible-backed analysis
+ * 
+ * @tags series-bible, storage, versioning
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BibleVersionInfo, SeriesBible } from './types';
+
+export interface BibleStore {
+  // Latest version, or the given one
+  get(seriesId: string, version?: number): Promise<SeriesBible | undefined>;
+  listVersions(seriesId: string): Promise<BibleVersionInfo[]>;
+  // Fails with BibleVersionConflictError unless bible.version directly follows the stored latest
+  save(bible: SeriesBible): Promise<void>;
+}
+
+/**
+ * Raised when a bible was changed since the version a writer started from
+ * Used by: Backend - Optimistic concurrency for bible writes
+ * 
+ * @tags error, conflict
+ */
+export class BibleVersionConflictError extends Error {
+  constructor(
+    public seriesId: string,
+    public latestVersion: number
+  ) {
+    super(`Series bible ${seriesId} is at version ${latestVersion}`);
+    this.name = 'BibleVersionConflictError';
+  }
+}
+
+/**
+ * In-process bible store keeping every version
+ * Used by: Backend - Default store for a single server instance and development
+ * 
+ * @tags bible-store, memory
+ */
+export class MemoryBibleStore implements BibleStore {
+  private versions = new Map<string, SeriesBible[]>();
+
+  async get(seriesId: string, version?: number): Promise<SeriesBible | undefined> {
+    const versions = this.versions.get(seriesId) ?? [];
+    const bible = version === undefined ? versions[versions.length - 1] : versions[version - 1];
+    return bible && structuredClone(bible);
+  }
+
+  async listVersions(seriesId: string): Promise<BibleVersionInfo[]> {
+    return (this.versions.get(seriesId) ?? []).map(toVersionInfo);
+  }
+
+  async save(bible: SeriesBible): Promise<void> {
+    const versions = this.versions.get(bible.series_id) ?? [];
+    if (bible.version !== versions.length + 1) {
+      throw new BibleVersionConflictError(bible.series_id, versions.length);
+    }
+    this.versions.set(bible.series_id, [...versions, structuredClone(bible)]);
+  }
+}
+
+/**
+ * On-disk bible store writing one JSON file per version under a directory per series
+ * Used by: Backend - Bibles shared across restarts and processes
+ * 
+ * @tags bible-store, file-system
+ */
+export class FileBibleStore implements BibleStore {
+  constructor(private directory: string) {}
+
+  async get(seriesId: string, version?: number): Promise<SeriesBible | undefined> {
+    const target = version ?? (await this.getLatestVersion(seriesId));
+    if (!target) return undefined;
+    try {
+      return JSON.parse(await fs.promises.readFile(this.getPath(seriesId, target), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listVersions(seriesId: string): Promise<BibleVersionInfo[]> {
+    const latest = await this.getLatestVersion(seriesId);
+    const bibles = await Promise.all(
+      Array.from({ length: latest }, (_, index) => this.get(seriesId, index + 1))
+    );
+    return bibles.filter((bible): bible is SeriesBible => bible !== undefined).map(toVersionInfo);
+  }
+
+  async save(bible: SeriesBible): Promise<void> {
+    const latest = await this.getLatestVersion(bible.series_id);
+    if (bible.version !== latest + 1) {
+      throw new BibleVersionConflictError(bible.series_id, latest);
+    }
+
+    await fs.promises.mkdir(this.getSeriesDirectory(bible.series_id), { recursive: true });
+    // Linking the finished file fails if another writer already took this version
+    // Every write gets its own temp file, so concurrent saves never link each other's partial JSON
+    const target = this.getPath(bible.series_id, bible.version);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(bible, null, 2), 'utf-8');
+    try {
+      await fs.promises.link(temp, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new BibleVersionConflictError(bible.series_id, await this.getLatestVersion(bible.series_id));
+      }
+      throw error;
+    } finally {
+      await fs.promises.rm(temp, { force: true });
+    }
+  }
+
+  private async getLatestVersion(seriesId: string): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.getSeriesDirectory(seriesId));
+    } catch {
+      return 0;
+    }
+    return files.reduce((latest, file) => {
+      const match = file.match(/^v(\d+)\.json$/);
+      return match ? Math.max(latest, Number(match[1])) : latest;
+    }, 0);
+  }
+
+  private getSeriesDirectory(seriesId: string): string {
+    return path.join(this.directory, encodeURIComponent(seriesId));
+  }
+
+  private getPath(seriesId: string, version: number): string {
+    return path.join(this.getSeriesDirectory(seriesId), `v${String(version).padStart(6, '0')}.json`);
+  }
+}
+
+function toVersionInfo(bible: SeriesBible): BibleVersionInfo {
+  return {
+    version: bible.version,
+    updated_at: bible.updated_at,
+    source: bible.source,
+    ...(bible.message ? { message: bible.message } : {})
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Obsidian-style vault export: one interlinked Markdown page per setting note entry
+ * Output depends only on the note, so re-exports of an unchanged bible are identical
+ * Used by: Backend - Vault downloads of series bibles and analysis setting notes
+ * 
+ * @tags export, obsidian, wikilinks, vault
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import * as yaml from 'js-yaml';
+import { buildNameIndex } from './names';
+import { normalizeText } from './sampling';
+import { RELATIONSHIP_LABELS } from './settingLint';
+import type { SettingNote, TimelineEvent, VaultFile } from './types';
+
+const FOLDERS = {
+  characters: '인물',
+  locations: '장소',
+  factions: '세력',
+  items: '아이템',
+  power_systems: '능력체계',
+  world_rules: '세계관'
+} as const;
+
+const INDEX_PAGE = 'index';
+const TIMELINE_PAGE = '타임라인';
+
+const MAX_PAGE_NAME_LENGTH = 60;
+
+// Local date parts, so every server writes the same DOS timestamp into the zip
+const ZIP_MTIME = new Date(1980, 0, 1);
+
+interface Page {
+  path: string; // Without the .md extension
+  label: string;
+}
+
+interface NamedPage<T> extends Page {
+  entry: T;
+}
+
+/**
+ * Builds the vault pages of a setting note, sorted by path
+ * Relationships, memberships, holders and timeline events link to the pages they name;
+ * names the note does not define stay plain text
+ * Used by: Backend - Vault export routes
+ * 
+ * @tags vault, pages, wikilinks
+ */
+export function buildBibleVault(settingNote: SettingNote): VaultFile[] {
+  const allocate = createPageAllocator();
+  const characters = settingNote.characters.map(character =>
+    namedPage(allocate(FOLDERS.characters, character.name), character.name, character)
+  );
+  const locations = (settingNote.locations ?? []).map(location =>
+    namedPage(allocate(FOLDERS.locations, location.name), location.name, location)
+  );
+  const factions = (settingNote.factions ?? []).map(faction =>
+    namedPage(allocate(FOLDERS.factions, faction.name), faction.name, faction)
+  );
+  const items = (settingNote.items ?? []).map(item =>
+    namedPage(allocate(FOLDERS.items, item.name), item.name, item)
+  );
+  const powerSystems = (settingNote.power_systems ?? []).map(system =>
+    namedPage(allocate(FOLDERS.power_systems, system.name), system.name, system)
+  );
+  const rules = settingNote.world_rules.map(rule =>
+    namedPage(allocate(FOLDERS.world_rules, rule.rule), rule.rule, rule)
+  );
+  const events = assignBlockIds(settingNote.timeline);
+
+  const findCharacter = buildNameIndex(settingNote.characters);
+  const characterLink = (name: string) => {
+    const character = findCharacter(name);
+    const page = character && characters.find(candidate => candidate.entry === character);
+    return page ? link(page) : name;
+  };
+  const locationLink = createEntityLinker(locations);
+  const factionLink = createEntityLinker(factions);
+  const eventLink = (event: { event: TimelineEvent; id: string }) =>
+    `[[${TIMELINE_PAGE}#^${event.id}|${escapeLabel(event.event.timestamp || event.event.event)}]]`;
+
+  const files: VaultFile[] = [];
+  const addPage = (path: string, frontMatter: Record<string, unknown>, lines: (string | undefined)[]) => {
+    files.push({ path: `${path}.md`, content: renderPage(frontMatter, lines) });
+  };
+
+  for (const page of characters) {
+    const character = page.entry;
+    const isThis = (name: string) => findCharacter(name) === character;
+    const memberships = factions.flatMap(faction => {
+      const member = faction.entry.members.find(candidate => isThis(candidate.character));
+      const leads = faction.entry.leader !== undefined && isThis(faction.entry.leader);
+      if (!member && !leads) return [];
+      return [`- ${link(faction)}${leads ? ' — 수장' : member?.rank ? ` — ${member.rank}` : ''}`];
+    });
+    const possessions = items.flatMap(item => {
+      const holders = item.entry.holders;
+      if (!holders.some(holder => isThis(holder.character))) return [];
+      // The last holder has the item now
+      return [`- ${link(item)}${isThis(holders[holders.length - 1].character) ? '' : ' (이전 소유)'}`];
+    });
+    const abilities = powerSystems.flatMap(system =>
+      system.entry.practitioners
+        .filter(practitioner => isThis(practitioner.character))
+        .map(practitioner => `- ${link(system)}: ${practitioner.rank}`)
+    );
+    const appearances = events
+      .filter(({ event }) => event.involved_characters.some(isThis))
+      .map(event => `- ${eventLink(event)} ${event.event.event}`);
+
+    addPage(page.path, {
+      type: 'character',
+      role: character.role,
+      ...(character.aliases?.length ? { aliases: character.aliases } : {})
+    }, [
+      `# ${character.name}`,
+      ...section('성격', character.traits.map(trait => `- ${trait}`)),
+      ...section('목표', character.goals.map(goal => `- ${goal}`)),
+      ...section('관계', character.relationships.map(relationship =>
+        `- ${characterLink(relationship.character)} (${RELATIONSHIP_LABELS[relationship.type]})` +
+        (relationship.description ? `: ${relationship.description}` : '')
+      )),
+      ...section('말투', character.speech_pattern ? [character.speech_pattern] : []),
+      ...section('금기', (character.taboo_actions ?? []).map(action => `- ${action}`)),
+      ...section('소속', memberships),
+      ...section('소지품', possessions),
+      ...section('능력', abilities),
+      ...section('등장 사건', appearances)
+    ]);
+  }
+
+  for (const page of locations) {
+    const location = page.entry;
+    const isThis = (name: string) => locationLink.find(name) === page;
+    addPage(page.path, {
+      type: 'location',
+      location_type: location.type,
+      ...(location.aliases?.length ? { aliases: location.aliases } : {})
+    }, [
+      `# ${location.name}`,
+      location.description ? `\n${location.description}` : undefined,
+      ...section('상위 지역', location.part_of ? [`- ${locationLink(location.part_of)}`] : []),
+      ...section('하위 지역', locations
+        .filter(other => other.entry.part_of !== undefined && isThis(other.entry.part_of))
+        .map(other => `- ${link(other)}`)),
+      ...section('연결', (location.connections ?? []).map(connection =>
+        `- ${locationLink(connection.location)}${connection.description ? `: ${connection.description}` : ''}`
+      )),
+      ...section('거점으로 삼은 세력', factions
+        .filter(faction => faction.entry.base !== undefined && isThis(faction.entry.base))
+        .map(faction => `- ${link(faction)}`))
+    ]);
+  }
+
+  for (const page of factions) {
+    const faction = page.entry;
+    addPage(page.path, {
+      type: 'faction',
+      faction_type: faction.type,
+      ...(faction.aliases?.length ? { aliases: faction.aliases } : {})
+    }, [
+      `# ${faction.name}`,
+      faction.description ? `\n${faction.description}` : undefined,
+      ...section('수장', faction.leader ? [`- ${characterLink(faction.leader)}`] : []),
+      ...section('계급', (faction.ranks ?? []).map((rank, index) => `${index + 1}. ${rank}`)),
+      ...section('구성원', faction.members.map(member =>
+        `- ${characterLink(member.character)}${member.rank ? ` — ${member.rank}` : ''}`
+      )),
+      ...section('거점', faction.base ? [`- ${locationLink(faction.base)}`] : []),
+      ...section('상위 세력', faction.parent ? [`- ${factionLink(faction.parent)}`] : []),
+      ...section('하위 세력', factions
+        .filter(other => other.entry.parent !== undefined && factionLink.find(other.entry.parent) === page)
+        .map(other => `- ${link(other)}`))
+    ]);
+  }
+
+  for (const page of items) {
+    const item = page.entry;
+    addPage(page.path, {
+      type: 'item',
+      item_type: item.type,
+      ...(item.aliases?.length ? { aliases: item.aliases } : {})
+    }, [
+      `# ${item.name}`,
+      item.description ? `\n${item.description}` : undefined,
+      ...section('능력', (item.abilities ?? []).map(ability => `- ${ability}`)),
+      ...section('소유 이력', item.holders.map(holder =>
+        `- ${characterLink(holder.character)}${holder.since ? ` (${holder.since}부터)` : ''}`
+      ))
+    ]);
+  }
+
+  for (const page of powerSystems) {
+    const system = page.entry;
+    addPage(page.path, { type: 'power_system' }, [
+      `# ${system.name}`,
+      system.description ? `\n${system.description}` : undefined,
+      ...section('경지', system.ranks.map((rank, index) => `${index + 1}. ${rank}`)),
+      ...section('규칙', system.rules.map(rule => `- ${rule}`)),
+      ...section('수련자', system.practitioners.map(practitioner =>
+        `- ${characterLink(practitioner.character)}: ${practitioner.rank}`
+      ))
+    ]);
+  }
+
+  for (const page of rules) {
+    const rule = page.entry;
+    addPage(page.path, { type: 'world_rule', category: rule.category, importance: rule.importance }, [
+      `# ${page.path.slice(FOLDERS.world_rules.length + 1)}`,
+      `\n${rule.rule}`,
+      ...section('근거', rule.evidence ? [`> ${rule.evidence}`] : [])
+    ]);
+  }
+
+  addPage(TIMELINE_PAGE, { type: 'timeline' }, [
+    `# ${TIMELINE_PAGE}`,
+    '',
+    ...events.map(({ event, id }) => {
+      const involved = event.involved_characters.map(characterLink).join(', ');
+      return `- **${event.timestamp || '시점 미상'}** ${event.event}${involved ? ` · ${involved}` : ''} ^${id}`;
+    }),
+    ...section('순서 충돌', (settingNote.timeline_conflicts ?? []).map(conflict => `- ${conflict.description}`))
+  ]);
+
+  addPage(INDEX_PAGE, { type: 'index', title: settingNote.title, genre: settingNote.genre }, [
+    `# ${settingNote.title}`,
+    settingNote.summary ? `\n${settingNote.summary}` : undefined,
+    ...section('인물', characters.map(page => `- ${link(page)}`)),
+    ...section('장소', locations.map(page => `- ${link(page)}`)),
+    ...section('세력', factions.map(page => `- ${link(page)}`)),
+    ...section('아이템', items.map(page => `- ${link(page)}`)),
+    ...section('능력 체계', powerSystems.map(page => `- ${link(page)}`)),
+    ...section('세계관', rules.map(page => `- ${link(page)}`)),
+    ...section('타임라인', [`- [[${TIMELINE_PAGE}]] (${settingNote.timeline.length}개 사건)`])
+  ]);
+
+  return files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Zips vault pages under one top-level folder, with fixed timestamps for byte-identical re-exports
+ * Used by: Backend - Vault download responses
+ * 
+ * @tags vault, zip
+ */
+export function zipBibleVault(files: VaultFile[], folder: string): Uint8Array {
+  const root = toPageName(folder) || 'vault';
+  return zipSync(
+    Object.fromEntries(files.map(file => [`${root}/${file.path}`, strToU8(file.content)])),
+    { level: 6, mtime: ZIP_MTIME }
+  );
+}
+
+/**
+ * Hands out page paths unique within their folder, ignoring case
+ * Used by: Backend - buildBibleVault
+ * 
+ * @tags vault, file-names
+ */
+function createPageAllocator(): (folder: string, name: string) => string {
+  const taken = new Set<string>();
+  return (folder, name) => {
+    const base = toPageName(name) || '제목 없음';
+    let path = `${folder}/${base}`;
+    for (let suffix = 2; taken.has(path.toLowerCase()); suffix++) {
+      path = `${folder}/${base} ${suffix}`;
+    }
+    taken.add(path.toLowerCase());
+    return path;
+  };
+}
+
+// Characters that break file names or wikilinks
+function toPageName(name: string): string {
+  const cleaned = name.normalize('NFC').replace(/[\\/:*?"<>|#^\[\]\n]/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned.length > MAX_PAGE_NAME_LENGTH ? cleaned.slice(0, MAX_PAGE_NAME_LENGTH).trim() : cleaned;
+}
+
+function namedPage<T>(path: string, label: string, entry: T): NamedPage<T> {
+  return { path, label, entry };
+}
+
+function link(page: Page): string {
+  return `[[${page.path}|${escapeLabel(page.label)}]]`;
+}
+
+function escapeLabel(label: string): string {
+  return label.replace(/[\[\]|\n]/g, ' ').trim();
+}
+
+/**
+ * Links names of locations or factions to their pages by name or alias
+ * Used by: Backend - buildBibleVault
+ * 
+ * @tags vault, wikilinks
+ */
+function createEntityLinker<T extends { name: string; aliases?: string[] }>(
+  pages: NamedPage<T>[]
+): ((name: string) => string) & { find: (name: string) => NamedPage<T> | undefined } {
+  const index = new Map<string, NamedPage<T>>();
+  for (const page of pages) {
+    for (const name of [page.entry.name, ...(page.entry.aliases ?? [])]) {
+      const key = normalizeText(name);
+      if (!index.has(key)) index.set(key, page);
+    }
+  }
+  const find = (name: string) => index.get(normalizeText(name));
+  return Object.assign((name: string) => {
+    const page = find(name);
+    return page ? link(page) : name;
+  }, { find });
+}
+
+/**
+ * Gives every event a block ID derived from its content, so inserting an event
+ * does not renumber the links to the others
+ * Used by: Backend - Timeline backlinks
+ * 
+ * @tags vault, timeline, block-ids
+ */
+function assignBlockIds(timeline: TimelineEvent[]): { event: TimelineEvent; id: string }[] {
+  const taken = new Set<string>();
+  return timeline.map(event => {
+    const base = `e${hashText(`${event.timestamp}\u0000${event.event}`)}`;
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+    taken.add(id);
+    return { event, id };
+  });
+}
+
+// FNV-1a, as 8 hex digits
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function section(heading: string, lines: string[]): string[] {
+  return lines.length > 0 ? ['', `## ${heading}`, '', ...lines] : [];
+}
+
+function renderPage(frontMatter: Record<string, unknown>, lines: (string | undefined)[]): string {
+  const header = `---\n${yaml.dump(frontMatter, { lineWidth: -1, noRefs: true })}---\n\n`;
+  return header + lines.filter((line): line is string => line !== undefined).join('\n') + '\n';
+}
+
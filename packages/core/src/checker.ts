@@ -6,8 +6,16 @@
  */
 
 import { z } from 'zod';
-import type { ConsistencyCheck, Issue, SettingNote } from './types';
-import type { LLMAdapter } from '@page-atelier/llm';
+import type {
+  CallOptions,
+  ConsistencyCheck,
+  ConsistencyStreamEvent,
+  Issue,
+  SettingNote
+} from './types';
+import { throwIfFatal, type DeepPartial, type LLMAdapter } from '@page-atelier/llm';
+import { computeScoreStats, getSampleCount, mergeIssues, runSamples } from './sampling';
+import { defaultPromptRegistry, type PromptRegistry, type RenderedPrompt } from './prompts';
 
 // Zod schemas for validation
 const IssueSchema = z.object({
@@ -23,6 +31,11 @@ const IssueSchema = z.object({
   }).optional()
 });
 
+const CategoryCheckSchema = z.object({
+  score: z.number(),
+  issues: z.array(IssueSchema)
+}).describe('CategoryCheck');
+
 const ConsistencyCheckSchema = z.object({
   continuity: z.object({
     score: z.number().min(0).max(100),
@@ -37,7 +50,7 @@ const ConsistencyCheckSchema = z.object({
     issues: z.array(IssueSchema)
   }),
   overall_score: z.number().min(0).max(100)
-});
+}).describe('ConsistencyCheck');
 
 /**
  * Performs comprehensive consistency checks on story text
@@ -52,7 +65,10 @@ export class ConsistencyChecker {
     world_rules: 0.25
   };
 
-  constructor(private llmAdapter: LLMAdapter) {}
+  constructor(
+    private llmAdapter: LLMAdapter,
+    private prompts: PromptRegistry = defaultPromptRegistry
+  ) {}
 
   /**
    * Runs complete consistency check on story text
@@ -62,62 +78,160 @@ export class ConsistencyChecker {
    */
   async checkConsistency(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<ConsistencyCheck> {
-    const systemPrompt = `당신은 웹소설 전문 검수 편집자입니다. 
-주어진 설정노트를 기준으로 텍스트의 일관성을 검사합니다.
-모든 문제점은 구체적인 증거와 함께 제시해야 합니다.`;
-
-    const prompt = `다음 텍스트의 일관성을 검사하세요:
-
-설정노트:
-${JSON.stringify(settingNote, null, 2)}
-
-검사할 텍스트:
-${text}
-
-검사 항목:
-1. 개연성 (Continuity) - 40% 가중치
-   - 사건의 인과관계
-   - 시간적 순서
-   - 논리적 흐름
-   - 복선과 회수
-
-2. 캐릭터 일관성 (Character) - 35% 가중치
-   - 성격 일관성
-   - 행동 패턴
-   - 말투 유지
-   - 동기 일치
-
-3. 세계관 규칙 (World Rules) - 25% 가중치
-   - 설정된 규칙 준수
-   - 마법/무공 체계 일관성
-   - 사회 구조 유지
-
-각 항목별로:
-- 점수 (0-100)
-- 발견된 문제들 (type, severity, description, evidence, suggested_fix)
-- 전체 가중평균 점수
-
-심각도 기준:
-- critical: 스토리 붕괴 수준
-- high: 독자가 즉시 알아차릴 수준
-- medium: 주의깊은 독자가 알아차릴 수준
-- low: 사소한 불일치`;
+    const rendered = this.renderConsistencyPrompt(text, settingNote, options);
+
+    const checks = await runSamples(getSampleCount(options?.samples), sample =>
+      this.requestCheck(rendered, sample, options)
+    );
+
+    return this.mergeChecks(checks);
+  }
 
+  /**
+   * Runs the complete consistency check, reporting issues while they are generated
+   * Used by: Backend - Streaming /api/analyze responses for the live consistency tab
+   * 
+   * @tags main-check, streaming, live-issues
+   */
+  async *checkConsistencyStream(
+    text: string,
+    settingNote: SettingNote,
+    options?: CallOptions
+  ): AsyncGenerator<ConsistencyStreamEvent> {
+    const rendered = this.renderConsistencyPrompt(text, settingNote, options);
+    let lastIssues = '';
+
+    // Only the first sample is streamed; the others run alongside and are merged at the end
+    const extraChecks = runSamples(
+      getSampleCount(options?.samples) - 1,
+      sample => this.requestCheck(rendered, sample, options),
+      1
+    );
+    extraChecks.catch(() => undefined); // Rethrown when awaited below
+
+    for await (const event of this.llmAdapter.generateJSONStream(
+      rendered.prompt,
+      ConsistencyCheckSchema,
+      rendered.systemPrompt,
+      { ...options, label: 'consistency', prompt: rendered.ref }
+    )) {
+      if (event.type === 'partial') {
+        const issues = this.collectCompleteIssues(event.data);
+        const serialized = JSON.stringify(issues);
+        if (issues.length > 0 && serialized !== lastIssues) {
+          lastIssues = serialized;
+          yield { type: 'issues', issues };
+        }
+      } else if (event.type === 'done') {
+        throwIfFatal(event.response);
+        const { success, data } = event.response;
+        const checks = await extraChecks;
+        if (success && data) {
+          checks.unshift(this.calculateWeightedScore(data));
+        }
+        yield {
+          type: 'done',
+          check: this.mergeChecks(checks)
+        };
+      }
+    }
+  }
+
+  /**
+   * Requests one sample of the complete consistency check
+   * Used by: Backend - checkConsistency and extra samples of checkConsistencyStream
+   * 
+   * @tags llm-call, sampling
+   */
+  private async requestCheck(
+    { ref, systemPrompt, prompt }: RenderedPrompt,
+    sample: number,
+    options?: CallOptions
+  ): Promise<ConsistencyCheck | undefined> {
     const response = await this.llmAdapter.generateJSON(
       prompt,
       ConsistencyCheckSchema,
-      systemPrompt
+      systemPrompt,
+      { ...options, label: 'consistency', prompt: ref, sample }
     );
 
-    if (!response.success || !response.data) {
-      // Return default check if LLM fails
-      return this.getDefaultCheck();
-    }
+    throwIfFatal(response);
 
     // Ensure weighted score is calculated correctly
-    return this.calculateWeightedScore(response.data);
+    return response.success && response.data
+      ? this.calculateWeightedScore(response.data)
+      : undefined;
+  }
+
+  /**
+   * Merges sampled checks into mean scores, merged issues and score spread
+   * Used by: Backend - Self-consistency scoring over multiple samples
+   * 
+   * @tags sampling, merge, score-stats
+   */
+  private mergeChecks(checks: ConsistencyCheck[]): ConsistencyCheck {
+    // Scores are never made up, so a check without any valid sample fails the step
+    if (checks.length === 0) throw new Error('Failed to check consistency: no valid response');
+    if (checks.length === 1) return checks[0];
+
+    const stats = {
+      continuity: computeScoreStats(checks.map(check => check.continuity.score)),
+      character: computeScoreStats(checks.map(check => check.character.score)),
+      world_rules: computeScoreStats(checks.map(check => check.world_rules.score)),
+      overall: computeScoreStats(checks.map(check => check.overall_score))
+    };
+
+    const merged = this.calculateWeightedScore({
+      continuity: {
+        score: Math.round(stats.continuity.mean),
+        issues: mergeIssues(checks.map(check => check.continuity.issues))
+      },
+      character: {
+        score: Math.round(stats.character.mean),
+        issues: mergeIssues(checks.map(check => check.character.issues))
+      },
+      world_rules: {
+        score: Math.round(stats.world_rules.mean),
+        issues: mergeIssues(checks.map(check => check.world_rules.issues))
+      },
+      overall_score: 0
+    });
+
+    return { ...merged, score_stats: stats };
+  }
+
+  /**
+   * Renders the system and user prompts for the complete consistency check
+   * Used by: Backend - checkConsistency and checkConsistencyStream
+   * 
+   * @tags prompt-builder, consistency-prompt
+   */
+  private renderConsistencyPrompt(
+    text: string,
+    settingNote: SettingNote,
+    options?: CallOptions
+  ): RenderedPrompt {
+    return this.prompts.render(
+      'consistency.check',
+      { text, setting_note: JSON.stringify(settingNote, null, 2) },
+      options?.locale
+    );
+  }
+
+  /**
+   * Picks the issues of a partial check that already pass validation
+   * Used by: Backend - Live issue reporting during streamed checks
+   * 
+   * @tags partial-results, issue-filter
+   */
+  private collectCompleteIssues(partial: DeepPartial<ConsistencyCheck>): Issue[] {
+    return [partial.continuity, partial.character, partial.world_rules]
+      .flatMap(category => category?.issues ?? [])
+      .map(issue => IssueSchema.safeParse(issue))
+      .flatMap(result => (result.success ? [result.data] : []));
   }
 
   /**
@@ -128,26 +242,29 @@ ${text}
    */
   async checkContinuity(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<{ score: number; issues: Issue[] }> {
-    const prompt = `텍스트의 개연성과 연속성을 검사하세요:
-${text}
-
-설정노트의 타임라인:
-${JSON.stringify(settingNote.timeline, null, 2)}
-
-사건의 인과관계, 시간순서, 논리적 흐름을 점검하고 문제점을 찾으세요.`;
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'consistency.continuity',
+      { text, timeline: JSON.stringify(settingNote.timeline, null, 2) },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.object({
-        score: z.number(),
-        issues: z.array(IssueSchema)
-      }),
-      '개연성 검사 전문가로서 작동합니다.'
+      CategoryCheckSchema,
+      systemPrompt,
+      { ...options, label: 'consistency:continuity', prompt: ref }
     );
 
-    return response.data || { score: 85, issues: [] };
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to check continuity: ${response.error}`);
+    }
+
+    return response.data;
   }
 
   /**
@@ -158,26 +275,29 @@ ${JSON.stringify(settingNote.timeline, null, 2)}
    */
   async checkCharacterConsistency(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<{ score: number; issues: Issue[] }> {
-    const prompt = `캐릭터의 일관성을 검사하세요:
-${text}
-
-캐릭터 설정:
-${JSON.stringify(settingNote.characters, null, 2)}
-
-각 캐릭터의 성격, 행동, 말투가 설정과 일치하는지 검증하세요.`;
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'consistency.character',
+      { text, characters: JSON.stringify(settingNote.characters, null, 2) },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.object({
-        score: z.number(),
-        issues: z.array(IssueSchema)
-      }),
-      '캐릭터 일관성 검사 전문가로서 작동합니다.'
+      CategoryCheckSchema,
+      systemPrompt,
+      { ...options, label: 'consistency:character', prompt: ref }
     );
 
-    return response.data || { score: 85, issues: [] };
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to check character consistency: ${response.error}`);
+    }
+
+    return response.data;
   }
 
   /**
@@ -188,26 +308,38 @@ ${JSON.stringify(settingNote.characters, null, 2)}
    */
   async checkWorldRules(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<{ score: number; issues: Issue[] }> {
-    const prompt = `세계관 규칙 준수를 검사하세요:
-${text}
-
-세계관 규칙:
-${JSON.stringify(settingNote.world_rules, null, 2)}
-
-설정된 규칙들이 텍스트에서 일관되게 적용되는지 검증하세요.`;
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'consistency.world_rules',
+      {
+        text,
+        world_rules: JSON.stringify(settingNote.world_rules, null, 2),
+        setting_entities: JSON.stringify({
+          locations: settingNote.locations ?? [],
+          factions: settingNote.factions ?? [],
+          items: settingNote.items ?? [],
+          power_systems: settingNote.power_systems ?? []
+        }, null, 2)
+      },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.object({
-        score: z.number(),
-        issues: z.array(IssueSchema)
-      }),
-      '세계관 일관성 검사 전문가로서 작동합니다.'
+      CategoryCheckSchema,
+      systemPrompt,
+      { ...options, label: 'consistency:world_rules', prompt: ref }
     );
 
-    return response.data || { score: 85, issues: [] };
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to check world rules: ${response.error}`);
+    }
+
+    return response.data;
   }
 
   /**
@@ -228,30 +360,6 @@ ${JSON.stringify(settingNote.world_rules, null, 2)}
     };
   }
 
-  /**
-   * Returns default check for fallback scenarios
-   * Used by: Backend - Fallback when LLM fails
-   * 
-   * @tags fallback, default-values
-   */
-  private getDefaultCheck(): ConsistencyCheck {
-    return {
-      continuity: {
-        score: 75,
-        issues: []
-      },
-      character: {
-        score: 75,
-        issues: []
-      },
-      world_rules: {
-        score: 75,
-        issues: []
-      },
-      overall_score: 75
-    };
-  }
-
   /**
    * Filters issues by severity
    * Used by: Backend - Issue prioritization
@@ -0,0 +1,137 @@
+/**
+ * Splits long serialized text into chapter-aligned windows for map-reduce analysis
+ * Used by: Backend - Chunked setting note generation for full-length novels
+ * 
+ * @tags chunking, chapters, map-reduce
+ */
+
+import { parseChapters, type Chapter } from '@page-atelier/data';
+
+// About two to three web-novel chapters per call, well inside every supported context window
+export const DEFAULT_WINDOW_CHARS = 12000;
+
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+export interface TextWindow {
+  index: number;
+  first_chapter: number;
+  last_chapter: number;
+  total_chapters: number;
+  text: string;
+}
+
+/**
+ * Groups consecutive chapters into windows of at most maxChars, splitting oversized chapters at paragraphs
+ * Used by: Backend - SettingBuilder chunked mode and /api/analyze
+ * 
+ * @tags chunking, windows
+ */
+export function splitIntoWindows(text: string, maxChars: number = DEFAULT_WINDOW_CHARS): TextWindow[] {
+  const chapters = parseChapters(text);
+  const windows: TextWindow[] = [];
+  let current: { chapters: Chapter[]; length: number } = { chapters: [], length: 0 };
+
+  const flush = () => {
+    if (current.chapters.length === 0) return;
+    windows.push({
+      index: windows.length,
+      first_chapter: current.chapters[0].number,
+      last_chapter: current.chapters[current.chapters.length - 1].number,
+      total_chapters: chapters.length,
+      text: current.chapters.map(formatChapter).join('\n\n')
+    });
+    current = { chapters: [], length: 0 };
+  };
+
+  for (const chapter of chapters) {
+    for (const part of splitChapter(chapter, maxChars)) {
+      const length = formatChapter(part).length;
+      if (current.length > 0 && current.length + length > maxChars) flush();
+      current.chapters.push(part);
+      current.length += length + 2;
+    }
+  }
+  flush();
+
+  return windows;
+}
+
+/**
+ * Returns the latest whole chapters that fit in maxChars, or the tail of the last chapter when it alone is longer
+ * Used by: Backend - /api/analyze review text for chunked analyses
+ * 
+ * @tags chunking, recent-chapters
+ */
+export function selectRecentChapters(text: string, maxChars: number = DEFAULT_WINDOW_CHARS): string {
+  const recent: string[] = [];
+  let length = 0;
+  for (const chapter of parseChapters(text).reverse()) {
+    const formatted = formatChapter(chapter);
+    if (length + formatted.length > maxChars) {
+      if (recent.length === 0) recent.push(formatted.slice(-maxChars));
+      break;
+    }
+    recent.unshift(formatted);
+    length += formatted.length + 2;
+  }
+  return recent.join('\n\n');
+}
+
+/**
+ * Maps items with at most `limit` calls in flight, keeping result order
+ * Used by: Backend - Chunked setting note extraction
+ * 
+ * @tags concurrency, pool
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  run: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  );
+  return results;
+}
+
+function formatChapter(chapter: Chapter): string {
+  return chapter.title ? `==${chapter.title}==\n${chapter.content}` : chapter.content;
+}
+
+/**
+ * Splits a chapter longer than maxChars into parts at paragraph breaks, keeping its number and title
+ * Used by: Backend - splitIntoWindows
+ * 
+ * @tags chunking, paragraphs
+ */
+function splitChapter(chapter: Chapter, maxChars: number): Chapter[] {
+  if (formatChapter(chapter).length <= maxChars) return [chapter];
+
+  const budget = maxChars - chapter.title.length - 5;
+  const parts: string[] = [];
+  let part = '';
+  for (const paragraph of chapter.content.split(/\n\s*\n/)) {
+    // A single paragraph over budget is cut hard rather than left oversized
+    for (let start = 0; start < paragraph.length; start += budget) {
+      const piece = paragraph.slice(start, start + budget);
+      if (part && part.length + piece.length + 2 > budget) {
+        parts.push(part);
+        part = '';
+      }
+      part = part ? `${part}\n\n${piece}` : piece;
+    }
+  }
+  if (part) parts.push(part);
+
+  return parts.map(content => ({ ...chapter, content }));
+}
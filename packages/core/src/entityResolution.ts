@@ -0,0 +1,114 @@
+/**
+ * Character entity resolution: finds entries that name the same person and merges them
+ * Used by: Backend - SettingBuilder after setting note generation
+ * 
+ * @tags entity-resolution, aliases, characters
+ */
+
+import { buildNameIndex, getGivenName, normalizeCharacterName } from './names';
+import { normalizeText } from './sampling';
+import { mergeCharacterGroup, renameCharacterReferences, unionText } from './settingMerge';
+import type { AliasCandidate, Character, SettingNote } from './types';
+
+/**
+ * Lists character pairs that may be the same person
+ * Entries with identical names are always merged and are not listed
+ * Used by: Backend - SettingBuilder.resolveCharacters
+ * 
+ * @tags candidates, matching
+ */
+export function findAliasCandidates(characters: Character[]): AliasCandidate[] {
+  const byName = new Map<string, { name: string; aliases: Set<string> }>();
+  for (const character of characters) {
+    const entry = byName.get(normalizeText(character.name)) ?? { name: character.name, aliases: new Set() };
+    (character.aliases ?? []).forEach(alias => entry.aliases.add(normalizeCharacterName(alias)));
+    byName.set(normalizeText(character.name), entry);
+  }
+  const entries = [...byName.values()].map(entry => {
+    const key = normalizeCharacterName(entry.name);
+    return { ...entry, key, given: getGivenName(key) };
+  });
+
+  // 길동 only resolves to 홍길동 when no other full name ends in 길동
+  const givenCounts = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.given) givenCounts.set(entry.given, (givenCounts.get(entry.given) ?? 0) + 1);
+  }
+
+  const candidates: AliasCandidate[] = [];
+  entries.forEach((a, i) => {
+    for (const b of entries.slice(i + 1)) {
+      const names: [string, string] = [a.name, b.name];
+      if (a.aliases.has(b.key) || b.aliases.has(a.key) || [...a.aliases].some(alias => b.aliases.has(alias))) {
+        candidates.push({ names, reason: 'alias' });
+      } else if (a.key === b.key) {
+        candidates.push({ names, reason: 'suffix' });
+      } else if (
+        (a.given === b.key && givenCounts.get(a.given) === 1) ||
+        (b.given === a.key && givenCounts.get(b.given) === 1)
+      ) {
+        candidates.push({ names, reason: 'given_name' });
+      }
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Merges the accepted candidates and entries with identical names, then rewrites
+ * relationship, timeline and entity references to canonical names
+ * Used by: Backend - SettingBuilder.resolveCharacters
+ * 
+ * @tags entity-resolution, reference-rewrite
+ */
+export function resolveEntities(settingNote: SettingNote, accepted: AliasCandidate[]): SettingNote {
+  const characters = settingNote.characters;
+  const parent = characters.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const union = (a: number, b: number) => {
+    const [rootA, rootB] = [find(a), find(b)];
+    // The earlier entry stays the root so merged characters keep first-appearance order
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+  const indicesOf = (name: string) =>
+    characters.flatMap((character, index) =>
+      normalizeText(character.name) === normalizeText(name) ? [index] : []
+    );
+
+  characters.forEach((character, index) => indicesOf(character.name).forEach(other => union(index, other)));
+  for (const candidate of accepted) {
+    for (const a of indicesOf(candidate.names[0])) {
+      indicesOf(candidate.names[1]).forEach(b => union(a, b));
+    }
+  }
+
+  const groups = new Map<number, Character[]>();
+  characters.forEach((character, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), character]);
+  });
+  const merged = [...groups.values()].map(mergeCharacterGroup);
+
+  const lookup = buildNameIndex(merged);
+  const canonicalName = (name: string) => lookup(name)?.name ?? name;
+
+  return renameCharacterReferences({
+    ...settingNote,
+    characters: merged.map(character => {
+      const relationships = new Map<string, Character['relationships'][number]>();
+      for (const relationship of character.relationships) {
+        const target = canonicalName(relationship.character);
+        // Two merged entries may have described each other
+        if (target === character.name) continue;
+        relationships.set(`${target}:${relationship.type}`, { ...relationship, character: target });
+      }
+      return { ...character, relationships: [...relationships.values()] };
+    }),
+    timeline: settingNote.timeline.map(event => ({
+      ...event,
+      involved_characters: unionText(event.involved_characters.map(canonicalName))
+    }))
+  }, canonicalName);
+}
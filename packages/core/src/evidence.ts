@@ -0,0 +1,278 @@
+/**
+ * Evidence anchoring: maps quoted evidence back to chapter, paragraph and offsets in the source text
+ * Used by: Backend - /api/analyze post-processing of consistency issues and world rules
+ * 
+ * @tags evidence, anchoring, fuzzy-match, hallucination
+ */
+
+import { parseHeading } from '@page-atelier/data';
+import { diceCoefficient } from './sampling';
+import type { ConsistencyCheck, EvidenceAnchor, Issue, SettingNote } from './types';
+
+// Quotes shorter than this, once normalized, only count when found verbatim
+const MIN_FUZZY_LENGTH = 6;
+
+// A quote matches a span of the text when their bigram overlap reaches this
+const FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Fuzzy search looks at paragraphs sharing at least one seed of this length with the quote
+const SEED_LENGTH = 4;
+const MAX_SEED_HITS = 200;
+const MAX_CANDIDATE_PARAGRAPHS = 5;
+
+// Same characters as normalizeText strips, so quotes and text normalize alike
+const IGNORED_CHARS = /[\s"'“”‘’.,!?…]/;
+
+// A character followed by the marks and Hangul vowel and final jamo that compose with it;
+// Intl.Segmenter finds the same boundaries but is far too slow on decomposed Hangul
+const COMPOSING_CLUSTER = /[^\p{M}\u1160-\u11FF\uD7B0-\uD7FF][\p{M}\u1160-\u11FF\uD7B0-\uD7FF]*|[\s\S]/gu;
+
+export type EvidenceLocator = (quote: string) => EvidenceAnchor;
+
+interface Paragraph {
+  chapter?: number;
+  paragraph: number;
+  start: number; // Offset into the normalized text
+  end: number;
+}
+
+/**
+ * Indexes a text once and returns a function locating quotes in it
+ * Whitespace and punctuation are ignored; quotes not found verbatim are matched fuzzily
+ * within the paragraphs they share the most wording with
+ * Used by: Backend - /api/analyze evidence anchoring
+ * 
+ * @tags evidence, index, fuzzy-match
+ */
+export function createEvidenceLocator(text: string): EvidenceLocator {
+  // Quotes are composed, so decomposed text (often pasted from macOS) is indexed composed as well
+  const composed = composeWithOffsets(text);
+  const { normalized, offsets } = normalizeWithOffsets(composed.text);
+  const paragraphs = indexParagraphs(composed.text, offsets);
+
+  const toAnchor = (quote: string, start: number, end: number, score: number): EvidenceAnchor => {
+    const paragraph = findParagraph(paragraphs, start);
+    // Offsets and the matched text refer to the text as given
+    const [from, to] = [composed.start(offsets[start]), composed.end(offsets[end - 1])];
+    return {
+      quote,
+      status: score === 1 ? 'exact' : 'fuzzy',
+      score: Math.round(score * 100) / 100,
+      ...(paragraph?.chapter !== undefined ? { chapter: paragraph.chapter } : {}),
+      ...(paragraph ? { paragraph: paragraph.paragraph } : {}),
+      start: from,
+      end: to,
+      matched_text: text.slice(from, to)
+    };
+  };
+
+  return quote => {
+    const key = normalizeWithOffsets(quote.normalize('NFC')).normalized;
+    if (!key) return { quote, status: 'not_found', score: 0 };
+
+    const exact = normalized.indexOf(key);
+    if (exact !== -1) return toAnchor(quote, exact, exact + key.length, 1);
+    if (key.length < MIN_FUZZY_LENGTH) return { quote, status: 'not_found', score: 0 };
+
+    let best = { start: 0, end: 0, score: 0 };
+    for (const paragraph of findCandidateParagraphs(normalized, paragraphs, key)) {
+      const match = bestWindow(normalized.slice(paragraph.start, paragraph.end), key);
+      if (match.score > best.score) {
+        best = { start: paragraph.start + match.start, end: paragraph.start + match.end, score: match.score };
+      }
+    }
+
+    return best.score >= FUZZY_MATCH_THRESHOLD
+      ? toAnchor(quote, best.start, best.end, Math.min(best.score, 0.99))
+      : { quote, status: 'not_found', score: Math.round(best.score * 100) / 100 };
+  };
+}
+
+/**
+ * Anchors every issue's evidence, fills its location from the first quote found,
+ * and flags issues whose quotes all failed to match
+ * Used by: Backend - /api/analyze after the consistency check
+ * 
+ * @tags evidence, issues, location
+ */
+export function anchorConsistencyCheck(check: ConsistencyCheck, locate: EvidenceLocator): ConsistencyCheck {
+  const anchorIssues = (issues: Issue[]) => issues.map(issue => anchorIssue(issue, locate));
+  return {
+    ...check,
+    continuity: { ...check.continuity, issues: anchorIssues(check.continuity.issues) },
+    character: { ...check.character, issues: anchorIssues(check.character.issues) },
+    world_rules: { ...check.world_rules, issues: anchorIssues(check.world_rules.issues) }
+  };
+}
+
+/**
+ * Anchors the evidence of world rules
+ * Only meaningful for notes built from the same text being anchored against
+ * Used by: Backend - /api/analyze after setting note generation
+ * 
+ * @tags evidence, world-rules
+ */
+export function anchorWorldRules(settingNote: SettingNote, locate: EvidenceLocator): SettingNote {
+  return {
+    ...settingNote,
+    world_rules: settingNote.world_rules.map(rule =>
+      rule.evidence ? { ...rule, evidence_anchor: locate(rule.evidence) } : rule
+    )
+  };
+}
+
+function anchorIssue(issue: Issue, locate: EvidenceLocator): Issue {
+  const anchors = issue.evidence.filter(quote => quote.trim()).map(locate);
+  const { possibly_hallucinated: _previous, ...rest } = issue;
+  const found = anchors.find(anchor => anchor.status !== 'not_found');
+
+  if (!found) {
+    return { ...rest, evidence_anchors: anchors, ...(anchors.length > 0 ? { possibly_hallucinated: true } : {}) };
+  }
+  return {
+    ...rest,
+    evidence_anchors: anchors,
+    location: {
+      ...issue.location,
+      chapter: found.chapter ?? issue.location?.chapter,
+      paragraph: found.paragraph,
+      line: found.matched_text,
+      start: found.start,
+      end: found.end
+    }
+  };
+}
+
+/**
+ * Converts a text to NFC while mapping each composed character back to the span it came from
+ * Text already in NFC, the usual case, maps onto itself without building an index
+ * Used by: Backend - createEvidenceLocator
+ * 
+ * @tags normalization, unicode, offsets
+ */
+function composeWithOffsets(text: string): {
+  text: string;
+  start: (index: number) => number;
+  end: (index: number) => number;
+} {
+  const composed = text.normalize('NFC');
+  if (composed === text) return { text, start: index => index, end: index => index + 1 };
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const parts: string[] = [];
+  for (const { 0: segment, index } of text.matchAll(COMPOSING_CLUSTER)) {
+    const part = segment.normalize('NFC');
+    parts.push(part);
+    for (let unit = 0; unit < part.length; unit++) {
+      starts.push(index);
+      ends.push(index + segment.length);
+    }
+  }
+  return { text: parts.join(''), start: index => starts[index], end: index => ends[index] };
+}
+
+/**
+ * Normalizes like normalizeText while recording each kept character's offset in the input
+ * Used by: Backend - Indexing texts and quotes
+ * 
+ * @tags normalization, offsets
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (IGNORED_CHARS.test(char)) continue;
+    const lower = char.toLowerCase();
+    chars.push(lower.length === 1 ? lower : char);
+    offsets.push(index);
+  }
+  return { normalized: chars.join(''), offsets };
+}
+
+/**
+ * Lists the non-empty, non-heading lines of a text as paragraphs in normalized coordinates
+ * Chapters are numbered like parseChapters; text without headings is chapter 1
+ * Used by: Backend - createEvidenceLocator
+ * 
+ * @tags paragraphs, chapters
+ */
+function indexParagraphs(text: string, offsets: number[]): Paragraph[] {
+  const lines = text.split('\n');
+  const hasHeadings = lines.some(line => parseHeading(line) !== undefined);
+  const paragraphs: Paragraph[] = [];
+  let chapter: number | undefined = hasHeadings ? undefined : 1;
+  let paragraph = 0;
+  let lineStart = 0;
+  let cursor = 0; // First normalized index at or after lineStart
+
+  for (const line of lines) {
+    const lineEnd = lineStart + line.length;
+    while (cursor < offsets.length && offsets[cursor] < lineStart) cursor++;
+    let end = cursor;
+    while (end < offsets.length && offsets[end] < lineEnd) end++;
+
+    if (parseHeading(line) !== undefined) {
+      chapter = (chapter ?? 0) + 1;
+      paragraph = 0;
+    } else if (end > cursor) {
+      paragraph++;
+      paragraphs.push({ ...(chapter !== undefined ? { chapter } : {}), paragraph, start: cursor, end });
+    }
+
+    cursor = end;
+    lineStart = lineEnd + 1;
+  }
+  return paragraphs;
+}
+
+function findParagraph(paragraphs: Paragraph[], index: number): Paragraph | undefined {
+  let [low, high] = [0, paragraphs.length - 1];
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (paragraphs[middle].end <= index) low = middle + 1;
+    else if (paragraphs[middle].start > index) high = middle - 1;
+    else return paragraphs[middle];
+  }
+  return undefined;
+}
+
+/**
+ * Returns the paragraphs sharing the most seed substrings with a quote
+ * Used by: Backend - Fuzzy matching in createEvidenceLocator
+ * 
+ * @tags fuzzy-match, candidates
+ */
+function findCandidateParagraphs(normalized: string, paragraphs: Paragraph[], key: string): Paragraph[] {
+  const hits = new Map<Paragraph, number>();
+  for (let seed = 0; seed + SEED_LENGTH <= key.length; seed += SEED_LENGTH) {
+    const part = key.slice(seed, seed + SEED_LENGTH);
+    let index = normalized.indexOf(part);
+    for (let found = 0; index !== -1 && found < MAX_SEED_HITS; found++) {
+      const paragraph = findParagraph(paragraphs, index);
+      if (paragraph) hits.set(paragraph, (hits.get(paragraph) ?? 0) + 1);
+      index = normalized.indexOf(part, index + 1);
+    }
+  }
+  return [...hits.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATE_PARAGRAPHS)
+    .map(([paragraph]) => paragraph);
+}
+
+/**
+ * Slides a quote-sized window over a paragraph and returns the most similar span
+ * Used by: Backend - Fuzzy matching in createEvidenceLocator
+ * 
+ * @tags fuzzy-match, sliding-window
+ */
+function bestWindow(paragraph: string, key: string): { start: number; end: number; score: number } {
+  const size = Math.min(key.length, paragraph.length);
+  let best = { start: 0, end: size, score: diceCoefficient(paragraph.slice(0, size), key) };
+  for (let start = 1; start + size <= paragraph.length; start++) {
+    const score = diceCoefficient(paragraph.slice(start, start + size), key);
+    if (score > best.score) best = { start, end: start + size, score };
+  }
+  return best;
+}
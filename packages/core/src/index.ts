@@ -6,8 +6,26 @@
  */
 
 export * from './types';
-export { SettingBuilder } from './settingBuilder';
+export { SettingBuilder, SettingNoteSchema } from './settingBuilder';
+export { splitIntoWindows, selectRecentChapters, DEFAULT_WINDOW_CHARS, type TextWindow } from './chunking';
+export { mergeSettingNotes, applySettingNoteDelta } from './settingMerge';
+export { lintSettingNote } from './settingLint';
+export { exportSettingNote, SETTING_NOTE_EXPORT_FORMATS } from './settingExport';
+export { importSettingNote, SettingNoteImportError } from './settingImport';
+export { buildBibleVault, zipBibleVault } from './bibleVault';
+export { BibleLockSchema, applyLocks, createBibleVersion, type BibleChange } from './bible';
+export { MemoryBibleStore, FileBibleStore, BibleVersionConflictError, type BibleStore } from './bibleStore';
+export { orderTimeline, parseTimestamp, parseNumeral, type OrderedTimeline } from './timeline';
+export {
+  createEvidenceLocator,
+  anchorConsistencyCheck,
+  anchorWorldRules,
+  type EvidenceLocator
+} from './evidence';
+export { findAliasCandidates, resolveEntities } from './entityResolution';
+export { normalizeCharacterName, buildNameIndex } from './names';
 export { ConsistencyChecker } from './checker';
 export { PersonaEvaluator } from './personas';
 export { AggregateReportGenerator } from './aggregate';
+export { summarizeUsage, countLLMCalls, collectPrompts } from './usage';
 export * from './prompts';
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Korean character name normalization and alias-aware lookup
+ * Used by: Backend - Entity resolution, setting note merging and incremental updates
+ * 
+ * @tags names, korean, normalization, aliases
+ */
+
+import type { Character } from './types';
+
+// Suffixes attached to names in narration and dialogue, not part of the name itself
+const HONORIFIC_SUFFIXES = ['도령', '낭자', '님', '씨'];
+
+const COMPOUND_SURNAMES = ['남궁', '제갈', '황보', '선우', '독고', '사공', '서문', '동방'];
+
+const SURNAMES = new Set(
+  '김이박최정강조윤장임한오서신권황안송류유전홍고문양손배백허남심노하곽성차주우구민진나지엄채원천방공현함변염여추도소석선설마길연위표명기반왕금옥육인맹제모탁국어은편용예경봉사부'.split('')
+);
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+/**
+ * Reduces a name to a comparison key: no spacing or punctuation, honorifics and the
+ * name-final 이/아/야 of narration and vocatives stripped
+ * Used by: Backend - Character matching
+ * 
+ * @tags normalization, korean-suffix
+ */
+export function normalizeCharacterName(name: string): string {
+  let key = name.normalize('NFC').replace(/[\s"'“”‘’.,!?·()]/g, '').toLowerCase();
+
+  for (const suffix of HONORIFIC_SUFFIXES) {
+    if (key.length - suffix.length >= 2 && key.endsWith(suffix)) {
+      key = key.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  // 길동이, 길동아, 춘향아 but not two-syllable names such as 순이
+  if (key.length >= 3) {
+    const last = key[key.length - 1];
+    const previous = key[key.length - 2];
+    if ((last === '이' || last === '아') && hasFinalConsonant(previous)) {
+      key = key.slice(0, -1);
+    } else if (last === '야' && isHangulSyllable(previous) && !hasFinalConsonant(previous)) {
+      key = key.slice(0, -1);
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Returns the given name of a normalized full Korean name, or undefined when there is no surname
+ * Used by: Backend - Matching 길동 to 홍길동
+ * 
+ * @tags korean-name, surname
+ */
+export function getGivenName(key: string): string | undefined {
+  const compound = COMPOUND_SURNAMES.find(surname => key.startsWith(surname));
+  if (compound && key.length === compound.length + 2) return key.slice(compound.length);
+  if (key.length === 3 && SURNAMES.has(key[0]) && [...key].every(isHangulSyllable)) return key.slice(1);
+  return undefined;
+}
+
+/**
+ * Builds a lookup from any name, alias or unambiguous given name to its character
+ * Used by: Backend - Reference rewriting and incremental updates
+ * 
+ * @tags lookup, aliases
+ */
+export function buildNameIndex(characters: Character[]): (name: string) => Character | undefined {
+  const index = new Map<string, Character>();
+  const givenNames = new Map<string, Character[]>();
+
+  for (const character of characters) {
+    for (const name of [character.name, ...(character.aliases ?? [])]) {
+      const key = normalizeCharacterName(name);
+      if (key && !index.has(key)) index.set(key, character);
+    }
+    const given = getGivenName(normalizeCharacterName(character.name));
+    if (given) givenNames.set(given, [...(givenNames.get(given) ?? []), character]);
+  }
+
+  // A given name shared by two full names stays unresolved
+  for (const [given, owners] of givenNames) {
+    if (owners.length === 1 && !index.has(given)) index.set(given, owners[0]);
+  }
+
+  return name => index.get(normalizeCharacterName(name));
+}
+
+function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END;
+}
+
+function hasFinalConsonant(char: string): boolean {
+  return isHangulSyllable(char) && (char.charCodeAt(0) - HANGUL_START) % 28 !== 0;
+}
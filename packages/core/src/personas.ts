@@ -6,8 +6,10 @@
  */
 
 import { z } from 'zod';
-import type { PersonaResult, SettingNote } from './types';
-import type { LLMAdapter } from '@page-atelier/llm';
+import type { CallOptions, PersonaEvaluations, PersonaResult, SettingNote } from './types';
+import { isAbortError, isLLMError, throwIfFatal, type LLMAdapter } from '@page-atelier/llm';
+import { computeScoreStats, getSampleCount, runSamples } from './sampling';
+import { defaultPromptRegistry, type PromptRegistry } from './prompts';
 
 // Zod schema for validation
 const PersonaMetricsSchema = z.object({
@@ -26,7 +28,7 @@ const PersonaResultSchema = z.object({
   suggestions: z.array(z.string()),
   overall_reaction: z.enum(['very_positive', 'positive', 'neutral', 'negative', 'very_negative']),
   sample_comment: z.string().optional()
-});
+}).describe('PersonaResult');
 
 /**
  * Evaluates story from different reader personas' perspectives
@@ -38,38 +40,52 @@ export class PersonaEvaluator {
   private personas = {
     setting_obsessed: {
       name: '설정 과몰입형 독자',
-      description: '세계관 설정과 파워 시스템의 논리성을 중시하는 독자. 설정 구멍에 민감하고 체계적인 세계관을 선호함.',
-      focus: ['세계관 규칙', '파워 시스템', '설정 일관성', '논리적 개연성']
+      description: '세계관 설정과 파워 시스템의 논리성을 중시하는 독자. 설정 구멍에 민감하고 체계적인 세계관을 선호함.'
     },
     romance_sub_focused: {
       name: '로판 서브주총러',
-      description: '로맨스와 감정선, 캐릭터 관계를 중시하는 독자. 주인공과 서브 캐릭터의 감정 묘사와 관계 발전을 중요시함.',
-      focus: ['감정 묘사', '관계 발전', '캐릭터 매력', '로맨스 전개']
+      description: '로맨스와 감정선, 캐릭터 관계를 중시하는 독자. 주인공과 서브 캐릭터의 감정 묘사와 관계 발전을 중요시함.'
     },
     traditional_martial_arts_fan: {
       name: '정통무협팬',
-      description: '전통적인 무협 요소와 협객 정신을 중시하는 독자. 무공 수련, 강호 세계, 의리와 복수극을 선호함.',
-      focus: ['무공 체계', '협객 정신', '강호 설정', '전통 무협 요소']
+      description: '전통적인 무협 요소와 협객 정신을 중시하는 독자. 무공 수련, 강호 세계, 의리와 복수극을 선호함.'
     }
   };
 
-  constructor(private llmAdapter: LLMAdapter) {}
+  constructor(
+    private llmAdapter: LLMAdapter,
+    private prompts: PromptRegistry = defaultPromptRegistry
+  ) {}
 
   /**
    * Evaluates story from all persona perspectives
+   * One persona failing keeps the others; cancellation and fatal provider errors still end the step
    * Used by: Backend - Main analysis flow for comprehensive reader feedback
    * 
-   * @tags all-personas, comprehensive-evaluation
+   * @tags all-personas, comprehensive-evaluation, partial-results
    */
   async evaluateAllPersonas(
     text: string,
-    settingNote: SettingNote
-  ): Promise<PersonaResult[]> {
-    const evaluations = await Promise.all([
-      this.evaluateAsSettingObsessed(text, settingNote),
-      this.evaluateAsRomanceSubFocused(text, settingNote),
-      this.evaluateAsTraditionalMartialArtsFan(text, settingNote)
-    ]);
+    settingNote: SettingNote,
+    options?: CallOptions
+  ): Promise<PersonaEvaluations> {
+    const personaTypes = Object.keys(this.personas) as PersonaResult['persona_type'][];
+    const settled = await Promise.allSettled(
+      personaTypes.map(personaType => this.sampleEvaluation(personaType, text, settingNote, options))
+    );
+
+    const evaluations: PersonaEvaluations = { results: [], failures: [] };
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        evaluations.results.push(outcome.value);
+        return;
+      }
+      if (isAbortError(outcome.reason) || isLLMError(outcome.reason)) throw outcome.reason;
+      evaluations.failures.push({
+        persona_type: personaTypes[index],
+        error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+      });
+    });
 
     return evaluations;
   }
@@ -82,30 +98,10 @@ export class PersonaEvaluator {
    */
   async evaluateAsSettingObsessed(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<PersonaResult> {
-    const persona = this.personas.setting_obsessed;
-    const systemPrompt = `당신은 ${persona.name}입니다. ${persona.description}
-작품을 읽고 설정의 논리성과 일관성 관점에서 평가합니다.`;
-
-    const prompt = this.buildEvaluationPrompt(
-      text,
-      settingNote,
-      persona.focus,
-      `특히 다음을 중점적으로 평가하세요:
-- 세계관 설정이 논리적이고 체계적인가?
-- 파워 시스템이 일관되고 균형잡혀 있는가?
-- 설정 구멍이나 모순은 없는가?
-- 설정이 스토리와 유기적으로 연결되는가?`
-    );
-
-    const response = await this.llmAdapter.generateJSON(
-      prompt,
-      PersonaResultSchema,
-      systemPrompt
-    );
-
-    return response.data || this.getDefaultPersonaResult('setting_obsessed');
+    return this.sampleEvaluation('setting_obsessed', text, settingNote, options);
   }
 
   /**
@@ -116,30 +112,10 @@ export class PersonaEvaluator {
    */
   async evaluateAsRomanceSubFocused(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<PersonaResult> {
-    const persona = this.personas.romance_sub_focused;
-    const systemPrompt = `당신은 ${persona.name}입니다. ${persona.description}
-작품의 감정선과 캐릭터 관계를 중심으로 평가합니다.`;
-
-    const prompt = this.buildEvaluationPrompt(
-      text,
-      settingNote,
-      persona.focus,
-      `특히 다음을 중점적으로 평가하세요:
-- 캐릭터들의 감정이 세밀하게 묘사되는가?
-- 관계 발전이 자연스럽고 설득력 있는가?
-- 주인공과 서브 캐릭터가 매력적인가?
-- 로맨스나 감정선이 흥미진진한가?`
-    );
-
-    const response = await this.llmAdapter.generateJSON(
-      prompt,
-      PersonaResultSchema,
-      systemPrompt
-    );
-
-    return response.data || this.getDefaultPersonaResult('romance_sub_focused');
+    return this.sampleEvaluation('romance_sub_focused', text, settingNote, options);
   }
 
   /**
@@ -150,94 +126,107 @@ export class PersonaEvaluator {
    */
   async evaluateAsTraditionalMartialArtsFan(
     text: string,
-    settingNote: SettingNote
+    settingNote: SettingNote,
+    options?: CallOptions
   ): Promise<PersonaResult> {
-    const persona = this.personas.traditional_martial_arts_fan;
-    const systemPrompt = `당신은 ${persona.name}입니다. ${persona.description}
-전통 무협의 관점에서 작품을 평가합니다.`;
-
-    const prompt = this.buildEvaluationPrompt(
-      text,
-      settingNote,
-      persona.focus,
-      `특히 다음을 중점적으로 평가하세요:
-- 무공 체계가 전통적이고 체계적인가?
-- 협객 정신과 의리가 잘 표현되는가?
-- 강호 세계관이 생생하게 그려지는가?
-- 전통 무협의 정취가 느껴지는가?`
-    );
-
-    const response = await this.llmAdapter.generateJSON(
-      prompt,
-      PersonaResultSchema,
-      systemPrompt
-    );
-
-    return response.data || this.getDefaultPersonaResult('traditional_martial_arts_fan');
+    return this.sampleEvaluation('traditional_martial_arts_fan', text, settingNote, options);
   }
 
   /**
-   * Builds evaluation prompt for persona
-   * Used by: Backend - Prompt generation for persona evaluation
+   * Renders the persona's prompt, runs it for each requested sample and merges the results
+   * Used by: Backend - All persona evaluations
    * 
-   * @tags prompt-builder, evaluation-prompt
+   * @tags llm-call, sampling
    */
-  private buildEvaluationPrompt(
+  private async sampleEvaluation(
+    personaType: PersonaResult['persona_type'],
     text: string,
     settingNote: SettingNote,
-    focusAreas: string[],
-    specificInstructions: string
-  ): string {
-    return `다음 웹소설을 평가하세요:
-
-텍스트:
-${text.substring(0, 4000)}
+    options?: CallOptions
+  ): Promise<PersonaResult> {
+    const persona = this.personas[personaType];
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      `persona.${personaType}`,
+      {
+        persona_name: persona.name,
+        persona_description: persona.description,
+        text: text.substring(0, 4000),
+        setting_note: JSON.stringify(this.summarizeSettingNote(settingNote)).substring(0, 2000)
+      },
+      options?.locale
+    );
 
-설정노트:
-${JSON.stringify(settingNote, null, 2).substring(0, 2000)}
+    const results = await runSamples(getSampleCount(options?.samples), async sample => {
+      const response = await this.llmAdapter.generateJSON(
+        prompt,
+        PersonaResultSchema,
+        systemPrompt,
+        { ...options, label: `persona:${personaType}`, prompt: ref, sample }
+      );
 
-평가 초점:
-${focusAreas.join(', ')}
+      throwIfFatal(response);
 
-${specificInstructions}
+      return response.data;
+    });
 
-평가 결과:
-1. 메트릭 (각 0-100점)
-   - satisfaction: 전반적 만족도
-   - engagement: 몰입도
-   - frustration: 불만족도/짜증도
+    // Reactions are never made up, so an evaluation without any valid sample fails the step
+    if (results.length === 0) throw new Error(`Failed to evaluate persona ${personaType}: no valid response`);
+    return this.mergeResults(results);
+  }
 
-2. likes: 마음에 든 점 3-5개
-3. dislikes: 마음에 안 든 점 3-5개
-4. suggestions: 개선 제안 3-5개
-5. overall_reaction: 전반적 반응 (very_positive/positive/neutral/negative/very_negative)
-6. sample_comment: 이 독자가 남길만한 댓글 예시 (선택사항)`;
+  /**
+   * Condenses the setting note to what a reader keeps in mind, so every section fits the prompt budget
+   * Used by: Backend - Persona prompts
+   * 
+   * @tags setting-note, prompt-budget
+   */
+  private summarizeSettingNote(settingNote: SettingNote) {
+    return {
+      title: settingNote.title,
+      genre: settingNote.genre,
+      summary: settingNote.summary,
+      characters: settingNote.characters.map(({ name, role, traits }) => ({ name, role, traits })),
+      world_rules: settingNote.world_rules.map(rule => rule.rule),
+      power_systems: (settingNote.power_systems ?? []).map(({ name, ranks }) => ({ name, ranks })),
+      factions: (settingNote.factions ?? []).map(({ name, description, leader }) => ({ name, description, leader })),
+      locations: (settingNote.locations ?? []).map(location => location.name),
+      items: (settingNote.items ?? []).map(item => ({
+        name: item.name,
+        holder: item.holders[item.holders.length - 1]?.character
+      }))
+    };
   }
 
   /**
-   * Returns default persona result for fallback
-   * Used by: Backend - Fallback when LLM fails
+   * Merges sampled evaluations into mean metrics and metric spread
+   * Used by: Backend - Self-consistency scoring over multiple samples
    * 
-   * @tags fallback, default-persona
+   * @tags sampling, merge, score-stats
    */
-  private getDefaultPersonaResult(
-    personaType: 'setting_obsessed' | 'romance_sub_focused' | 'traditional_martial_arts_fan'
-  ): PersonaResult {
-    const persona = this.personas[personaType];
+  private mergeResults(results: PersonaResult[]): PersonaResult {
+    if (results.length === 1) return results[0];
+
+    const stats = {
+      satisfaction: computeScoreStats(results.map(result => result.metrics.satisfaction)),
+      engagement: computeScoreStats(results.map(result => result.metrics.engagement)),
+      frustration: computeScoreStats(results.map(result => result.metrics.frustration))
+    };
+
+    // Feedback text comes from the sample closest to the mean so it matches the merged metrics
+    const distance = (result: PersonaResult) =>
+      Math.abs(result.metrics.satisfaction - stats.satisfaction.mean);
+    const representative = results.reduce((closest, result) =>
+      distance(result) < distance(closest) ? result : closest
+    );
+
     return {
-      persona_type: personaType,
-      persona_name: persona.name,
-      persona_description: persona.description,
+      ...representative,
       metrics: {
-        satisfaction: 70,
-        engagement: 70,
-        frustration: 30
+        satisfaction: Math.round(stats.satisfaction.mean),
+        engagement: Math.round(stats.engagement.mean),
+        frustration: Math.round(stats.frustration.mean)
       },
-      likes: ['기본적인 스토리 구성', '읽기 편한 문체'],
-      dislikes: ['깊이 있는 분석 필요'],
-      suggestions: ['더 자세한 묘사 추가', '캐릭터 개발 필요'],
-      overall_reaction: 'neutral',
-      sample_comment: '더 읽어봐야 알 것 같습니다.'
+      metrics_stats: stats
     };
   }
 
@@ -0,0 +1,133 @@
+/**
+ * Versioned prompt registry with per-locale variants and config overrides
+ * Used by: Backend - SettingBuilder, ConsistencyChecker and PersonaEvaluator prompt rendering
+ * 
+ * @tags prompts, registry, versioning, i18n
+ */
+
+import { z } from 'zod';
+import type { PromptRef } from '@page-atelier/llm';
+import { BUILTIN_PROMPTS } from './templates';
+
+export const DEFAULT_PROMPT_LOCALE = 'ko';
+
+export const PromptTemplateSchema = z.object({
+  id: z.string().min(1),
+  version: z.string().min(1),
+  locale: z.string().min(1).default(DEFAULT_PROMPT_LOCALE),
+  system: z.string(),
+  user: z.string()
+});
+
+export type PromptTemplate = z.output<typeof PromptTemplateSchema>;
+
+// Overrides may omit the locale to replace the default-locale variant
+export type PromptOverride = z.input<typeof PromptTemplateSchema>;
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  ref: PromptRef;
+  systemPrompt: string;
+  prompt: string;
+}
+
+export interface PromptRegistryOptions {
+  defaultLocale?: string; // Used when a call does not ask for a locale or its variant is missing
+  overrides?: PromptOverride[]; // Replace built-in templates with the same ID and locale
+}
+
+/**
+ * Resolves prompt templates by ID and locale and renders them with variables
+ * Used by: Backend - Core analysis modules and /api/analyze configuration
+ * 
+ * @tags prompt-registry, templates, overrides
+ */
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+  private defaultLocale: string;
+
+  constructor(options: PromptRegistryOptions = {}) {
+    this.defaultLocale = options.defaultLocale ?? DEFAULT_PROMPT_LOCALE;
+    BUILTIN_PROMPTS.forEach(template => this.register(template));
+    options.overrides?.forEach(template => this.register(template));
+  }
+
+  /**
+   * Adds a template, replacing any registered template with the same ID and locale
+   * Used by: Backend - Built-in templates and config overrides
+   * 
+   * @tags register, override
+   */
+  register(template: PromptOverride): void {
+    const result = PromptTemplateSchema.safeParse(template);
+    if (!result.success) {
+      throw new Error(`Invalid prompt template ${template.id ?? '(no id)'}: ${result.error.message}`);
+    }
+    this.templates.set(this.getKey(result.data.id, result.data.locale), result.data);
+  }
+
+  /**
+   * Returns the template for a locale, falling back to the default locale
+   * Used by: Backend - Prompt rendering
+   * 
+   * @tags lookup, locale-fallback
+   */
+  get(id: string, locale?: string): PromptTemplate {
+    const template =
+      (locale ? this.templates.get(this.getKey(id, locale)) : undefined) ??
+      this.templates.get(this.getKey(id, this.defaultLocale));
+    if (!template) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    return template;
+  }
+
+  /**
+   * Renders the system and user prompts of a template with the given variables
+   * Used by: Backend - Every LLM call of the core analysis modules
+   * 
+   * @tags render, interpolation
+   */
+  render(id: string, variables: PromptVariables = {}, locale?: string): RenderedPrompt {
+    const template = this.get(id, locale);
+    return {
+      ref: { id: template.id, version: template.version, locale: template.locale },
+      systemPrompt: interpolate(template.system, variables, template),
+      prompt: interpolate(template.user, variables, template)
+    };
+  }
+
+  /**
+   * Lists the ID, version and locale of every registered template
+   * Used by: Backend - Prompt inventory and override review
+   * 
+   * @tags list, versions
+   */
+  list(): PromptRef[] {
+    return [...this.templates.values()].map(({ id, version, locale }) => ({ id, version, locale }));
+  }
+
+  private getKey(id: string, locale: string): string {
+    return `${id}:${locale}`;
+  }
+}
+
+/**
+ * Replaces {{name}} placeholders in one pass, so values containing braces stay untouched
+ * Used by: Backend - PromptRegistry rendering
+ * 
+ * @tags interpolation, template
+ */
+function interpolate(text: string, variables: PromptVariables, template: PromptTemplate): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing variable "${name}" for prompt ${template.id}@${template.version}`);
+    }
+    return String(variables[name]);
+  });
+}
+
+export const defaultPromptRegistry = new PromptRegistry();
+
+export default PromptRegistry;
\ No newline at end of file
@@ -0,0 +1,579 @@
+/**
+ * Built-in prompt templates for the analysis pipeline
+ * Used by: Backend - PromptRegistry defaults
+ * 
+ * @tags prompts, templates, llm-prompts
+ */
+
+import type { PromptOverride } from './registry';
+
+/**
+ * Builds the shared persona evaluation request around persona-specific focus areas
+ * Used by: Backend - Persona templates
+ * 
+ * @tags prompt-builder, persona
+ */
+function koreanPersonaPrompt(focusAreas: string, instructions: string): string {
+  return `다음 웹소설을 평가하세요:
+
+텍스트:
+{{text}}
+
+설정노트:
+{{setting_note}}
+
+평가 초점:
+${focusAreas}
+
+${instructions}
+
+평가 결과:
+1. 메트릭 (각 0-100점)
+   - satisfaction: 전반적 만족도
+   - engagement: 몰입도
+   - frustration: 불만족도/짜증도
+
+2. likes: 마음에 든 점 3-5개
+3. dislikes: 마음에 안 든 점 3-5개
+4. suggestions: 개선 제안 3-5개
+5. overall_reaction: 전반적 반응 (very_positive/positive/neutral/negative/very_negative)
+6. sample_comment: 이 독자가 남길만한 댓글 예시 (선택사항)`;
+}
+
+function englishPersonaPrompt(focusAreas: string, instructions: string): string {
+  return `Evaluate the following web novel:
+
+Text:
+{{text}}
+
+Setting note:
+{{setting_note}}
+
+Evaluation focus:
+${focusAreas}
+
+${instructions}
+
+Evaluation result:
+1. Metrics (0-100 each)
+   - satisfaction: overall satisfaction
+   - engagement: immersion
+   - frustration: dissatisfaction/annoyance
+
+2. likes: 3-5 things you liked
+3. dislikes: 3-5 things you disliked
+4. suggestions: 3-5 suggestions for improvement
+5. overall_reaction: overall reaction (very_positive/positive/neutral/negative/very_negative)
+6. sample_comment: an example comment this reader would leave (optional)`;
+}
+
+const KOREAN_PROMPTS: PromptOverride[] = [
+  {
+    id: 'setting_note.generate',
+    version: '1.3.0',
+    system: `당신은 웹소설 전문 편집자입니다. 주어진 텍스트를 분석하여 작품의 설정노트를 추출합니다.
+설정노트는 캐릭터, 세계관 규칙, 타임라인 등 작품의 핵심 설정을 체계적으로 정리한 문서입니다.`,
+    user: `다음 웹소설 텍스트를 분석하여 설정노트를 생성하세요:
+
+텍스트:
+{{text}}
+
+요구사항:
+1. 캐릭터 분석:
+   - 이름과 역할 (주인공/적대자/조연/단역)
+   - 같은 인물을 가리키는 다른 이름, 호칭, 별명 (aliases)
+   - 성격 특징 3-5개
+   - 목표와 동기
+   - 다른 캐릭터와의 관계
+   - 말투 특징 (있다면)
+   - 절대 하지 않는 행동 (있다면)
+
+2. 세계관 규칙:
+   - 마법/무공 체계
+   - 사회 구조와 계급
+   - 기술 수준
+   - 문화적 특징
+   - 물리 법칙의 특이점
+
+3. 타임라인:
+   - 주요 사건들을 시간순으로 정리
+   - timestamp에는 사건이 나온 장과 본문에 드러난 작중 시점(연호, 연월일, "3년 후" 같은 경과)을 함께 쓰기
+   - 본문이 어떤 사건보다 뒤의 일이라고 밝힌 경우 그 사건들을 after에 적기
+   - 각 사건에 연관된 캐릭터
+
+4. 장소 (locations):
+   - 이름, 종류, 설명, 속한 상위 장소 (part_of)
+   - 다른 장소로 가는 경로나 거리 (connections)
+
+5. 세력·조직 (factions):
+   - 문파, 도적단, 관청, 가문 등의 이름, 종류, 설명
+   - 우두머리, 낮은 것부터 높은 것 순의 직위 (ranks), 구성원과 직위, 근거지, 상위 세력
+
+6. 물건·보물 (items):
+   - 무기, 보물, 문서 등 이야기에 중요한 물건의 이름, 종류, 설명, 능력
+   - 소유자를 가진 순서대로 (holders), 넘겨받은 시점은 since에
+
+7. 힘의 체계 (power_systems):
+   - 도술, 무공, 마법 등의 이름과 설명
+   - 낮은 것부터 높은 것 순의 경지·등급 (ranks)과 규칙
+   - 이 체계를 쓰는 캐릭터와 현재 경지 (practitioners)
+
+본문에 없는 장소, 세력, 물건, 힘의 체계는 빈 배열로 두세요.
+
+8. 작품 요약:
+   - 200자 이내로 전체 줄거리 요약
+
+JSON 형식으로 응답하세요.`
+  },
+  {
+    id: 'setting_note.characters',
+    version: '1.0.0',
+    system: '캐릭터 분석 전문가로서 작동합니다.',
+    user: `텍스트에서 등장인물들을 추출하고 각 인물의 프로필을 작성하세요:
+{{text}}
+
+각 캐릭터별로 이름, 역할, 성격, 목표, 관계를 상세히 분석하세요.`
+  },
+  {
+    id: 'setting_note.world_rules',
+    version: '1.0.0',
+    system: '세계관 설정 분석가로서 작동합니다.',
+    user: `텍스트에서 세계관 규칙과 설정을 추출하세요:
+{{text}}
+
+마법체계, 사회구조, 기술수준, 문화적 특징 등을 찾아 정리하세요.`
+  },
+  {
+    id: 'setting_note.timeline',
+    version: '1.0.0',
+    system: '스토리 타임라인 분석가로서 작동합니다.',
+    user: `텍스트에서 주요 사건들을 시간순으로 추출하세요:
+{{text}}
+
+각 사건의 시점, 내용, 관련 인물, 중요도를 파악하세요.`
+  },
+  {
+    id: 'setting_note.partial',
+    version: '1.3.0',
+    system: `당신은 웹소설 전문 편집자입니다. 장편 연재작의 일부 구간을 읽고 그 구간에 드러난 설정만 추출합니다.
+추출 결과는 다른 구간의 결과와 병합되어 작품 전체의 설정노트가 됩니다.`,
+    user: `다음은 전체 {{total_chapters}}개 장 중 {{first_chapter}}~{{last_chapter}}번째 장입니다. 이 구간의 설정노트를 생성하세요:
+
+텍스트:
+{{text}}
+
+요구사항:
+1. 이 구간에 등장하거나 언급된 캐릭터만 포함하고, 이름은 가장 온전한 본문 표기로 쓰고 다른 호칭은 aliases에 모으세요
+2. 이 구간에서 드러나는 세계관 규칙만 포함하세요
+3. 타임라인 사건의 timestamp에는 사건이 나온 장 번호를 "N장" 형식으로 쓰고, 본문에 작중 시점(연호, 연월일, "3년 후" 같은 경과)이 있으면 덧붙이세요. 본문이 어떤 사건보다 뒤의 일이라고 밝히면 그 사건을 after에 적으세요
+4. 이 구간에 나온 장소, 세력·조직, 물건·보물, 힘의 체계(경지·등급)를 locations, factions, items, power_systems에 정리하세요. 물건의 소유자는 가진 순서대로 쓰세요
+5. 요약은 이 구간의 줄거리를 200자 이내로 쓰세요
+6. 구간에 없는 내용은 추측하지 마세요
+
+JSON 형식으로 응답하세요.`
+  },
+  {
+    id: 'setting_note.update',
+    version: '1.2.0',
+    system: `당신은 연재 웹소설의 설정노트를 관리하는 편집자입니다. 새로 공개된 회차를 읽고 기존 설정노트에 추가할 내용만 제안합니다.
+기존 설정노트의 내용은 확정된 설정이므로 다시 쓰거나 바꾸지 않습니다.`,
+    user: `기존 설정노트:
+{{setting_note}}
+
+새 회차 ({{chapter}}장):
+{{text}}
+
+새 회차에서 처음 드러난 내용만 제안하세요:
+1. new_characters: 처음 등장한 캐릭터 (기존 캐릭터는 넣지 마세요)
+2. character_updates: 기존 캐릭터의 변화, 이름은 설정노트 표기 그대로
+   - added_traits / added_goals: 새로 드러난 성격과 목표
+   - removed_traits / removed_goals: 이 회차에서 명백히 사라지거나 달성·포기된 것만, 기존 표기 그대로
+   - new_relationships: 새로 생긴 관계
+3. new_world_rules: 새로 드러난 세계관 규칙
+4. new_timeline_events: 이 회차의 주요 사건, timestamp는 "{{chapter}}장"에 본문의 작중 시점을 덧붙이고, 앞선 사건은 설정노트 표기 그대로 after에
+5. locations / factions / items / power_systems: 처음 나온 장소, 세력, 물건, 힘의 체계와 기존 항목의 새 내용, 이름은 설정노트 표기 그대로
+   - 물건이 다른 인물에게 넘어갔으면 그 물건의 holders에 새 소유자와 since "{{chapter}}장"을 쓰세요
+   - 세력의 새 구성원이나 직위 변화, 인물의 경지 변화도 여기에 쓰세요
+6. summary: 새 회차까지 반영한 작품 전체 요약 (200자 이내)
+
+변화가 없는 항목은 빈 배열로 두세요. JSON 형식으로 응답하세요.`
+  },
+  {
+    id: 'setting_note.summary',
+    version: '1.0.0',
+    system: '당신은 웹소설 전문 편집자입니다. 구간별 줄거리 요약을 하나의 작품 요약으로 정리합니다.',
+    user: `다음은 작품 「{{title}}」의 구간별 줄거리 요약입니다. 순서대로 읽고 작품 전체의 줄거리를 400자 이내로 요약하세요:
+
+{{summaries}}
+
+JSON 형식으로 응답하세요.`
+  },
+  {
+    id: 'entity.resolve',
+    version: '1.0.0',
+    system: '당신은 웹소설 등장인물 정리 담당 편집자입니다. 서로 다른 이름으로 기록된 두 인물이 같은 사람인지 판단합니다.',
+    user: `작품 「{{title}}」의 설정노트에서 같은 인물일 수 있는 이름 쌍입니다:
+
+{{pairs}}
+
+각 쌍에 대해 같은 인물이면 same_person을 true, 다른 인물이면 false로 답하세요.
+pair에는 쌍 번호를 쓰세요. 확실하지 않으면 false로 답하세요.
+
+JSON 형식으로 응답하세요.`
+  },
+  {
+    id: 'consistency.check',
+    version: '1.1.0',
+    system: `당신은 웹소설 전문 검수 편집자입니다. 
+주어진 설정노트를 기준으로 텍스트의 일관성을 검사합니다.
+모든 문제점은 구체적인 증거와 함께 제시해야 합니다.`,
+    user: `다음 텍스트의 일관성을 검사하세요:
+
+설정노트:
+{{setting_note}}
+
+검사할 텍스트:
+{{text}}
+
+검사 항목:
+1. 개연성 (Continuity) - 40% 가중치
+   - 사건의 인과관계
+   - 시간적 순서
+   - 논리적 흐름
+   - 복선과 회수
+
+2. 캐릭터 일관성 (Character) - 35% 가중치
+   - 성격 일관성
+   - 행동 패턴
+   - 말투 유지
+   - 동기 일치
+
+3. 세계관 규칙 (World Rules) - 25% 가중치
+   - 설정된 규칙 준수
+   - 마법/무공 체계 일관성, 경지·등급의 순서
+   - 사회 구조 유지, 세력의 구성원과 직위
+   - 장소 간 경로와 이동 거리
+   - 물건의 소유자 변화와 능력
+
+각 항목별로:
+- 점수 (0-100)
+- 발견된 문제들 (type, severity, description, evidence, suggested_fix)
+- 전체 가중평균 점수
+
+심각도 기준:
+- critical: 스토리 붕괴 수준
+- high: 독자가 즉시 알아차릴 수준
+- medium: 주의깊은 독자가 알아차릴 수준
+- low: 사소한 불일치`
+  },
+  {
+    id: 'consistency.continuity',
+    version: '1.0.0',
+    system: '개연성 검사 전문가로서 작동합니다.',
+    user: `텍스트의 개연성과 연속성을 검사하세요:
+{{text}}
+
+설정노트의 타임라인:
+{{timeline}}
+
+사건의 인과관계, 시간순서, 논리적 흐름을 점검하고 문제점을 찾으세요.`
+  },
+  {
+    id: 'consistency.character',
+    version: '1.0.0',
+    system: '캐릭터 일관성 검사 전문가로서 작동합니다.',
+    user: `캐릭터의 일관성을 검사하세요:
+{{text}}
+
+캐릭터 설정:
+{{characters}}
+
+각 캐릭터의 성격, 행동, 말투가 설정과 일치하는지 검증하세요.`
+  },
+  {
+    id: 'consistency.world_rules',
+    version: '1.1.0',
+    system: '세계관 일관성 검사 전문가로서 작동합니다.',
+    user: `세계관 규칙 준수를 검사하세요:
+{{text}}
+
+세계관 규칙:
+{{world_rules}}
+
+장소, 세력, 물건, 힘의 체계:
+{{setting_entities}}
+
+설정된 규칙들이 텍스트에서 일관되게 적용되는지 검증하세요.
+인물의 경지와 직위, 물건의 현재 소유자, 장소 간 이동 거리가 설정과 어긋나는지도 확인하세요.`
+  },
+  {
+    id: 'persona.setting_obsessed',
+    version: '1.0.0',
+    system: `당신은 {{persona_name}}입니다. {{persona_description}}
+작품을 읽고 설정의 논리성과 일관성 관점에서 평가합니다.`,
+    user: koreanPersonaPrompt(
+      '세계관 규칙, 파워 시스템, 설정 일관성, 논리적 개연성',
+      `특히 다음을 중점적으로 평가하세요:
+- 세계관 설정이 논리적이고 체계적인가?
+- 파워 시스템이 일관되고 균형잡혀 있는가?
+- 설정 구멍이나 모순은 없는가?
+- 설정이 스토리와 유기적으로 연결되는가?`
+    )
+  },
+  {
+    id: 'persona.romance_sub_focused',
+    version: '1.0.0',
+    system: `당신은 {{persona_name}}입니다. {{persona_description}}
+작품의 감정선과 캐릭터 관계를 중심으로 평가합니다.`,
+    user: koreanPersonaPrompt(
+      '감정 묘사, 관계 발전, 캐릭터 매력, 로맨스 전개',
+      `특히 다음을 중점적으로 평가하세요:
+- 캐릭터들의 감정이 세밀하게 묘사되는가?
+- 관계 발전이 자연스럽고 설득력 있는가?
+- 주인공과 서브 캐릭터가 매력적인가?
+- 로맨스나 감정선이 흥미진진한가?`
+    )
+  },
+  {
+    id: 'persona.traditional_martial_arts_fan',
+    version: '1.0.0',
+    system: `당신은 {{persona_name}}입니다. {{persona_description}}
+전통 무협의 관점에서 작품을 평가합니다.`,
+    user: koreanPersonaPrompt(
+      '무공 체계, 협객 정신, 강호 설정, 전통 무협 요소',
+      `특히 다음을 중점적으로 평가하세요:
+- 무공 체계가 전통적이고 체계적인가?
+- 협객 정신과 의리가 잘 표현되는가?
+- 강호 세계관이 생생하게 그려지는가?
+- 전통 무협의 정취가 느껴지는가?`
+    )
+  }
+];
+
+// English variants of the main pipeline prompts; focused checks fall back to Korean
+const ENGLISH_PROMPTS: PromptOverride[] = [
+  {
+    id: 'setting_note.generate',
+    version: '1.3.0',
+    locale: 'en',
+    system: `You are a professional web novel editor. You analyze the given text and extract the setting note of the work.
+A setting note is a document that systematically organizes the core settings of the work, such as characters, world rules and timeline.`,
+    user: `Analyze the following web novel text and create a setting note:
+
+Text:
+{{text}}
+
+Requirements:
+1. Characters:
+   - Name and role (protagonist/antagonist/supporting/minor)
+   - Other names, titles and nicknames that refer to the same character (aliases)
+   - 3-5 personality traits
+   - Goals and motivations
+   - Relationships with other characters
+   - Speech pattern (if any)
+   - Actions the character would never take (if any)
+
+2. World rules:
+   - Magic/martial arts system
+   - Social structure and classes
+   - Technology level
+   - Cultural characteristics
+   - Unusual physical laws
+
+3. Timeline:
+   - Major events in chronological order
+   - A timestamp with the chapter of the event and any in-story time the text gives (era, date, elapsed time such as "3 years later")
+   - Under after, the events the text says this one follows
+   - Characters involved in each event
+
+4. Locations:
+   - Name, type, description and enclosing location (part_of)
+   - Routes or distances to other locations (connections)
+
+5. Factions:
+   - Name, type and description of sects, gangs, government offices, clans and other organizations
+   - Leader, ranks from lowest to highest, members and their ranks, base and parent faction
+
+6. Items:
+   - Name, type, description and abilities of weapons, treasures, documents and other items that matter to the story
+   - Holders in order of possession, with when each took it under since
+
+7. Power systems:
+   - Name and description of sorcery, martial arts, magic and similar systems
+   - Realms or ranks from lowest to highest, and rules
+   - Characters who use the system and their current rank (practitioners)
+
+Leave locations, factions, items and power systems the text does not mention as empty arrays.
+
+8. Summary:
+   - Summarize the whole plot in under 200 characters
+
+Respond in JSON.`
+  },
+  {
+    id: 'setting_note.partial',
+    version: '1.3.0',
+    locale: 'en',
+    system: `You are a professional web novel editor. You read one section of a long serial and extract only the settings revealed in that section.
+The result is merged with the results of the other sections into the setting note of the whole work.`,
+    user: `The following text is chapters {{first_chapter}}-{{last_chapter}} of {{total_chapters}}. Create a setting note for this section:
+
+Text:
+{{text}}
+
+Requirements:
+1. Include only characters who appear or are mentioned in this section, using the fullest name in the text and listing other names under aliases
+2. Include only world rules revealed in this section
+3. Use the chapter number of each timeline event as its timestamp, in the form "Chapter N", followed by any in-story time the text gives (era, date, elapsed time such as "3 years later"). When the text says an event follows another, list that event under after
+4. List the locations, factions, items and power systems (realms or ranks) of this section under locations, factions, items and power_systems, with item holders in order of possession
+5. Summarize the plot of this section in under 200 characters
+6. Do not guess at anything outside this section
+
+Respond in JSON.`
+  },
+  {
+    id: 'setting_note.update',
+    version: '1.2.0',
+    locale: 'en',
+    system: `You are an editor maintaining the setting note of a serialized web novel. You read a newly published chapter and propose only what to add to the existing setting note.
+The existing setting note is established canon, so you never rewrite or change it.`,
+    user: `Existing setting note:
+{{setting_note}}
+
+New chapter (Chapter {{chapter}}):
+{{text}}
+
+Propose only what this chapter reveals for the first time:
+1. new_characters: characters appearing for the first time (not existing ones)
+2. character_updates: changes to existing characters, named exactly as in the setting note
+   - added_traits / added_goals: newly revealed traits and goals
+   - removed_traits / removed_goals: only those clearly gone, achieved or abandoned in this chapter, spelled as in the setting note
+   - new_relationships: newly formed relationships
+3. new_world_rules: newly revealed world rules
+4. new_timeline_events: major events of this chapter, with timestamp "Chapter {{chapter}}" plus any in-story time the text gives, and the earlier events they follow under after, spelled as in the setting note
+5. locations / factions / items / power_systems: locations, factions, items and power systems appearing for the first time, and new details of existing ones named exactly as in the setting note
+   - When an item changes hands, give the new holder under its holders with since "Chapter {{chapter}}"
+   - New faction members, rank changes and characters reaching a new realm also go here
+6. summary: summary of the whole work including this chapter (under 200 characters)
+
+Leave unchanged items as empty arrays. Respond in JSON.`
+  },
+  {
+    id: 'setting_note.summary',
+    version: '1.0.0',
+    locale: 'en',
+    system: 'You are a professional web novel editor. You combine section summaries into one summary of the work.',
+    user: `The following are the section summaries of "{{title}}" in order. Summarize the plot of the whole work in under 400 characters:
+
+{{summaries}}
+
+Respond in JSON.`
+  },
+  {
+    id: 'entity.resolve',
+    version: '1.0.0',
+    locale: 'en',
+    system: 'You are an editor organizing the cast of a web novel. You decide whether two characters recorded under different names are the same person.',
+    user: `These name pairs from the setting note of "{{title}}" may refer to the same character:
+
+{{pairs}}
+
+For each pair, set same_person to true if they are the same character and false otherwise.
+Put the pair number in pair. Answer false when unsure.
+
+Respond in JSON.`
+  },
+  {
+    id: 'consistency.check',
+    version: '1.1.0',
+    locale: 'en',
+    system: `You are a professional web novel reviewer.
+You check the consistency of the text against the given setting note.
+Every problem must be presented with concrete evidence.`,
+    user: `Check the consistency of the following text:
+
+Setting note:
+{{setting_note}}
+
+Text to check:
+{{text}}
+
+Check items:
+1. Continuity - 40% weight
+   - Cause and effect of events
+   - Chronological order
+   - Logical flow
+   - Foreshadowing and payoff
+
+2. Character - 35% weight
+   - Personality consistency
+   - Behavior patterns
+   - Consistent speech
+   - Matching motivations
+
+3. World Rules - 25% weight
+   - Compliance with established rules
+   - Consistency of the magic/martial arts system and the order of its ranks
+   - Stable social structure, faction membership and ranks
+   - Routes and travel distances between locations
+   - Who holds each item, and what it can do
+
+For each item:
+- Score (0-100)
+- Problems found (type, severity, description, evidence, suggested_fix)
+- Overall weighted average score
+
+Severity guide:
+- critical: breaks the story
+- high: most readers notice immediately
+- medium: attentive readers notice
+- low: minor inconsistency`
+  },
+  {
+    id: 'persona.setting_obsessed',
+    version: '1.0.0',
+    locale: 'en',
+    system: `You are a setting-obsessed reader who values the logic of the world setting and power system, is sensitive to plot holes and prefers a systematic world.
+You read the work and evaluate it from the perspective of logical and consistent settings.`,
+    user: englishPersonaPrompt(
+      'world rules, power system, setting consistency, logical plausibility',
+      `Focus especially on:
+- Is the world setting logical and systematic?
+- Is the power system consistent and balanced?
+- Are there plot holes or contradictions in the setting?
+- Is the setting organically connected to the story?`
+    )
+  },
+  {
+    id: 'persona.romance_sub_focused',
+    version: '1.0.0',
+    locale: 'en',
+    system: `You are a romance-focused reader who values emotional arcs and character relationships, especially the portrayal of the lead and side characters.
+You evaluate the work centered on emotional lines and character relationships.`,
+    user: englishPersonaPrompt(
+      'emotional portrayal, relationship development, character appeal, romance progression',
+      `Focus especially on:
+- Are the characters' emotions portrayed in detail?
+- Does the relationship develop naturally and convincingly?
+- Are the lead and side characters appealing?
+- Is the romance or emotional line exciting?`
+    )
+  },
+  {
+    id: 'persona.traditional_martial_arts_fan',
+    version: '1.0.0',
+    locale: 'en',
+    system: `You are a fan of traditional wuxia who values martial arts training, the murim world, chivalry, loyalty and revenge.
+You evaluate the work from the perspective of traditional wuxia.`,
+    user: englishPersonaPrompt(
+      'martial arts system, chivalrous spirit, murim setting, traditional wuxia elements',
+      `Focus especially on:
+- Is the martial arts system traditional and systematic?
+- Are chivalry and loyalty expressed well?
+- Is the murim world vividly portrayed?
+- Does it carry the feel of traditional wuxia?`
+    )
+  }
+];
+
+export const BUILTIN_PROMPTS: PromptOverride[] = [...KOREAN_PROMPTS, ...ENGLISH_PROMPTS];
\ No newline at end of file
@@ -0,0 +1,188 @@
+/**
+ * Multi-sample self-consistency helpers
+ * Used by: Backend - ConsistencyChecker, PersonaEvaluator and AggregateReportGenerator
+ * 
+ * @tags sampling, self-consistency, statistics, issue-merge
+ */
+
+import type { Issue, ScoreStats } from './types';
+
+export const MAX_SAMPLES = 5;
+
+// Issues of the same type whose descriptions share this much are treated as one problem
+const ISSUE_SIMILARITY_THRESHOLD = 0.5;
+
+const SEVERITY_ORDER: Issue['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * Clamps a requested sample count to the supported range
+ * Used by: Backend - Sampled consistency checks and persona evaluations
+ * 
+ * @tags sampling, options
+ */
+export function getSampleCount(samples?: number): number {
+  return Math.min(Math.max(Math.floor(samples ?? 1), 1), MAX_SAMPLES);
+}
+
+/**
+ * Runs a sampled call the given number of times in parallel, numbering samples from firstSample
+ * Failed samples return undefined and are left out of the result
+ * Used by: Backend - Sampled consistency checks and persona evaluations
+ * 
+ * @tags sampling, parallel
+ */
+export async function runSamples<T>(
+  count: number,
+  run: (sample: number) => Promise<T | undefined>,
+  firstSample: number = 0
+): Promise<T[]> {
+  const results = await Promise.all(
+    Array.from({ length: Math.max(count, 0) }, (_, index) => run(firstSample + index))
+  );
+  return results.filter((result): result is Awaited<T> => result !== undefined);
+}
+
+/**
+ * Computes mean and population standard deviation of sampled scores
+ * Used by: Backend - Score spread reporting
+ * 
+ * @tags statistics, mean, stddev
+ */
+export function computeScoreStats(values: number[]): ScoreStats {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    mean: round1(mean),
+    stddev: round1(Math.sqrt(variance)),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    samples: values.length
+  };
+}
+
+/**
+ * Merges the issue lists of several samples, combining issues that describe the same problem
+ * Each merged issue keeps the highest severity and the union of evidence,
+ * and counts how many samples reported it
+ * Used by: Backend - Sampled consistency checks
+ * 
+ * @tags issue-merge, deduplication
+ */
+export function mergeIssues(samples: Issue[][]): Issue[] {
+  const clusters: { issues: Issue[]; samples: Set<number> }[] = [];
+
+  samples.forEach((issues, sample) => {
+    for (const issue of issues) {
+      let best: (typeof clusters)[number] | undefined;
+      let bestScore = ISSUE_SIMILARITY_THRESHOLD;
+      for (const cluster of clusters) {
+        // One sample never reports the same problem twice
+        if (cluster.samples.has(sample)) continue;
+        const score = issueSimilarity(cluster.issues[0], issue);
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+
+      if (best) {
+        best.issues.push(issue);
+        best.samples.add(sample);
+      } else {
+        clusters.push({ issues: [issue], samples: new Set([sample]) });
+      }
+    }
+  });
+
+  return clusters
+    .map(cluster => {
+      const representative = [...cluster.issues].sort(
+        (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+      )[0];
+      return {
+        ...representative,
+        evidence: [...new Set(cluster.issues.flatMap(issue => issue.evidence))],
+        suggested_fix: representative.suggested_fix ?? cluster.issues.find(issue => issue.suggested_fix)?.suggested_fix,
+        occurrences: cluster.samples.size
+      };
+    })
+    .sort((a, b) =>
+      b.occurrences - a.occurrences ||
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+}
+
+/**
+ * Standard normal cumulative distribution function
+ * Used by: Backend - Verdict stability in the aggregate confidence score
+ * 
+ * @tags statistics, normal-distribution
+ */
+export function normalCdf(x: number): number {
+  // Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Scores how likely two issues describe the same problem, from 0 to 1
+ * Used by: Backend - mergeIssues clustering
+ * 
+ * @tags similarity, issue-merge
+ */
+function issueSimilarity(a: Issue, b: Issue): number {
+  if (a.type !== b.type) return 0;
+
+  // Quoting the same passage is the strongest sign of the same problem
+  const evidence = new Set(a.evidence.map(normalizeText));
+  if (b.evidence.map(normalizeText).some(quote => quote.length > 0 && evidence.has(quote))) {
+    return 1;
+  }
+
+  return diceCoefficient(normalizeText(a.description), normalizeText(b.description));
+}
+
+/**
+ * Character bigram overlap, which works for Hangul without a tokenizer
+ * Used by: Backend - issueSimilarity and setting note merging
+ * 
+ * @tags similarity, bigram
+ */
+export function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Strips whitespace, quotes and punctuation so near-identical phrasings compare equal
+ * Used by: Backend - Issue and setting note deduplication
+ * 
+ * @tags normalization, similarity
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/[\s"'“”‘’.,!?…]/g, '').toLowerCase();
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
\ No newline at end of file
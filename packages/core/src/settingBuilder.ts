@@ -6,20 +6,38 @@
  */
 
 import { z } from 'zod';
-import type { SettingNote, Character, WorldRule, TimelineEvent } from './types';
-import type { LLMAdapter } from '@page-atelier/llm';
+import type {
+  AliasCandidate,
+  BibleLock,
+  SettingNote,
+  SettingNoteUpdate,
+  Character,
+  WorldRule,
+  TimelineEvent,
+  CallOptions,
+  ChunkOptions
+} from './types';
+import { defaultLogger, throwIfFatal, type LLMAdapter } from '@page-atelier/llm';
+import { findAliasCandidates, resolveEntities } from './entityResolution';
+import { DEFAULT_CHUNK_CONCURRENCY, mapWithConcurrency, splitIntoWindows, type TextWindow } from './chunking';
+import { defaultPromptRegistry, type PromptRegistry } from './prompts';
+import { applySettingNoteDelta, mergeSettingNotes } from './settingMerge';
+import { orderTimeline } from './timeline';
 
 // Zod schemas for validation
+const RelationshipSchema = z.object({
+  character: z.string(),
+  type: z.enum(['family', 'friend', 'enemy', 'love', 'mentor', 'rival', 'other']),
+  description: z.string()
+});
+
 const CharacterSchema = z.object({
   name: z.string(),
+  aliases: z.array(z.string()).optional(),
   role: z.enum(['protagonist', 'antagonist', 'supporting', 'minor']),
   traits: z.array(z.string()),
   goals: z.array(z.string()),
-  relationships: z.array(z.object({
-    character: z.string(),
-    type: z.enum(['family', 'friend', 'enemy', 'love', 'mentor', 'rival', 'other']),
-    description: z.string()
-  })),
+  relationships: z.array(RelationshipSchema),
   speech_pattern: z.string().optional(),
   taboo_actions: z.array(z.string()).optional()
 });
@@ -35,17 +53,102 @@ const TimelineEventSchema = z.object({
   timestamp: z.string(),
   event: z.string(),
   involved_characters: z.array(z.string()),
-  importance: z.enum(['critical', 'high', 'medium', 'low'])
+  importance: z.enum(['critical', 'high', 'medium', 'low']),
+  after: z.array(z.string()).optional()
+});
+
+const LocationSchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()).optional(),
+  type: z.enum(['region', 'settlement', 'building', 'natural', 'other']),
+  description: z.string(),
+  part_of: z.string().optional(),
+  connections: z.array(z.object({
+    location: z.string(),
+    description: z.string()
+  })).optional()
+});
+
+const FactionSchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()).optional(),
+  type: z.enum(['sect', 'gang', 'government', 'family', 'religious', 'other']),
+  description: z.string(),
+  leader: z.string().optional(),
+  ranks: z.array(z.string()).optional(),
+  members: z.array(z.object({
+    character: z.string(),
+    rank: z.string().optional()
+  })),
+  base: z.string().optional(),
+  parent: z.string().optional()
 });
 
-const SettingNoteSchema = z.object({
+const ItemSchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()).optional(),
+  type: z.enum(['weapon', 'artifact', 'document', 'treasure', 'other']),
+  description: z.string(),
+  abilities: z.array(z.string()).optional(),
+  holders: z.array(z.object({
+    character: z.string(),
+    since: z.string().optional()
+  }))
+});
+
+const PowerSystemSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  ranks: z.array(z.string()),
+  rules: z.array(z.string()),
+  practitioners: z.array(z.object({
+    character: z.string(),
+    rank: z.string()
+  }))
+});
+
+// Entity lists are optional so notes from before they existed still validate
+const SettingEntitiesSchema = z.object({
+  locations: z.array(LocationSchema).optional(),
+  factions: z.array(FactionSchema).optional(),
+  items: z.array(ItemSchema).optional(),
+  power_systems: z.array(PowerSystemSchema).optional()
+});
+
+export const SettingNoteSchema = z.object({
   title: z.string(),
   genre: z.array(z.string()),
   characters: z.array(CharacterSchema),
   world_rules: z.array(WorldRuleSchema),
   timeline: z.array(TimelineEventSchema),
   summary: z.string()
-});
+}).merge(SettingEntitiesSchema).describe('SettingNote');
+
+const SettingNoteDeltaSchema = z.object({
+  new_characters: z.array(CharacterSchema),
+  character_updates: z.array(z.object({
+    name: z.string(),
+    added_traits: z.array(z.string()),
+    removed_traits: z.array(z.string()),
+    added_goals: z.array(z.string()),
+    removed_goals: z.array(z.string()),
+    new_relationships: z.array(RelationshipSchema)
+  })),
+  new_world_rules: z.array(WorldRuleSchema),
+  new_timeline_events: z.array(TimelineEventSchema),
+  summary: z.string()
+}).merge(SettingEntitiesSchema).describe('SettingNoteDelta');
+
+const AliasDecisionSchema = z.object({
+  decisions: z.array(z.object({
+    pair: z.number().int(),
+    same_person: z.boolean()
+  }))
+}).describe('AliasDecisions');
+
+const SettingSummarySchema = z.object({
+  summary: z.string()
+}).describe('SettingSummary');
 
 /**
  * Builds comprehensive setting notes from story text
@@ -54,7 +157,10 @@ const SettingNoteSchema = z.object({
  * @tags setting-builder, story-analysis, world-extraction
  */
 export class SettingBuilder {
-  constructor(private llmAdapter: LLMAdapter) {}
+  constructor(
+    private llmAdapter: LLMAdapter,
+    private prompts: PromptRegistry = defaultPromptRegistry
+  ) {}
 
   /**
    * Generates complete setting note from story text
@@ -62,93 +168,244 @@ export class SettingBuilder {
    * 
    * @tags main-generation, setting-note, comprehensive-analysis
    */
-  async generateSettingNote(text: string): Promise<SettingNote> {
-    const systemPrompt = `당신은 웹소설 전문 편집자입니다. 주어진 텍스트를 분석하여 작품의 설정노트를 추출합니다.
-설정노트는 캐릭터, 세계관 규칙, 타임라인 등 작품의 핵심 설정을 체계적으로 정리한 문서입니다.`;
+  async generateSettingNote(text: string, options?: CallOptions): Promise<SettingNote> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.generate',
+      { text },
+      options?.locale
+    );
 
-    const prompt = `다음 웹소설 텍스트를 분석하여 설정노트를 생성하세요:
+    const response = await this.llmAdapter.generateJSON(
+      prompt,
+      SettingNoteSchema,
+      systemPrompt,
+      { ...options, label: 'setting_note', prompt: ref }
+    );
 
-텍스트:
-${text}
+    throwIfFatal(response);
 
-요구사항:
-1. 캐릭터 분석:
-   - 이름과 역할 (주인공/적대자/조연/단역)
-   - 성격 특징 3-5개
-   - 목표와 동기
-   - 다른 캐릭터와의 관계
-   - 말투 특징 (있다면)
-   - 절대 하지 않는 행동 (있다면)
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to generate setting note: ${response.error}`);
+    }
 
-2. 세계관 규칙:
-   - 마법/무공 체계
-   - 사회 구조와 계급
-   - 기술 수준
-   - 문화적 특징
-   - 물리 법칙의 특이점
+    // Post-process and enhance the setting note
+    return withOrderedTimeline(await this.resolveCharacters(response.data, options));
+  }
+
+  /**
+   * Generates a setting note for a full-length serial by extracting partial notes
+   * per chapter window and merging them
+   * Falls back to a single call when the text fits in one window
+   * Used by: Backend - /api/analyze chunked mode for texts beyond one prompt
+   * 
+   * @tags map-reduce, chunking, setting-note
+   */
+  async generateSettingNoteChunked(
+    text: string,
+    options?: CallOptions,
+    chunking: ChunkOptions = {}
+  ): Promise<SettingNote> {
+    const windows = splitIntoWindows(text, chunking.windowChars);
+    if (windows.length <= 1) {
+      return this.generateSettingNote(text, options);
+    }
 
-3. 타임라인:
-   - 주요 사건들을 시간순으로 정리
-   - 각 사건에 연관된 캐릭터
+    const partials = await mapWithConcurrency(
+      windows,
+      chunking.concurrency ?? DEFAULT_CHUNK_CONCURRENCY,
+      window => this.extractWindow(window, options)
+    );
+    const notes = partials.filter((note): note is SettingNote => note !== undefined);
+    if (notes.length === 0) {
+      throw new Error(`Failed to generate setting note: all ${windows.length} windows failed`);
+    }
 
-4. 작품 요약:
-   - 200자 이내로 전체 줄거리 요약
+    const merged = mergeSettingNotes(notes);
+    merged.summary = (await this.summarizeWindows(merged.title, notes, options)) ?? merged.summary;
+    return withOrderedTimeline(await this.resolveCharacters(merged, options));
+  }
 
-JSON 형식으로 응답하세요.`;
+  /**
+   * Extracts the partial setting note of one window, or undefined when the call fails
+   * Used by: Backend - Map step of generateSettingNoteChunked
+   * 
+   * @tags map-step, partial-setting-note
+   */
+  private async extractWindow(window: TextWindow, options?: CallOptions): Promise<SettingNote | undefined> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.partial',
+      {
+        text: window.text,
+        first_chapter: window.first_chapter,
+        last_chapter: window.last_chapter,
+        total_chapters: window.total_chapters
+      },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
       SettingNoteSchema,
-      systemPrompt
+      systemPrompt,
+      { ...options, label: `setting_note:${window.index + 1}`, prompt: ref }
     );
 
+    throwIfFatal(response);
+
     if (!response.success || !response.data) {
-      throw new Error(`Failed to generate setting note: ${response.error}`);
+      (options?.logger ?? defaultLogger).warn('Skipping setting note window', {
+        window: window.index + 1,
+        chapters: `${window.first_chapter}-${window.last_chapter}`,
+        error: response.error
+      });
+      return undefined;
     }
+    return response.data;
+  }
 
-    // Post-process and enhance the setting note
-    return this.enhanceSettingNote(response.data);
+  /**
+   * Condenses the per-window summaries into one summary of the whole work
+   * Used by: Backend - Reduce step of generateSettingNoteChunked
+   * 
+   * @tags reduce-step, summary
+   */
+  private async summarizeWindows(
+    title: string,
+    notes: SettingNote[],
+    options?: CallOptions
+  ): Promise<string | undefined> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.summary',
+      {
+        title,
+        summaries: notes.map((note, index) => `${index + 1}. ${note.summary}`).join('\n')
+      },
+      options?.locale
+    );
+
+    const response = await this.llmAdapter.generateJSON(
+      prompt,
+      SettingSummarySchema,
+      systemPrompt,
+      { ...options, label: 'setting_note:summary', prompt: ref }
+    );
+
+    throwIfFatal(response);
+
+    return response.data?.summary;
   }
 
   /**
-   * Enhances and validates setting note data
-   * Used by: Backend - Post-processing for data quality
+   * Merges characters that name the same person and rewrites references to canonical names
+   * With options.confirmAliases, heuristic matches are merged only when the model confirms them
+   * Used by: Backend - Setting note generation before relationship validation
    * 
-   * @tags enhancement, validation, post-processing
+   * @tags entity-resolution, aliases
    */
-  private enhanceSettingNote(settingNote: SettingNote): SettingNote {
-    // Ensure all characters have relationships defined
-    const characterNames = new Set(settingNote.characters.map(c => c.name));
-    
-    settingNote.characters = settingNote.characters.map(character => {
-      // Validate relationships reference existing characters
-      character.relationships = character.relationships.filter(rel => 
-        characterNames.has(rel.character)
-      );
-
-      // Add default speech pattern if protagonist lacks one
-      if (character.role === 'protagonist' && !character.speech_pattern) {
-        character.speech_pattern = '표준어 사용, 정중한 어투';
-      }
-
-      return character;
-    });
-
-    // Sort timeline events chronologically
-    settingNote.timeline.sort((a, b) => {
-      // Simple ordering based on chapter mentions or sequence
-      return a.timestamp.localeCompare(b.timestamp);
-    });
-
-    // Ensure critical world rules have evidence
-    settingNote.world_rules = settingNote.world_rules.map(rule => {
-      if (rule.importance === 'critical' && !rule.evidence) {
-        rule.evidence = '텍스트 전반에 걸쳐 암시됨';
-      }
-      return rule;
-    });
-
-    return settingNote;
+  async resolveCharacters(settingNote: SettingNote, options?: CallOptions): Promise<SettingNote> {
+    const candidates = findAliasCandidates(settingNote.characters);
+    const accepted = options?.confirmAliases
+      ? await this.confirmAliasCandidates(settingNote, candidates, options)
+      : candidates;
+    return resolveEntities(settingNote, accepted);
+  }
+
+  /**
+   * Asks the model whether suffix and given-name matches are the same person
+   * Declared aliases are kept without asking; a failed call keeps every candidate
+   * Used by: Backend - resolveCharacters
+   * 
+   * @tags entity-resolution, llm-confirmation
+   */
+  private async confirmAliasCandidates(
+    settingNote: SettingNote,
+    candidates: AliasCandidate[],
+    options?: CallOptions
+  ): Promise<AliasCandidate[]> {
+    const uncertain = candidates.filter(candidate => candidate.reason !== 'alias');
+    if (uncertain.length === 0) return candidates;
+
+    const describe = (name: string) => {
+      const character = settingNote.characters.find(candidate => candidate.name === name);
+      return character
+        ? `"${name}" (${character.role}; ${[...character.traits, ...character.goals].slice(0, 4).join(', ')})`
+        : `"${name}"`;
+    };
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'entity.resolve',
+      {
+        title: settingNote.title,
+        pairs: uncertain
+          .map((candidate, index) => `${index}. ${describe(candidate.names[0])} ↔ ${describe(candidate.names[1])}`)
+          .join('\n')
+      },
+      options?.locale
+    );
+
+    const response = await this.llmAdapter.generateJSON(
+      prompt,
+      AliasDecisionSchema,
+      systemPrompt,
+      { ...options, label: 'entity_resolution', prompt: ref }
+    );
+
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      (options?.logger ?? defaultLogger).warn('Alias confirmation failed, merging all candidates', {
+        error: response.error
+      });
+      return candidates;
+    }
+
+    const confirmed = new Set(
+      response.data.decisions.filter(decision => decision.same_person).map(decision => decision.pair)
+    );
+    return candidates.filter(candidate =>
+      candidate.reason === 'alias' || confirmed.has(uncertain.indexOf(candidate))
+    );
+  }
+
+  /**
+   * Updates an existing setting note with one new chapter and reports what changed
+   * The model only proposes additions; they are merged deterministically so established facts stay put
+   * and locked bible fields are never touched
+   * Used by: Backend - /api/setting-note/update for daily serial updates
+   * 
+   * @tags incremental-update, changelog, setting-note
+   */
+  async updateSettingNote(
+    settingNote: SettingNote,
+    chapterText: string,
+    chapterNumber: number,
+    options?: CallOptions,
+    locks: BibleLock[] = []
+  ): Promise<SettingNoteUpdate> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.update',
+      {
+        setting_note: JSON.stringify(settingNote, null, 2),
+        text: chapterText,
+        chapter: chapterNumber
+      },
+      options?.locale
+    );
+
+    const response = await this.llmAdapter.generateJSON(
+      prompt,
+      SettingNoteDeltaSchema,
+      systemPrompt,
+      { ...options, label: 'setting_note_update', prompt: ref }
+    );
+
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to update setting note: ${response.error}`);
+    }
+
+    const update = applySettingNoteDelta(settingNote, response.data, chapterNumber, locks);
+    return { ...update, setting_note: withOrderedTimeline(update.setting_note) };
   }
 
   /**
@@ -157,19 +414,27 @@ JSON 형식으로 응답하세요.`;
    * 
    * @tags character-extraction, profile-analysis
    */
-  async extractCharacters(text: string): Promise<Character[]> {
-    const prompt = `텍스트에서 등장인물들을 추출하고 각 인물의 프로필을 작성하세요:
-${text}
-
-각 캐릭터별로 이름, 역할, 성격, 목표, 관계를 상세히 분석하세요.`;
+  async extractCharacters(text: string, options?: CallOptions): Promise<Character[]> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.characters',
+      { text },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.array(CharacterSchema),
-      '캐릭터 분석 전문가로서 작동합니다.'
+      z.array(CharacterSchema).describe('CharacterList'),
+      systemPrompt,
+      { ...options, label: 'characters', prompt: ref }
     );
 
-    return response.data || [];
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to extract characters: ${response.error}`);
+    }
+
+    return response.data;
   }
 
   /**
@@ -178,19 +443,27 @@ ${text}
    * 
    * @tags world-rules, system-extraction
    */
-  async extractWorldRules(text: string): Promise<WorldRule[]> {
-    const prompt = `텍스트에서 세계관 규칙과 설정을 추출하세요:
-${text}
-
-마법체계, 사회구조, 기술수준, 문화적 특징 등을 찾아 정리하세요.`;
+  async extractWorldRules(text: string, options?: CallOptions): Promise<WorldRule[]> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.world_rules',
+      { text },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.array(WorldRuleSchema),
-      '세계관 설정 분석가로서 작동합니다.'
+      z.array(WorldRuleSchema).describe('WorldRuleList'),
+      systemPrompt,
+      { ...options, label: 'world_rules', prompt: ref }
     );
 
-    return response.data || [];
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to extract world rules: ${response.error}`);
+    }
+
+    return response.data;
   }
 
   /**
@@ -199,20 +472,41 @@ ${text}
    * 
    * @tags timeline, event-extraction, chronology
    */
-  async extractTimeline(text: string): Promise<TimelineEvent[]> {
-    const prompt = `텍스트에서 주요 사건들을 시간순으로 추출하세요:
-${text}
-
-각 사건의 시점, 내용, 관련 인물, 중요도를 파악하세요.`;
+  async extractTimeline(text: string, options?: CallOptions): Promise<TimelineEvent[]> {
+    const { ref, systemPrompt, prompt } = this.prompts.render(
+      'setting_note.timeline',
+      { text },
+      options?.locale
+    );
 
     const response = await this.llmAdapter.generateJSON(
       prompt,
-      z.array(TimelineEventSchema),
-      '스토리 타임라인 분석가로서 작동합니다.'
+      z.array(TimelineEventSchema).describe('TimelineEventList'),
+      systemPrompt,
+      { ...options, label: 'timeline', prompt: ref }
     );
 
-    return response.data || [];
+    throwIfFatal(response);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to extract timeline: ${response.error}`);
+    }
+
+    return response.data;
   }
 }
 
+/**
+ * Returns the note with its timeline in chronological order and its ordering conflicts
+ * Nothing else is repaired; lintSettingNote reports the remaining structural problems
+ * Used by: Backend - Setting note post-processing and incremental updates
+ * 
+ * @tags timeline, ordering
+ */
+function withOrderedTimeline(settingNote: SettingNote): SettingNote {
+  const { timeline, conflicts } = orderTimeline(settingNote.timeline);
+  const { timeline_conflicts: _previous, ...note } = settingNote;
+  return { ...note, timeline, ...(conflicts.length > 0 ? { timeline_conflicts: conflicts } : {}) };
+}
+
 export default SettingBuilder;
\ No newline at end of file
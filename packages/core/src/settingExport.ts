@@ -0,0 +1,247 @@
+/**
+ * Setting note exports: relationship graphs and timelines in formats editors paste into planning docs
+ * Used by: Backend - /api/setting-note/export downloads
+ * 
+ * @tags export, relationships, timeline, mermaid, graphviz, graphml, csv
+ */
+
+import { buildNameIndex, normalizeCharacterName } from './names';
+import { RELATIONSHIP_LABELS } from './settingLint';
+import { parseTimestamp } from './timeline';
+import type { Character, SettingNote, SettingNoteExport, SettingNoteExportFormat } from './types';
+
+export const SETTING_NOTE_EXPORT_FORMATS = [
+  'relationships_mermaid',
+  'relationships_dot',
+  'relationships_graphml',
+  'timeline_gantt',
+  'timeline_csv'
+] as const satisfies readonly SettingNoteExportFormat[];
+
+const EXPORT_FILES: Record<SettingNoteExportFormat, { mime_type: string; extension: string }> = {
+  relationships_mermaid: { mime_type: 'text/vnd.mermaid; charset=utf-8', extension: 'mmd' },
+  relationships_dot: { mime_type: 'text/vnd.graphviz; charset=utf-8', extension: 'dot' },
+  relationships_graphml: { mime_type: 'application/graphml+xml; charset=utf-8', extension: 'graphml' },
+  timeline_gantt: { mime_type: 'text/vnd.mermaid; charset=utf-8', extension: 'mmd' },
+  timeline_csv: { mime_type: 'text/csv; charset=utf-8', extension: 'csv' }
+};
+
+const CSV_COLUMNS = [
+  'order',
+  'timestamp',
+  'event',
+  'involved_characters',
+  'importance',
+  'chapter',
+  'era',
+  'year',
+  'month',
+  'day',
+  'after'
+];
+
+interface GraphNode {
+  id: string;
+  name: string;
+  role?: Character['role']; // Missing for relationship targets the note does not define
+}
+
+interface GraphEdge {
+  id: string;
+  source: GraphNode;
+  target: GraphNode;
+  type: Character['relationships'][number]['type'];
+  description: string;
+}
+
+/**
+ * Renders a setting note's relationships or timeline in the given format
+ * Used by: Backend - /api/setting-note/export
+ * 
+ * @tags export, dispatch
+ */
+export function exportSettingNote(settingNote: SettingNote, format: SettingNoteExportFormat): SettingNoteExport {
+  const render: Record<SettingNoteExportFormat, (note: SettingNote) => string> = {
+    relationships_mermaid: relationshipsToMermaid,
+    relationships_dot: relationshipsToDot,
+    relationships_graphml: relationshipsToGraphML,
+    timeline_gantt: timelineToGantt,
+    timeline_csv: timelineToCsv
+  };
+  return { format, content: render[format](settingNote), ...EXPORT_FILES[format] };
+}
+
+/**
+ * Collects characters as nodes and their relationships as directed edges
+ * Targets are resolved through names and aliases; unknown targets become extra nodes
+ * Used by: Backend - Relationship graph exports
+ * 
+ * @tags graph, relationships
+ */
+function buildRelationshipGraph(settingNote: SettingNote): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const findCharacter = buildNameIndex(settingNote.characters);
+  const nodes = settingNote.characters.map((character, index): GraphNode => ({
+    id: `c${index}`,
+    name: character.name,
+    role: character.role
+  }));
+  const nodeOf = new Map(settingNote.characters.map((character, index) => [character, nodes[index]]));
+  const unknown = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  settingNote.characters.forEach((character, index) => {
+    for (const relationship of character.relationships) {
+      const resolved = findCharacter(relationship.character);
+      let target = resolved && nodeOf.get(resolved);
+      if (!target) {
+        const key = normalizeCharacterName(relationship.character);
+        target = unknown.get(key);
+        if (!target) {
+          target = { id: `c${nodes.length}`, name: relationship.character };
+          unknown.set(key, target);
+          nodes.push(target);
+        }
+      }
+      edges.push({
+        id: `r${edges.length}`,
+        source: nodes[index],
+        target,
+        type: relationship.type,
+        description: relationship.description
+      });
+    }
+  });
+
+  return { nodes, edges };
+}
+
+function relationshipsToMermaid(settingNote: SettingNote): string {
+  const { nodes, edges } = buildRelationshipGraph(settingNote);
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\n/g, ' ')}"`;
+  return [
+    '---',
+    `title: ${JSON.stringify(settingNote.title)}`,
+    '---',
+    'graph LR',
+    ...nodes.map(node => `  ${node.id}[${label(node.name)}]`),
+    ...edges.map(edge => `  ${edge.source.id} -->|${label(RELATIONSHIP_LABELS[edge.type])}| ${edge.target.id}`),
+    ...(nodes.some(node => !node.role)
+      ? [
+        '  classDef unknown stroke-dasharray: 5 5',
+        `  class ${nodes.filter(node => !node.role).map(node => node.id).join(',')} unknown`
+      ]
+      : [])
+  ].join('\n') + '\n';
+}
+
+function relationshipsToDot(settingNote: SettingNote): string {
+  const { nodes, edges } = buildRelationshipGraph(settingNote);
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  return [
+    'digraph relationships {',
+    `  label=${quote(settingNote.title)};`,
+    '  node [shape=box];',
+    ...nodes.map(node => {
+      const style = !node.role ? ', style=dashed' : node.role === 'protagonist' ? ', penwidth=2' : '';
+      return `  ${node.id} [label=${quote(node.name)}${style}];`;
+    }),
+    ...edges.map(edge => {
+      const tooltip = edge.description ? `, tooltip=${quote(edge.description)}` : '';
+      return `  ${edge.source.id} -> ${edge.target.id} [label=${quote(RELATIONSHIP_LABELS[edge.type])}${tooltip}];`;
+    }),
+    '}'
+  ].join('\n') + '\n';
+}
+
+function relationshipsToGraphML(settingNote: SettingNote): string {
+  const { nodes, edges } = buildRelationshipGraph(settingNote);
+  const data = (key: string, value: string | undefined) =>
+    value ? `<data key="${key}">${escapeXml(value)}</data>` : '';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="role" for="node" attr.name="role" attr.type="string"/>',
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="label" for="edge" attr.name="label" attr.type="string"/>',
+    '  <key id="description" for="edge" attr.name="description" attr.type="string"/>',
+    '  <graph id="relationships" edgedefault="directed">',
+    ...nodes.map(node => `    <node id="${node.id}">${data('name', node.name)}${data('role', node.role)}</node>`),
+    ...edges.map(edge =>
+      `    <edge id="${edge.id}" source="${edge.source.id}" target="${edge.target.id}">` +
+      `${data('type', edge.type)}${data('label', RELATIONSHIP_LABELS[edge.type])}${data('description', edge.description)}</edge>`
+    ),
+    '  </graph>',
+    '</graphml>'
+  ].join('\n') + '\n';
+}
+
+/**
+ * Renders the timeline as a Mermaid gantt chart of one slot per event in story order
+ * Mermaid needs dates, so event n spans n to n+1 on a unitless axis; runs of events sharing
+ * a timestamp form a section
+ * Used by: Backend - Timeline export
+ * 
+ * @tags timeline, mermaid, gantt
+ */
+function timelineToGantt(settingNote: SettingNote): string {
+  // Colons, semicolons and hashes end a task name in gantt syntax
+  const taskName = (text: string) => text.replace(/[:;#\n]/g, ' ').trim() || '-';
+  const lines = [
+    'gantt',
+    `  title ${taskName(settingNote.title)}`,
+    '  dateFormat X',
+    '  axisFormat %s'
+  ];
+
+  let section: string | undefined;
+  settingNote.timeline.forEach((event, index) => {
+    if (event.timestamp !== section) {
+      section = event.timestamp;
+      lines.push(`  section ${taskName(event.timestamp)}`);
+    }
+    const tags = event.importance === 'critical' ? 'crit, ' : '';
+    lines.push(`  ${taskName(event.event)} :${tags}e${index}, ${index}, ${index + 1}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders the timeline as RFC 4180 CSV in story order, with parsed positions where known
+ * Used by: Backend - Timeline export for spreadsheets
+ * 
+ * @tags timeline, csv
+ */
+function timelineToCsv(settingNote: SettingNote): string {
+  const rows = settingNote.timeline.map((event, index) => {
+    // Positions are not part of the note schema, so notes sent over the API arrive without them
+    const position = event.position ?? parseTimestamp(event.timestamp);
+    return [
+      String(index + 1),
+      event.timestamp,
+      event.event,
+      event.involved_characters.join('; '),
+      event.importance,
+      position.chapter?.toString() ?? '',
+      position.era ?? '',
+      position.year?.toString() ?? '',
+      position.month?.toString() ?? '',
+      position.day?.toString() ?? '',
+      (event.after ?? []).join('; ')
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,955 @@
+/**
+ * Author bible import: maps a Markdown or YAML 설정집 onto a validated setting note
+ * Used by: Backend - /api/analyze with an author's document and /api/setting-note/import
+ * 
+ * @tags import, setting-note, markdown, yaml
+ */
+
+import * as yaml from 'js-yaml';
+import { getGivenName, normalizeCharacterName } from './names';
+import { SettingNoteSchema } from './settingBuilder';
+import { orderTimeline } from './timeline';
+import type {
+  Character,
+  Faction,
+  FactionMember,
+  Item,
+  ItemHolder,
+  Location,
+  LocationConnection,
+  PowerSystem,
+  Practitioner,
+  Relationship,
+  SettingDocumentFormat,
+  SettingNote,
+  SettingNoteImport,
+  TimelineEvent,
+  UnmappedField,
+  WorldRule
+} from './types';
+
+type DocumentValue = string | number | boolean | null | undefined | DocumentValue[] | DocumentRecord;
+
+interface DocumentRecord {
+  [key: string]: DocumentValue;
+}
+
+// Field names as authors write them; compared after normalizeKey
+const NOTE_FIELDS = {
+  title: ['title', '제목', '작품', '작품명'],
+  genre: ['genre', '장르'],
+  summary: ['summary', '줄거리', '요약', '시놉시스', '개요', '소개'],
+  characters: ['characters', '인물', '등장인물', '캐릭터', '인물소개', '인물설정'],
+  world_rules: ['world_rules', '세계관', '규칙', '세계관규칙', '세계관설정', '설정'],
+  timeline: ['timeline', '타임라인', '연표', '연대기', '사건', '주요사건'],
+  locations: ['locations', '장소', '지명', '지역', '무대'],
+  factions: ['factions', '세력', '단체', '조직', '문파'],
+  items: ['items', '아이템', '물건', '보물', '무기', '소품'],
+  power_systems: ['power_systems', '능력체계', '수련체계', '무공체계', '힘의체계', '경지', '등급체계']
+};
+
+const CHARACTER_FIELDS = {
+  name: ['name', '이름', 'value'],
+  aliases: ['aliases', '별명', '이명', '호칭', '별칭', '다른이름'],
+  role: ['role', '역할', '비중'],
+  traits: ['traits', '성격', '특징', '특성', 'items'],
+  goals: ['goals', '목표', '목적', '동기'],
+  relationships: ['relationships', '관계', '인간관계'],
+  speech_pattern: ['speech_pattern', '말투', '어투', '화법'],
+  taboo_actions: ['taboo_actions', '금기', '금기사항', '하지않는일']
+};
+
+const RELATIONSHIP_FIELDS = {
+  character: ['character', 'name', '대상', '이름', '인물', 'value'],
+  type: ['type', '관계', '유형', '종류'],
+  description: ['description', '설명', '내용', 'detail']
+};
+
+const WORLD_RULE_FIELDS = {
+  rule: ['rule', '규칙', '내용', '설정', 'value', 'detail'],
+  category: ['category', '분류', '범주', '카테고리', 'name'],
+  importance: ['importance', '중요도'],
+  evidence: ['evidence', '근거', '출처'],
+  rules: ['rules', 'items']
+};
+
+const TIMELINE_FIELDS = {
+  timestamp: ['timestamp', '시점', '시간', '날짜', '때', '회차', '일시'],
+  event: ['event', '사건', '내용', '설명', 'value', 'detail'],
+  involved_characters: ['involved_characters', 'characters', '인물', '등장인물', '관련인물'],
+  importance: ['importance', '중요도'],
+  after: ['after', '이후', '선행사건']
+};
+
+const LOCATION_FIELDS = {
+  name: ['name', '이름', '지명'],
+  aliases: ['aliases', '별칭', '다른이름'],
+  type: ['type', '종류', '유형'],
+  description: ['description', '설명', '내용', 'value', 'detail', 'items'],
+  part_of: ['part_of', '상위지역', '소속', '위치'],
+  connections: ['connections', '연결', '경로', '이동']
+};
+
+const FACTION_FIELDS = {
+  name: ['name', '이름', '세력명'],
+  aliases: ['aliases', '별칭', '다른이름'],
+  type: ['type', '종류', '유형'],
+  description: ['description', '설명', '내용', 'value', 'detail'],
+  leader: ['leader', '수장', '우두머리', '리더', '두령', '지도자'],
+  ranks: ['ranks', '계급', '직급', '서열'],
+  members: ['members', '구성원', '멤버', '소속인물', 'items'],
+  base: ['base', '본거지', '근거지', '거점'],
+  parent: ['parent', '상위세력', '소속']
+};
+
+const ITEM_FIELDS = {
+  name: ['name', '이름'],
+  aliases: ['aliases', '별칭', '다른이름'],
+  type: ['type', '종류', '유형'],
+  description: ['description', '설명', '내용', 'value', 'detail'],
+  abilities: ['abilities', '능력', '효과', '기능', 'items'],
+  holders: ['holders', '소유자', '보유자', '소지자', '주인']
+};
+
+const POWER_SYSTEM_FIELDS = {
+  name: ['name', '이름'],
+  description: ['description', '설명', '내용', 'value', 'detail'],
+  ranks: ['ranks', '경지', '단계', '등급', '계급'],
+  rules: ['rules', '규칙', '원리', 'items'],
+  practitioners: ['practitioners', '수련자', '사용자', '능력자']
+};
+
+// Keywords matched against normalized values, checked in order
+const ROLE_KEYWORDS: Record<Character['role'], string[]> = {
+  protagonist: ['protagonist', '주인공', '주연'],
+  antagonist: ['antagonist', '악역', '적대자', '빌런', '흑막'],
+  supporting: ['supporting', '조연', '주요인물'],
+  minor: ['minor', '단역', '엑스트라', '기타']
+};
+
+const IMPORTANCE_KEYWORDS: Record<WorldRule['importance'], string[]> = {
+  critical: ['critical', '핵심', '치명', '절대', '필수'],
+  high: ['high', '높음', '중요', '상'],
+  medium: ['medium', '보통', '중간', '중'],
+  low: ['low', '낮음', '사소', '하']
+};
+
+const CATEGORY_KEYWORDS: Record<WorldRule['category'], string[]> = {
+  magic: ['magic', '마법', '도술', '무공', '술법', '주술', '내공', '이능'],
+  society: ['society', '사회', '신분', '제도', '법', '계급', '정치'],
+  technology: ['technology', '기술', '과학', '문명'],
+  culture: ['culture', '문화', '풍습', '관습', '종교', '예절'],
+  physics: ['physics', '물리', '자연', '지리'],
+  other: ['other', '기타']
+};
+
+const LOCATION_TYPE_KEYWORDS: Record<Location['type'], string[]> = {
+  region: ['region', '지역', '나라', '국가', '지방', '도'],
+  settlement: ['settlement', '마을', '도시', '고을', '읍', '성'],
+  building: ['building', '건물', '집', '궁', '절', '관아', '객잔'],
+  natural: ['natural', '산', '강', '바다', '숲', '동굴', '섬'],
+  other: ['other', '기타']
+};
+
+const FACTION_TYPE_KEYWORDS: Record<Faction['type'], string[]> = {
+  sect: ['sect', '문파', '종파', '파'],
+  gang: ['gang', '도적', '산적', '무리', '당'],
+  government: ['government', '조정', '관청', '정부', '나라', '관'],
+  family: ['family', '가문', '집안', '세가'],
+  religious: ['religious', '종교', '교단', '사찰'],
+  other: ['other', '기타']
+};
+
+const ITEM_TYPE_KEYWORDS: Record<Item['type'], string[]> = {
+  weapon: ['weapon', '무기', '검', '칼', '도', '활', '창'],
+  artifact: ['artifact', '신물', '법보', '유물', '부적', '영물'],
+  document: ['document', '문서', '책', '서책', '비급', '서신', '편지'],
+  treasure: ['treasure', '보물', '재물', '금은', '보화'],
+  other: ['other', '기타']
+};
+
+// Matched against the start of each word of a relationship description
+const RELATIONSHIP_KEYWORDS: Record<Exclude<Relationship['type'], 'other'>, string[]> = {
+  enemy: ['enemy', '적', '원수', '악연', '숙적'],
+  rival: ['rival', '라이벌', '경쟁', '맞수'],
+  mentor: ['mentor', '스승', '제자', '사부', '사제'],
+  love: ['love', '연인', '사랑', '정인', '연모', '짝사랑', '정혼'],
+  family: [
+    'family', '가족', '아버지', '어머니', '부친', '모친', '형', '동생', '누이', '오빠', '언니',
+    '아들', '딸', '자식', '남편', '아내', '부인', '첩', '조부', '할아버지', '할머니', '숙부', '삼촌'
+  ],
+  friend: ['friend', '친구', '벗', '동료', '동지', '의형제']
+};
+
+const MAX_EXCERPT_LENGTH = 200;
+
+/**
+ * Raised when a document cannot be read as a setting note at all
+ * Used by: Backend - 400 responses for unusable author documents
+ * 
+ * @tags error, import
+ */
+export class SettingNoteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingNoteImportError';
+  }
+}
+
+interface ImportContext {
+  unmapped: UnmappedField[];
+}
+
+/**
+ * Imports an author's setting document, detecting the format when not given
+ * Markdown: the first heading is the title, second-level headings are sections, third-level
+ * headings are characters or other entries, bullets are fields or list items, tables are rows
+ * Anything that does not fit the setting note is listed in unmapped rather than guessed at
+ * Used by: Backend - /api/analyze and /api/setting-note/import
+ * 
+ * @tags import, setting-note
+ */
+export function importSettingNote(content: string, format?: SettingDocumentFormat): SettingNoteImport {
+  const detected = format ?? detectFormat(content);
+  const document = detected === 'yaml' ? parseYamlDocument(content) : parseMarkdownDocument(content);
+  const context: ImportContext = { unmapped: [] };
+  const settingNote = mapSettingNote(document, context);
+
+  if (settingNote.characters.length === 0 && settingNote.world_rules.length === 0 && settingNote.timeline.length === 0) {
+    throw new SettingNoteImportError('No characters, world rules or timeline events found in the document');
+  }
+  const validation = SettingNoteSchema.safeParse(settingNote);
+  if (!validation.success) {
+    throw new SettingNoteImportError(`Imported setting note is invalid: ${validation.error.message}`);
+  }
+
+  return { format: detected, setting_note: settingNote, unmapped: context.unmapped };
+}
+
+/**
+ * Treats a document as YAML when it parses to a mapping with at least one setting note section
+ * Used by: Backend - importSettingNote without an explicit format
+ * 
+ * @tags import, format-detection
+ */
+function detectFormat(content: string): SettingDocumentFormat {
+  try {
+    const parsed = yaml.load(content, { schema: yaml.CORE_SCHEMA });
+    if (isRecord(parsed) && Object.keys(parsed).some(key => findField(NOTE_FIELDS, key))) return 'yaml';
+  } catch {
+    // Markdown prose is rarely valid YAML
+  }
+  return 'markdown';
+}
+
+function parseYamlDocument(content: string): DocumentRecord {
+  let parsed: unknown;
+  try {
+    // The core schema keeps dates such as 1443-01-01 as text
+    parsed = yaml.load(content, { schema: yaml.CORE_SCHEMA });
+  } catch (error) {
+    throw new SettingNoteImportError(`Invalid YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(parsed)) {
+    throw new SettingNoteImportError('A YAML setting document must be a mapping of sections');
+  }
+  return parsed;
+}
+
+// ========== Markdown ==========
+
+interface MarkdownSection {
+  level: number;
+  heading: string;
+  lines: string[];
+  children: MarkdownSection[];
+}
+
+interface Bullet {
+  text: string;
+  indent: number;
+  children: Bullet[];
+}
+
+interface MarkdownBlock {
+  paragraphs: string[];
+  bullets: Bullet[];
+  rows: DocumentRecord[];
+}
+
+/**
+ * Reads a Markdown document into the same shape as a YAML one
+ * Used by: Backend - importSettingNote
+ * 
+ * @tags import, markdown
+ */
+function parseMarkdownDocument(content: string): DocumentRecord {
+  let text = content.normalize('NFC').replace(/\r\n?/g, '\n');
+  const document: DocumentRecord = {};
+
+  // YAML front matter holds top-level fields such as the title and genre
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    Object.assign(document, parseYamlDocument(frontMatter[1]));
+    text = text.slice(frontMatter[0].length);
+  }
+
+  const root = parseSections(text.split('\n'));
+  const preamble = [...root.lines];
+  const sections: MarkdownSection[] = [];
+
+  // A first-level heading is the title unless it names a section itself
+  for (const section of root.children) {
+    if (findField(NOTE_FIELDS, section.heading)) {
+      sections.push(section);
+    } else if (document.title === undefined && section.level === 1) {
+      document.title = section.heading;
+      preamble.push(...section.lines);
+      sections.push(...section.children);
+    } else {
+      sections.push(section);
+    }
+  }
+
+  const prose: string[] = [];
+  for (const line of preamble) {
+    const text = cleanInline(line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, ''));
+    if (!text) continue;
+    const field = splitField(text);
+    if (field && findField(NOTE_FIELDS, field.key)) document[field.key] = field.value;
+    else prose.push(text);
+  }
+  if (prose.length > 0) document.summary ??= prose.join('\n');
+
+  for (const section of sections) {
+    const value = sectionValue(section);
+    const previous = document[section.heading];
+    document[section.heading] = previous === undefined ? value : [...toArray(previous), ...toArray(value)];
+  }
+  return document;
+}
+
+function parseSections(lines: string[]): MarkdownSection {
+  const root: MarkdownSection = { level: 0, heading: '', lines: [], children: [] };
+  const stack = [root];
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!heading) {
+      stack[stack.length - 1].lines.push(line);
+      continue;
+    }
+    const section: MarkdownSection = {
+      level: heading[1].length,
+      heading: cleanInline(heading[2]),
+      lines: [],
+      children: []
+    };
+    while (stack[stack.length - 1].level >= section.level) stack.pop();
+    stack[stack.length - 1].children.push(section);
+    stack.push(section);
+  }
+  return root;
+}
+
+/**
+ * Splits the body of a section into paragraphs, nested bullets and table rows
+ * Used by: Backend - Markdown import
+ * 
+ * @tags import, markdown, bullets, tables
+ */
+function parseBlock(lines: string[]): MarkdownBlock {
+  const block: MarkdownBlock = { paragraphs: [], bullets: [], rows: [] };
+  const stack: Bullet[] = [];
+  let paragraph: string[] = [];
+  let table: string[][] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) block.paragraphs.push(paragraph.join('\n'));
+    paragraph = [];
+  };
+  const endTable = () => {
+    // Header row, then the |---| separator, then data rows
+    const [header, , ...rows] = table;
+    for (const row of header ? rows : []) {
+      block.rows.push(Object.fromEntries(header.map((cell, index) => [cell, row[index] ?? ''])));
+    }
+    table = [];
+  };
+
+  for (const line of lines) {
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      endParagraph();
+      table.push(line.trim().slice(1, -1).split('|').map(cell => cleanInline(cell)));
+      continue;
+    }
+    endTable();
+
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      endParagraph();
+      const node: Bullet = { text: cleanInline(bullet[2]), indent: bullet[1].replace(/\t/g, '  ').length, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].indent >= node.indent) stack.pop();
+      (stack.length > 0 ? stack[stack.length - 1].children : block.bullets).push(node);
+      stack.push(node);
+    } else if (!line.trim()) {
+      endParagraph();
+      stack.length = 0;
+    } else if (stack.length > 0 && /^\s/.test(line)) {
+      // Indented continuation of the previous bullet
+      stack[stack.length - 1].text += ` ${cleanInline(line)}`;
+    } else {
+      stack.length = 0;
+      paragraph.push(cleanInline(line));
+    }
+  }
+  endParagraph();
+  endTable();
+  return block;
+}
+
+/**
+ * Value of a section: its table rows, bullets and subsection entries, or its prose
+ * Used by: Backend - Markdown import of sections and fourth-level headings
+ * 
+ * @tags import, markdown
+ */
+function sectionValue(section: MarkdownSection): DocumentValue {
+  const block = parseBlock(section.lines);
+  const values: DocumentValue[] = [
+    ...block.rows,
+    ...block.bullets.map(bulletValue),
+    ...section.children.map(sectionRecord)
+  ];
+  if (values.length > 0) return values;
+  return block.paragraphs.join('\n\n') || undefined;
+}
+
+/**
+ * Reads a subsection as one entry: the heading is its name, `키: 값` bullets are fields,
+ * other bullets are items and prose is the description
+ * Used by: Backend - Markdown import of characters and other entries
+ * 
+ * @tags import, markdown
+ */
+function sectionRecord(section: MarkdownSection): DocumentRecord {
+  const block = parseBlock(section.lines);
+  const record: DocumentRecord = { name: section.heading };
+  const items = addBulletFields(record, block.bullets);
+  items.push(...block.rows);
+
+  if (block.paragraphs.length > 0) record.description = block.paragraphs.join('\n\n');
+  for (const child of section.children) {
+    record[child.heading] = sectionValue(child);
+  }
+  if (items.length > 0) record.items = items;
+  return record;
+}
+
+function bulletValue(bullet: Bullet): DocumentValue {
+  if (bullet.children.length === 0) return bullet.text;
+  const record: DocumentRecord = { value: bullet.text };
+  const items = addBulletFields(record, bullet.children);
+  if (items.length > 0) record.items = items;
+  return record;
+}
+
+/**
+ * Adds `키: 값` bullets to a record and returns the other bullets
+ * A field bullet without a value takes its nested bullets as a list
+ * Used by: Backend - Markdown import
+ * 
+ * @tags import, markdown, bullets
+ */
+function addBulletFields(record: DocumentRecord, bullets: Bullet[]): DocumentValue[] {
+  const items: DocumentValue[] = [];
+  for (const bullet of bullets) {
+    const field = splitField(bullet.text);
+    if (!field || (!field.value && bullet.children.length === 0)) {
+      items.push(bulletValue(bullet));
+      continue;
+    }
+    const children = bullet.children.map(bulletValue);
+    const value: DocumentValue = field.value ? (children.length > 0 ? [field.value, ...children] : field.value) : children;
+    const previous = record[field.key];
+    record[field.key] = previous === undefined ? value : [...toArray(previous), ...toArray(value)];
+  }
+  return items;
+}
+
+// ========== Mapping ==========
+
+function mapSettingNote(document: DocumentRecord, context: ImportContext): SettingNote {
+  const fields = readFields(document, NOTE_FIELDS, '', context);
+  const characters = mapEntries(fields.characters, 'characters', 'name', context, mapCharacter);
+
+  const timeline = mapEntries(fields.timeline, 'timeline', 'timestamp', context, mapTimelineEvent)
+    .map(event => event.involved_characters.length > 0 ? event : { ...event, involved_characters: findMentionedCharacters(event.event, characters) });
+  const { timeline: ordered, conflicts } = orderTimeline(timeline);
+
+  const optional = <T>(value: DocumentValue, path: string, map: EntryMapper<T>) =>
+    value === undefined ? undefined : mapEntries(value, path, 'name', context, map);
+  const locations = optional(fields.locations, 'locations', mapLocation);
+  const factions = optional(fields.factions, 'factions', mapFaction);
+  const items = optional(fields.items, 'items', mapItem);
+  const powerSystems = optional(fields.power_systems, 'power_systems', mapPowerSystem);
+
+  return {
+    title: toText(fields.title, 'title', context) ?? '',
+    genre: toList(fields.genre, 'genre', context),
+    characters,
+    world_rules: mapWorldRules(fields.world_rules, context),
+    timeline: ordered,
+    summary: toText(fields.summary, 'summary', context) ?? '',
+    ...(conflicts.length > 0 ? { timeline_conflicts: conflicts } : {}),
+    ...(locations ? { locations } : {}),
+    ...(factions ? { factions } : {}),
+    ...(items ? { items } : {}),
+    ...(powerSystems ? { power_systems: powerSystems } : {})
+  };
+}
+
+type EntryMapper<T> = (record: DocumentRecord, path: string, context: ImportContext) => T | undefined;
+
+/**
+ * Maps a list of entries, or a mapping keyed by name, skipping entries that cannot be read
+ * Used by: Backend - Every setting note list
+ * 
+ * @tags import, mapping
+ */
+function mapEntries<T>(
+  value: DocumentValue,
+  path: string,
+  keyField: string,
+  context: ImportContext,
+  map: EntryMapper<T>
+): T[] {
+  if (value === undefined || value === null) return [];
+
+  let records: DocumentRecord[];
+  if (Array.isArray(value)) {
+    records = value.map(item => isRecord(item) ? item : { value: item });
+  } else if (isRecord(value)) {
+    // 홍길동: { 역할: 주인공 } or 세종 15년: 길동 출생
+    records = Object.entries(value).map(([key, item]) => ({
+      [keyField]: key,
+      ...(isRecord(item) ? item : { [Array.isArray(item) ? 'items' : 'detail']: item })
+    }));
+  } else {
+    records = [{ value }];
+  }
+
+  return records.flatMap((record, index) => {
+    const mapped = map(record, `${path}[${index}]`, context);
+    return mapped === undefined ? [] : [mapped];
+  });
+}
+
+function mapCharacter(record: DocumentRecord, path: string, context: ImportContext): Character | undefined {
+  const fields = readFields(record, CHARACTER_FIELDS, path, context);
+  const heading = parseNamedHeading(toText(fields.name, `${path}.name`, context) ?? '');
+  if (!heading.name) {
+    report(context, path, 'Character without a name', record);
+    return undefined;
+  }
+
+  const aliases = unique([...heading.aliases, ...toList(fields.aliases, `${path}.aliases`, context)]);
+  const speechPattern = toText(fields.speech_pattern, `${path}.speech_pattern`, context);
+  const taboo = toList(fields.taboo_actions, `${path}.taboo_actions`, context);
+  return {
+    name: heading.name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    role: toEnum(fields.role, ROLE_KEYWORDS, 'supporting', `${path}.role`, context),
+    traits: toList(fields.traits, `${path}.traits`, context),
+    goals: toList(fields.goals, `${path}.goals`, context),
+    relationships: mapEntries(fields.relationships, `${path}.relationships`, 'character', context, mapRelationship),
+    ...(speechPattern ? { speech_pattern: speechPattern } : {}),
+    ...(taboo.length > 0 ? { taboo_actions: taboo } : {})
+  };
+}
+
+function mapRelationship(record: DocumentRecord, path: string, context: ImportContext): Relationship | undefined {
+  const fields = readFields(record, RELATIONSHIP_FIELDS, path, context);
+  let name = toText(fields.character, `${path}.character`, context);
+  let description = toText(fields.description, `${path}.description`, context);
+
+  // 홍판서: 아버지 or 홍판서 (아버지)
+  if (name && fields.type === undefined && description === undefined) {
+    const pair = splitPair(name);
+    if (pair.detail) [name, description] = [pair.name, pair.detail];
+  }
+  if (!name) {
+    report(context, path, 'Relationship without a character', record);
+    return undefined;
+  }
+
+  const typeText = toText(fields.type, `${path}.type`, context);
+  return {
+    character: name,
+    type: findRelationshipType(typeText ?? '') ?? findRelationshipType(description ?? '') ?? 'other',
+    description: description ?? typeText ?? ''
+  };
+}
+
+/**
+ * Maps world rules, expanding entries grouped under a category heading or key
+ * Used by: Backend - Setting note import
+ * 
+ * @tags import, world-rules
+ */
+function mapWorldRules(value: DocumentValue, context: ImportContext): WorldRule[] {
+  const mapRule = (record: DocumentRecord, path: string, category?: DocumentValue): WorldRule[] => {
+    const fields = readFields(record, WORLD_RULE_FIELDS, path, context);
+    if (fields.rules !== undefined && fields.rule === undefined) {
+      // 신분 제도: [규칙, 규칙]
+      return mapEntries(fields.rules, `${path}.rules`, 'rule', context, (entry, entryPath) =>
+        mapRule(entry, entryPath, fields.category ?? category)
+      ).flat();
+    }
+    if (fields.rules !== undefined) report(context, `${path}.rules`, 'Nested list under a rule', fields.rules);
+
+    const text = toText(fields.rule, `${path}.rule`, context);
+    if (!text) {
+      report(context, path, 'World rule without text', record);
+      return [];
+    }
+    // Trailing (핵심) or leading [핵심] marks the importance
+    const leading = text.match(/^\[([^\]]+)\]\s*(.+)$/);
+    const trailing = text.match(/^(.+?)\s*[(（]([^)）]+)[)）]$/);
+    const [markedRule, mark] = leading ? [leading[2], leading[1]] : trailing ? [trailing[1], trailing[2]] : [text];
+    const markedImportance = mark !== undefined ? findKeyword(IMPORTANCE_KEYWORDS, mark) : undefined;
+    const evidence = toText(fields.evidence, `${path}.evidence`, context);
+
+    return [{
+      category: toEnum(fields.category ?? category, CATEGORY_KEYWORDS, 'other', `${path}.category`, context),
+      rule: markedImportance ? markedRule : text,
+      importance: markedImportance && fields.importance === undefined
+        ? markedImportance
+        : toEnum(fields.importance, IMPORTANCE_KEYWORDS, 'medium', `${path}.importance`, context),
+      ...(evidence ? { evidence } : {})
+    }];
+  };
+
+  return mapEntries(value, 'world_rules', 'category', context, (record, path) => mapRule(record, path)).flat();
+}
+
+function mapTimelineEvent(record: DocumentRecord, path: string, context: ImportContext): TimelineEvent | undefined {
+  const fields = readFields(record, TIMELINE_FIELDS, path, context);
+  let timestamp = toText(fields.timestamp, `${path}.timestamp`, context);
+  let event = toText(fields.event, `${path}.event`, context);
+
+  // 세종 15년: 길동 출생
+  if (timestamp === undefined && event) {
+    const field = splitField(event);
+    if (field?.value) [timestamp, event] = [field.key, field.value];
+  }
+  if (!event) {
+    report(context, path, 'Timeline entry without an event', record);
+    return undefined;
+  }
+
+  const after = toList(fields.after, `${path}.after`, context);
+  return {
+    timestamp: timestamp ?? '',
+    event,
+    involved_characters: toList(fields.involved_characters, `${path}.involved_characters`, context),
+    importance: toEnum(fields.importance, IMPORTANCE_KEYWORDS, 'medium', `${path}.importance`, context),
+    ...(after.length > 0 ? { after } : {})
+  };
+}
+
+function mapLocation(record: DocumentRecord, path: string, context: ImportContext): Location | undefined {
+  const fields = readFields(record, LOCATION_FIELDS, path, context);
+  const heading = parseNamedHeading(toText(fields.name, `${path}.name`, context) ?? '');
+  if (!heading.name) {
+    report(context, path, 'Location without a name', record);
+    return undefined;
+  }
+
+  const aliases = unique([...heading.aliases, ...toList(fields.aliases, `${path}.aliases`, context)]);
+  const partOf = toText(fields.part_of, `${path}.part_of`, context);
+  const connections = mapEntries(fields.connections, `${path}.connections`, 'location', context, mapConnection);
+  return {
+    name: heading.name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    type: toEnum(fields.type, LOCATION_TYPE_KEYWORDS, 'other', `${path}.type`, context),
+    description: toText(fields.description, `${path}.description`, context) ?? '',
+    ...(partOf ? { part_of: partOf } : {}),
+    ...(connections.length > 0 ? { connections } : {})
+  };
+}
+
+function mapConnection(record: DocumentRecord, path: string, context: ImportContext): LocationConnection | undefined {
+  const pair = readPair(record, ['location', 'name', '장소', 'value'], ['description', '설명', '경로', 'detail'], path, context);
+  return pair && { location: pair.name, description: pair.detail ?? '' };
+}
+
+function mapFaction(record: DocumentRecord, path: string, context: ImportContext): Faction | undefined {
+  const fields = readFields(record, FACTION_FIELDS, path, context);
+  const heading = parseNamedHeading(toText(fields.name, `${path}.name`, context) ?? '');
+  if (!heading.name) {
+    report(context, path, 'Faction without a name', record);
+    return undefined;
+  }
+
+  const aliases = unique([...heading.aliases, ...toList(fields.aliases, `${path}.aliases`, context)]);
+  const leader = toText(fields.leader, `${path}.leader`, context);
+  const ranks = toList(fields.ranks, `${path}.ranks`, context);
+  const base = toText(fields.base, `${path}.base`, context);
+  const parent = toText(fields.parent, `${path}.parent`, context);
+  return {
+    name: heading.name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    type: toEnum(fields.type, FACTION_TYPE_KEYWORDS, 'other', `${path}.type`, context),
+    description: toText(fields.description, `${path}.description`, context) ?? '',
+    ...(leader ? { leader } : {}),
+    ...(ranks.length > 0 ? { ranks } : {}),
+    members: mapEntries(fields.members, `${path}.members`, 'character', context, mapMember),
+    ...(base ? { base } : {}),
+    ...(parent ? { parent } : {})
+  };
+}
+
+function mapMember(record: DocumentRecord, path: string, context: ImportContext): FactionMember | undefined {
+  const pair = readPair(record, ['character', 'name', '이름', '인물', 'value'], ['rank', '계급', '직급', 'detail'], path, context);
+  return pair && { character: pair.name, ...(pair.detail ? { rank: pair.detail } : {}) };
+}
+
+function mapItem(record: DocumentRecord, path: string, context: ImportContext): Item | undefined {
+  const fields = readFields(record, ITEM_FIELDS, path, context);
+  const heading = parseNamedHeading(toText(fields.name, `${path}.name`, context) ?? '');
+  if (!heading.name) {
+    report(context, path, 'Item without a name', record);
+    return undefined;
+  }
+
+  const aliases = unique([...heading.aliases, ...toList(fields.aliases, `${path}.aliases`, context)]);
+  const abilities = toList(fields.abilities, `${path}.abilities`, context);
+  return {
+    name: heading.name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    type: toEnum(fields.type, ITEM_TYPE_KEYWORDS, 'other', `${path}.type`, context),
+    description: toText(fields.description, `${path}.description`, context) ?? '',
+    ...(abilities.length > 0 ? { abilities } : {}),
+    holders: mapEntries(fields.holders, `${path}.holders`, 'character', context, mapHolder)
+  };
+}
+
+function mapHolder(record: DocumentRecord, path: string, context: ImportContext): ItemHolder | undefined {
+  const pair = readPair(record, ['character', 'name', '이름', '인물', 'value'], ['since', '시점', '부터', 'detail'], path, context);
+  return pair && { character: pair.name, ...(pair.detail ? { since: pair.detail } : {}) };
+}
+
+function mapPowerSystem(record: DocumentRecord, path: string, context: ImportContext): PowerSystem | undefined {
+  const fields = readFields(record, POWER_SYSTEM_FIELDS, path, context);
+  const name = toText(fields.name, `${path}.name`, context);
+  if (!name) {
+    report(context, path, 'Power system without a name', record);
+    return undefined;
+  }
+
+  return {
+    name,
+    description: toText(fields.description, `${path}.description`, context) ?? '',
+    ranks: toList(fields.ranks, `${path}.ranks`, context),
+    rules: toList(fields.rules, `${path}.rules`, context),
+    practitioners: mapEntries(fields.practitioners, `${path}.practitioners`, 'character', context, mapPractitioner)
+  };
+}
+
+function mapPractitioner(record: DocumentRecord, path: string, context: ImportContext): Practitioner | undefined {
+  const pair = readPair(record, ['character', 'name', '이름', '인물', 'value'], ['rank', '경지', '등급', '단계', 'detail'], path, context);
+  if (pair && !pair.detail) {
+    report(context, path, 'Practitioner without a rank', record);
+    return undefined;
+  }
+  return pair && { character: pair.name, rank: pair.detail ?? '' };
+}
+
+/**
+ * Reads a name with one detail, from fields or from `이름: 상세` and `이름 (상세)` text
+ * Used by: Backend - Connections, members, holders and practitioners
+ * 
+ * @tags import, mapping
+ */
+function readPair(
+  record: DocumentRecord,
+  nameAliases: string[],
+  detailAliases: string[],
+  path: string,
+  context: ImportContext
+): { name: string; detail?: string } | undefined {
+  const fields = readFields(record, { name: nameAliases, detail: detailAliases }, path, context);
+  const name = toText(fields.name, path, context);
+  const detail = toText(fields.detail, path, context);
+  if (!name) {
+    report(context, path, 'Entry without a name', record);
+    return undefined;
+  }
+  return detail === undefined ? splitPair(name) : { name, detail };
+}
+
+// ========== Values ==========
+
+function readFields<F extends string>(
+  record: DocumentRecord,
+  fields: Record<F, string[]>,
+  path: string,
+  context: ImportContext
+): Partial<Record<F, DocumentValue>> {
+  const result: Partial<Record<F, DocumentValue>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const field = findField(fields, key);
+    if (!field) {
+      report(context, fieldPath, 'Unknown field', value);
+    } else if (result[field] !== undefined) {
+      report(context, fieldPath, `Duplicate of ${field}`, value);
+    } else if (value !== undefined && value !== null) {
+      result[field] = value;
+    }
+  }
+  return result;
+}
+
+function findField<F extends string>(fields: Record<F, string[]>, key: string): F | undefined {
+  const normalized = normalizeKey(key);
+  return (Object.keys(fields) as F[]).find(field =>
+    fields[field].some(alias => normalizeKey(alias) === normalized)
+  );
+}
+
+function toText(value: DocumentValue, path: string, context: ImportContext): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map((item, index) => toText(item, `${path}[${index}]`, context)).filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+  report(context, path, 'Expected text', value);
+  return undefined;
+}
+
+function toList(value: DocumentValue, path: string, context: ImportContext): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') {
+    return value.split(/[,，、;\n]/).map(item => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => {
+      const text = toText(item, `${path}[${index}]`, context);
+      return text ? [text] : [];
+    });
+  }
+  const text = toText(value, path, context);
+  return text ? [text] : [];
+}
+
+/**
+ * Maps an author's wording onto an enum, reporting values it falls back on
+ * Used by: Backend - Roles, importance, categories and entity types
+ * 
+ * @tags import, enums
+ */
+function toEnum<E extends string>(
+  value: DocumentValue,
+  keywords: Record<E, string[]>,
+  fallback: E,
+  path: string,
+  context: ImportContext
+): E {
+  const text = toText(value, path, context);
+  if (!text) return fallback;
+  const found = findKeyword(keywords, text);
+  if (!found) report(context, path, `Unrecognized value, using ${fallback}`, text);
+  return found ?? fallback;
+}
+
+function findKeyword<E extends string>(keywords: Record<E, string[]>, text: string): E | undefined {
+  const normalized = normalizeKey(text);
+  const values = Object.keys(keywords) as E[];
+  return values.find(value => value === normalized) ??
+    // Single-syllable keywords such as 상 or 산 only match on their own
+    values.find(value => keywords[value].some(keyword =>
+      keyword.length > 1 ? normalized.includes(keyword) : normalized === keyword
+    ));
+}
+
+function findRelationshipType(text: string): Relationship['type'] | undefined {
+  const words = text.toLowerCase().split(/[\s,·/()\-—:]+/).filter(Boolean);
+  const types = Object.keys(RELATIONSHIP_KEYWORDS) as (keyof typeof RELATIONSHIP_KEYWORDS)[];
+  return types.find(type => words.some(word => RELATIONSHIP_KEYWORDS[type].some(keyword => word.startsWith(keyword))));
+}
+
+/**
+ * Characters named in an event's text, by name, alias or given name
+ * Used by: Backend - Timeline rows that do not list their characters
+ * 
+ * @tags import, timeline, names
+ */
+function findMentionedCharacters(event: string, characters: Character[]): string[] {
+  const text = normalizeCharacterName(event);
+  return characters
+    .filter(character => {
+      const keys = [character.name, ...(character.aliases ?? [])].map(normalizeCharacterName);
+      const given = getGivenName(normalizeCharacterName(character.name));
+      return [...keys, ...(given ? [given] : [])].some(key => key.length >= 2 && text.includes(key));
+    })
+    .map(character => character.name);
+}
+
+// 홍길동 (길동, 홍 도령)
+function parseNamedHeading(text: string): { name: string; aliases: string[] } {
+  const match = text.match(/^(.+?)\s*[(（]([^)）]+)[)）]\s*$/);
+  if (!match) return { name: text.trim(), aliases: [] };
+  return { name: match[1].trim(), aliases: match[2].split(/[,，、\/]/).map(alias => alias.trim()).filter(Boolean) };
+}
+
+// 홍판서: 아버지, 홍판서 (아버지) or 홍판서 - 아버지
+function splitPair(text: string): { name: string; detail?: string } {
+  const match = text.match(/^(.+?)\s*[:：]\s*(.+)$/) ??
+    text.match(/^(.+?)\s*[(（]([^)）]+)[)）]\s*$/) ??
+    text.match(/^(.+?)\s+[-—]\s+(.+)$/);
+  return match ? { name: match[1].trim(), detail: match[2].trim() } : { name: text.trim() };
+}
+
+// `역할: 주인공`, with keys short enough not to be a sentence containing a colon
+function splitField(text: string): { key: string; value: string } | undefined {
+  const match = text.match(/^([^:：]{1,20}?)\s*[:：]\s*(.*)$/);
+  return match ? { key: match[1].trim(), value: match[2].trim() } : undefined;
+}
+
+function cleanInline(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '')
+    .trim();
+}
+
+function normalizeKey(key: string): string {
+  return key.normalize('NFC').toLowerCase().replace(/[\s_\-*`]/g, '');
+}
+
+function report(context: ImportContext, path: string, reason: string, value?: DocumentValue): void {
+  const excerpt = value === undefined ? undefined : typeof value === 'string' ? value : JSON.stringify(value);
+  context.unmapped.push({
+    path,
+    reason,
+    ...(excerpt ? { value: excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}…` : excerpt } : {})
+  });
+}
+
+function isRecord(value: unknown): value is DocumentRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toArray(value: DocumentValue): DocumentValue[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
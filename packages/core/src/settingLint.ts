@@ -0,0 +1,354 @@
+/**
+ * Deterministic setting note linting: structural problems found without a model call
+ * Used by: Backend - /api/analyze before the consistency check and series bible writes
+ * 
+ * @tags lint, setting-note, validation
+ */
+
+import { buildNameIndex, normalizeCharacterName } from './names';
+import { normalizeText } from './sampling';
+import { isSameFact } from './settingMerge';
+import type { Character, Relationship, SettingNote, SettingNoteLintWarning } from './types';
+
+// Relationships the other character is expected to state back
+const RECIPROCAL_TYPES: Relationship['type'][] = ['family', 'friend', 'enemy', 'rival', 'mentor'];
+
+// Relationship types that cannot hold while the other side calls it enmity
+const FRIENDLY_TYPES: Relationship['type'][] = ['friend', 'love', 'mentor'];
+
+export const RELATIONSHIP_LABELS: Record<Relationship['type'], string> = {
+  family: '가족',
+  friend: '친구',
+  enemy: '적',
+  love: '연인',
+  mentor: '스승/제자',
+  rival: '라이벌',
+  other: '기타'
+};
+
+interface StatedRelationship {
+  path: string;
+  type: Relationship['type'];
+}
+
+/**
+ * Lists the structural problems of a setting note, in field order
+ * The note is never changed; missing or contradictory data is reported instead of filled in
+ * Used by: Backend - /api/analyze and the series bible routes
+ * 
+ * @tags lint, setting-note
+ */
+export function lintSettingNote(settingNote: SettingNote): SettingNoteLintWarning[] {
+  const findCharacter = buildNameIndex(settingNote.characters);
+  return [
+    ...lintCharacters(settingNote.characters, findCharacter),
+    ...lintWorldRules(settingNote),
+    ...lintTimeline(settingNote, findCharacter),
+    ...lintEntities(settingNote, findCharacter)
+  ];
+}
+
+function lintCharacters(
+  characters: Character[],
+  findCharacter: (name: string) => Character | undefined
+): SettingNoteLintWarning[] {
+  const warnings: SettingNoteLintWarning[] = [];
+  const owners = new Map<string, number>();
+  const stated = new Map<Character, Map<Character, StatedRelationship[]>>();
+
+  const protagonists = characters.filter(character => character.role === 'protagonist');
+  if (protagonists.length !== 1) {
+    warnings.push({
+      rule: 'protagonist_count',
+      severity: 'warning',
+      path: 'characters',
+      message: protagonists.length === 0
+        ? '주인공으로 지정된 인물이 없습니다'
+        : `주인공이 ${protagonists.length}명입니다: ${protagonists.map(character => character.name).join(', ')}`
+    });
+  }
+
+  characters.forEach((character, index) => {
+    const path = `characters[${index}]`;
+
+    for (const name of [character.name, ...(character.aliases ?? [])]) {
+      const key = normalizeCharacterName(name);
+      const owner = owners.get(key);
+      if (owner !== undefined && owner !== index) {
+        warnings.push({
+          rule: 'duplicate_character',
+          severity: 'warning',
+          path,
+          message: `'${name}'(이)라는 이름이 ${characters[owner].name}와(과) ${character.name}에 모두 쓰였습니다`
+        });
+      } else if (key) {
+        owners.set(key, index);
+      }
+    }
+
+    if (character.role !== 'minor' && character.goals.length === 0) {
+      warnings.push({
+        rule: 'missing_goals',
+        severity: 'info',
+        path: `${path}.goals`,
+        message: `${character.name}의 목표가 정의되지 않았습니다`
+      });
+    }
+    if (character.role === 'protagonist' && !character.speech_pattern) {
+      warnings.push({
+        rule: 'missing_speech_pattern',
+        severity: 'info',
+        path: `${path}.speech_pattern`,
+        message: `주인공 ${character.name}의 말투가 정의되지 않았습니다`
+      });
+    }
+
+    character.relationships.forEach((relationship, relationshipIndex) => {
+      const relationshipPath = `${path}.relationships[${relationshipIndex}]`;
+      const target = findCharacter(relationship.character);
+      if (!target) {
+        warnings.push({
+          rule: 'unknown_character',
+          severity: 'warning',
+          path: relationshipPath,
+          message: `${character.name}의 관계 대상 '${relationship.character}'이(가) 인물 목록에 없습니다`
+        });
+      } else if (target === character) {
+        warnings.push({
+          rule: 'self_relationship',
+          severity: 'warning',
+          path: relationshipPath,
+          message: `${character.name}이(가) 자기 자신과의 관계를 가지고 있습니다`
+        });
+      } else {
+        const byTarget = stated.get(character) ?? new Map<Character, StatedRelationship[]>();
+        byTarget.set(target, [...(byTarget.get(target) ?? []), { path: relationshipPath, type: relationship.type }]);
+        stated.set(character, byTarget);
+      }
+    });
+  });
+
+  return [...warnings, ...lintRelationshipPairs(stated)];
+}
+
+/**
+ * Compares what each pair of characters says about the other
+ * Used by: Backend - lintCharacters
+ * 
+ * @tags lint, relationships
+ */
+function lintRelationshipPairs(
+  stated: Map<Character, Map<Character, StatedRelationship[]>>
+): SettingNoteLintWarning[] {
+  const warnings: SettingNoteLintWarning[] = [];
+  const compared = new Set<string>();
+
+  for (const [character, byTarget] of stated) {
+    for (const [target, relationships] of byTarget) {
+      const reverse = stated.get(target)?.get(character) ?? [];
+
+      if (reverse.length === 0) {
+        for (const relationship of relationships.filter(({ type }) => RECIPROCAL_TYPES.includes(type))) {
+          warnings.push({
+            rule: 'asymmetric_relationship',
+            severity: 'info',
+            path: relationship.path,
+            message: `${character.name}은(는) ${target.name}와(과) ${RELATIONSHIP_LABELS[relationship.type]} 관계이지만 ${target.name} 쪽에는 이 관계가 없습니다`
+          });
+        }
+        continue;
+      }
+
+      // Each contradictory pair is reported once, from the side listed first
+      const pairKey = [character.name, target.name].sort().join('\u0000');
+      if (compared.has(pairKey)) continue;
+      compared.add(pairKey);
+
+      const isFriendly = ({ type }: StatedRelationship) => FRIENDLY_TYPES.includes(type);
+      const isHostile = ({ type }: StatedRelationship) => type === 'enemy';
+      const [own, other] = relationships.some(isFriendly) && reverse.some(isHostile)
+        ? [relationships.find(isFriendly), reverse.find(isHostile)]
+        : [relationships.find(isHostile), reverse.find(isFriendly)];
+      if (own && other) {
+        warnings.push({
+          rule: 'contradictory_relationship',
+          severity: 'warning',
+          path: own.path,
+          message: `${character.name}은(는) ${target.name}을(를) ${RELATIONSHIP_LABELS[own.type]}(으)로, ${target.name}은(는) ${character.name}을(를) ${RELATIONSHIP_LABELS[other.type]}(으)로 봅니다`
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function lintWorldRules(settingNote: SettingNote): SettingNoteLintWarning[] {
+  const warnings: SettingNoteLintWarning[] = [];
+
+  settingNote.world_rules.forEach((rule, index) => {
+    const path = `world_rules[${index}]`;
+    const duplicate = settingNote.world_rules
+      .slice(0, index)
+      .findIndex(other => isSameFact(other.rule, rule.rule));
+    if (duplicate !== -1) {
+      warnings.push({
+        rule: 'duplicate_world_rule',
+        severity: 'warning',
+        path,
+        message: `세계관 규칙 '${rule.rule}'이(가) world_rules[${duplicate}]와 중복됩니다`
+      });
+    }
+    if (rule.importance === 'critical' && !rule.evidence?.trim()) {
+      warnings.push({
+        rule: 'missing_evidence',
+        severity: 'info',
+        path: `${path}.evidence`,
+        message: `핵심 규칙 '${rule.rule}'에 근거가 없습니다`
+      });
+    }
+  });
+
+  return warnings;
+}
+
+function lintTimeline(
+  settingNote: SettingNote,
+  findCharacter: (name: string) => Character | undefined
+): SettingNoteLintWarning[] {
+  const warnings: SettingNoteLintWarning[] = [];
+
+  settingNote.timeline.forEach((event, index) => {
+    const path = `timeline[${index}]`;
+    const duplicate = settingNote.timeline
+      .slice(0, index)
+      .findIndex(other =>
+        normalizeText(other.timestamp) === normalizeText(event.timestamp) && isSameFact(other.event, event.event)
+      );
+    if (duplicate !== -1) {
+      warnings.push({
+        rule: 'duplicate_timeline_event',
+        severity: 'warning',
+        path,
+        message: `사건 '${event.event}'이(가) timeline[${duplicate}]와 중복됩니다`
+      });
+    }
+
+    event.involved_characters.forEach((name, characterIndex) => {
+      if (findCharacter(name)) return;
+      warnings.push({
+        rule: 'unknown_character',
+        severity: 'warning',
+        path: `${path}.involved_characters[${characterIndex}]`,
+        message: `사건 '${event.event}'의 등장인물 '${name}'이(가) 인물 목록에 없습니다`
+      });
+    });
+  });
+
+  (settingNote.timeline_conflicts ?? []).forEach((conflict, index) => {
+    warnings.push({
+      rule: 'timeline_conflict',
+      severity: 'warning',
+      path: `timeline_conflicts[${index}]`,
+      message: conflict.description
+    });
+  });
+
+  return warnings;
+}
+
+/**
+ * Checks that locations, factions, items and power systems refer to defined characters,
+ * places and ranks
+ * Undefined places and factions are only informational; notes rarely list every one
+ * Used by: Backend - lintSettingNote
+ * 
+ * @tags lint, entities, references
+ */
+function lintEntities(
+  settingNote: SettingNote,
+  findCharacter: (name: string) => Character | undefined
+): SettingNoteLintWarning[] {
+  const warnings: SettingNoteLintWarning[] = [];
+  const locations = settingNote.locations ?? [];
+  const factions = settingNote.factions ?? [];
+  const hasLocation = buildEntityIndex(locations);
+  const hasFaction = buildEntityIndex(factions);
+
+  const checkCharacter = (name: string, path: string, owner: string) => {
+    if (findCharacter(name)) return;
+    warnings.push({
+      rule: 'unknown_character',
+      severity: 'warning',
+      path,
+      message: `${owner}에 나오는 '${name}'이(가) 인물 목록에 없습니다`
+    });
+  };
+  const checkLocation = (name: string, path: string, owner: string) => {
+    if (hasLocation(name)) return;
+    warnings.push({
+      rule: 'unknown_reference',
+      severity: 'info',
+      path,
+      message: `${owner}에 나오는 장소 '${name}'이(가) 장소 목록에 없습니다`
+    });
+  };
+  const checkRank = (rank: string, ranks: string[] | undefined, path: string, owner: string) => {
+    if (!ranks?.length || ranks.some(known => normalizeText(known) === normalizeText(rank))) return;
+    warnings.push({
+      rule: 'unknown_rank',
+      severity: 'warning',
+      path,
+      message: `${owner}에 없는 등급 '${rank}'이(가) 쓰였습니다`
+    });
+  };
+
+  locations.forEach((location, index) => {
+    const path = `locations[${index}]`;
+    if (location.part_of) checkLocation(location.part_of, `${path}.part_of`, location.name);
+    (location.connections ?? []).forEach((connection, connectionIndex) =>
+      checkLocation(connection.location, `${path}.connections[${connectionIndex}]`, location.name)
+    );
+  });
+
+  factions.forEach((faction, index) => {
+    const path = `factions[${index}]`;
+    if (faction.leader) checkCharacter(faction.leader, `${path}.leader`, faction.name);
+    faction.members.forEach((member, memberIndex) => {
+      checkCharacter(member.character, `${path}.members[${memberIndex}]`, faction.name);
+      if (member.rank) checkRank(member.rank, faction.ranks, `${path}.members[${memberIndex}].rank`, faction.name);
+    });
+    if (faction.base) checkLocation(faction.base, `${path}.base`, faction.name);
+    if (faction.parent && !hasFaction(faction.parent)) {
+      warnings.push({
+        rule: 'unknown_reference',
+        severity: 'info',
+        path: `${path}.parent`,
+        message: `${faction.name}의 상위 세력 '${faction.parent}'이(가) 세력 목록에 없습니다`
+      });
+    }
+  });
+
+  (settingNote.items ?? []).forEach((item, index) => {
+    item.holders.forEach((holder, holderIndex) =>
+      checkCharacter(holder.character, `items[${index}].holders[${holderIndex}]`, item.name)
+    );
+  });
+
+  (settingNote.power_systems ?? []).forEach((system, index) => {
+    system.practitioners.forEach((practitioner, practitionerIndex) => {
+      const path = `power_systems[${index}].practitioners[${practitionerIndex}]`;
+      checkCharacter(practitioner.character, path, system.name);
+      checkRank(practitioner.rank, system.ranks, `${path}.rank`, system.name);
+    });
+  });
+
+  return warnings;
+}
+
+function buildEntityIndex(entities: { name: string; aliases?: string[] }[]): (name: string) => boolean {
+  const keys = new Set(
+    entities.flatMap(entity => [entity.name, ...(entity.aliases ?? [])]).map(normalizeText)
+  );
+  return name => keys.has(normalizeText(name));
+}
@@ -0,0 +1,590 @@
+/**
+ * Merges partial setting notes extracted from consecutive text windows or new chapters
+ * Used by: Backend - Chunked generation and incremental updates of setting notes
+ * 
+ * @tags setting-note, merge, deduplication, map-reduce
+ */
+
+import { buildNameIndex, getGivenName, normalizeCharacterName } from './names';
+import { diceCoefficient, normalizeText } from './sampling';
+import type {
+  BibleLock,
+  Character,
+  CharacterAttribute,
+  CharacterChange,
+  EntityChange,
+  EntityFieldChange,
+  Faction,
+  Item,
+  Location,
+  PowerSystem,
+  SettingNote,
+  SettingNoteDelta,
+  SettingNoteUpdate,
+  TimelineEvent,
+  WorldRule
+} from './types';
+
+// Rules or events in two windows phrased this similarly are the same fact restated
+const FACT_SIMILARITY_THRESHOLD = 0.6;
+
+const IMPORTANCE_ORDER: WorldRule['importance'][] = ['critical', 'high', 'medium', 'low'];
+
+const ROLE_ORDER: Character['role'][] = ['protagonist', 'antagonist', 'supporting', 'minor'];
+
+interface NamedEntity {
+  name: string;
+  aliases?: string[];
+}
+
+type EntityLists = Pick<SettingNote, 'locations' | 'factions' | 'items' | 'power_systems'>;
+
+/**
+ * Merges partial notes in story order, deduplicating characters, world rules and timeline events
+ * The summary is the partial summaries joined in order; callers may replace it with a condensed one
+ * Used by: Backend - SettingBuilder.generateSettingNoteChunked
+ * 
+ * @tags setting-note, merge
+ */
+export function mergeSettingNotes(notes: SettingNote[]): SettingNote {
+  return {
+    title: mostFrequent(notes.map(note => note.title).filter(title => title.trim())) ?? '',
+    genre: rankByFrequency(notes.flatMap(note => note.genre)),
+    characters: mergeCharacters(notes.flatMap(note => note.characters)),
+    world_rules: mergeWorldRules(notes.flatMap(note => note.world_rules)),
+    timeline: mergeTimeline(notes.flatMap(note => note.timeline)),
+    summary: notes.map(note => note.summary.trim()).filter(Boolean).join('\n'),
+    locations: mergeNamed(notes.flatMap(note => note.locations ?? []), mergeLocation),
+    factions: mergeNamed(notes.flatMap(note => note.factions ?? []), mergeFaction),
+    items: mergeNamed(notes.flatMap(note => note.items ?? []), mergeItem),
+    power_systems: mergeNamed(notes.flatMap(note => note.power_systems ?? []), mergePowerSystem)
+  };
+}
+
+/**
+ * Applies the additions proposed for one new chapter to an existing note
+ * Known facts are never rewritten: restated characters, rules and events are skipped,
+ * and only traits and goals the delta names explicitly are removed
+ * Known locations, factions, items and power systems take the chapter's details, and every
+ * field that changes is listed in the changelog
+ * Locked bible fields are left as they are and stay out of the changelog
+ * Used by: Backend - SettingBuilder.updateSettingNote
+ * 
+ * @tags setting-note, incremental-update, changelog
+ */
+export function applySettingNoteDelta(
+  settingNote: SettingNote,
+  delta: SettingNoteDelta,
+  chapter: number,
+  locks: BibleLock[] = []
+): SettingNoteUpdate {
+  const note = structuredClone(settingNote);
+  const isLocked = (field: BibleLock['field']) => locks.some(lock => lock.field === field);
+  const newCharacters: Character[] = [];
+  const changes = new Map<string, CharacterChange>();
+
+  // Matches spelling variants, aliases and given names of known characters
+  const findCharacter = (name: string) => buildNameIndex(note.characters)(name);
+  const canonicalName = (name: string) => findCharacter(name)?.name ?? name;
+
+  const applyChange = (update: CharacterChange) => {
+    const character = findCharacter(update.name);
+    if (!character) return;
+
+    const change = changes.get(character.name) ?? {
+      name: character.name,
+      added_traits: [],
+      removed_traits: [],
+      added_goals: [],
+      removed_goals: [],
+      new_relationships: []
+    };
+    const canChange = (attribute: CharacterAttribute) => !isCharacterLocked(locks, character, attribute);
+    if (canChange('traits')) {
+      change.removed_traits.push(...removeText(character.traits, update.removed_traits));
+      change.added_traits.push(...addText(character.traits, update.added_traits));
+    }
+    if (canChange('goals')) {
+      change.removed_goals.push(...removeText(character.goals, update.removed_goals));
+      change.added_goals.push(...addText(character.goals, update.added_goals));
+    }
+    for (const proposed of canChange('relationships') ? update.new_relationships : []) {
+      const relationship = { ...proposed, character: canonicalName(proposed.character) };
+      const known = character.relationships.some(existing =>
+        normalizeText(existing.character) === normalizeText(relationship.character) &&
+        existing.type === relationship.type
+      );
+      if (!known) {
+        character.relationships.push(relationship);
+        change.new_relationships.push(relationship);
+      }
+    }
+    changes.set(character.name, change);
+  };
+
+  for (const character of delta.new_characters) {
+    if (findCharacter(character.name)) {
+      // Already known, so only its new details count
+      applyChange({
+        name: character.name,
+        added_traits: character.traits,
+        removed_traits: [],
+        added_goals: character.goals,
+        removed_goals: [],
+        new_relationships: character.relationships
+      });
+      continue;
+    }
+    if (isLocked('characters')) continue;
+    note.characters.push(character);
+    newCharacters.push(character);
+  }
+  delta.character_updates.forEach(applyChange);
+
+  const newRules = isLocked('world_rules') ? [] : delta.new_world_rules.filter(rule =>
+    !note.world_rules.some(existing =>
+      existing.category === rule.category && isSameFact(existing.rule, rule.rule)
+    )
+  );
+  note.world_rules.push(...newRules);
+
+  const newEvents = (isLocked('timeline') ? [] : delta.new_timeline_events)
+    .filter(event => !note.timeline.some(existing => isSameFact(existing.event, event.event)))
+    .map(event => ({
+      ...event,
+      involved_characters: unionText(event.involved_characters.map(canonicalName))
+    }));
+  note.timeline.push(...newEvents);
+
+  const entities = renameCharacterReferences(delta, canonicalName);
+  const heldBefore = new Map((note.items ?? []).map(item => [normalizeText(item.name), item.holders.length]));
+  const changedEntities: EntityChange[] = [];
+  const recordChange = (section: EntityChange['section']) => (before: NamedEntity, after: NamedEntity) => {
+    const changes = diffEntity(before, after);
+    if (changes.length > 0) changedEntities.push({ section, name: before.name, changes });
+  };
+  const newLocations = isLocked('locations')
+    ? []
+    : addNamed(note.locations ??= [], entities.locations ?? [], mergeLocation, recordChange('locations'));
+  const newFactions = isLocked('factions')
+    ? []
+    : addNamed(note.factions ??= [], entities.factions ?? [], mergeFaction, recordChange('factions'));
+  const newItems = isLocked('items')
+    ? []
+    : addNamed(note.items ??= [], entities.items ?? [], mergeItem, recordChange('items'));
+  const newPowerSystems = isLocked('power_systems')
+    ? []
+    : addNamed(note.power_systems ??= [], entities.power_systems ?? [], mergePowerSystem, recordChange('power_systems'));
+  // Known items whose holder list grew changed hands in this chapter
+  const itemTransfers = (note.items ?? []).flatMap(item => {
+    const before = heldBefore.get(normalizeText(item.name));
+    return before === undefined ? [] : item.holders.slice(before).map(holder => ({ item: item.name, holder }));
+  });
+
+  const summaryUpdated = !isLocked('summary') && delta.summary.trim().length > 0 && delta.summary.trim() !== note.summary.trim();
+  if (summaryUpdated) note.summary = delta.summary.trim();
+
+  return {
+    setting_note: note,
+    changelog: {
+      chapter,
+      new_characters: newCharacters,
+      changed_characters: [...changes.values()].filter(change =>
+        change.added_traits.length + change.removed_traits.length +
+        change.added_goals.length + change.removed_goals.length +
+        change.new_relationships.length > 0
+      ),
+      new_world_rules: newRules,
+      new_timeline_events: newEvents,
+      new_locations: newLocations,
+      new_factions: newFactions,
+      new_items: newItems,
+      new_power_systems: newPowerSystems,
+      item_transfers: itemTransfers,
+      changed_entities: changedEntities,
+      summary_updated: summaryUpdated
+    }
+  };
+}
+
+/**
+ * Combines characters whose names differ only in spelling or suffix, keeping the first appearance's order
+ * Used by: Backend - mergeSettingNotes
+ * 
+ * @tags character-merge
+ */
+function mergeCharacters(characters: Character[]): Character[] {
+  const groups = new Map<string, Character[]>();
+  for (const character of characters) {
+    const key = normalizeCharacterName(character.name);
+    groups.set(key, [...(groups.get(key) ?? []), character]);
+  }
+
+  return [...groups.values()].map(mergeCharacterGroup);
+}
+
+/**
+ * Merges entries of one person under the fullest name, keeping the other names as aliases
+ * Used by: Backend - Setting note merging and entity resolution
+ * 
+ * @tags character-merge, aliases
+ */
+export function mergeCharacterGroup(group: Character[]): Character {
+  // Full names beat bare given names, which beat suffixed forms such as 길동이
+  const nameRank = (character: Character) => {
+    const key = normalizeCharacterName(character.name);
+    return (getGivenName(key) ? 2 : 0) + (normalizeText(character.name) === key ? 1 : 0);
+  };
+  const canonical = [...group].sort((a, b) => nameRank(b) - nameRank(a))[0];
+  const aliases = unionText(group.flatMap(character => [character.name, ...(character.aliases ?? [])]))
+    .filter(name => normalizeText(name) !== normalizeText(canonical.name));
+
+  const relationships = new Map<string, Character['relationships'][number]>();
+  for (const relationship of group.flatMap(character => character.relationships)) {
+    // Later windows describe the relationship as it currently stands
+    relationships.set(`${normalizeText(relationship.character)}:${relationship.type}`, relationship);
+  }
+  const taboos = unionText(group.flatMap(character => character.taboo_actions ?? []));
+
+  return {
+    name: canonical.name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    role: mostFrequent(group.map(character => character.role), ROLE_ORDER) ?? canonical.role,
+    traits: unionText(group.flatMap(character => character.traits)),
+    goals: unionText(group.flatMap(character => character.goals)),
+    relationships: [...relationships.values()],
+    speech_pattern: group.find(character => character.speech_pattern)?.speech_pattern,
+    ...(taboos.length > 0 ? { taboo_actions: taboos } : {})
+  };
+}
+
+/**
+ * Combines restated rules of the same category, keeping the highest importance
+ * Used by: Backend - mergeSettingNotes
+ * 
+ * @tags world-rule-merge
+ */
+function mergeWorldRules(rules: WorldRule[]): WorldRule[] {
+  const merged: WorldRule[] = [];
+  for (const rule of rules) {
+    const existing = merged.find(candidate =>
+      candidate.category === rule.category && isSameFact(candidate.rule, rule.rule)
+    );
+    if (!existing) {
+      merged.push({ ...rule });
+      continue;
+    }
+    existing.importance = higherImportance(existing.importance, rule.importance);
+    existing.evidence ??= rule.evidence;
+  }
+  return merged;
+}
+
+/**
+ * Combines restated events, keeping the first mention's timestamp and story order
+ * Used by: Backend - mergeSettingNotes
+ * 
+ * @tags timeline-merge
+ */
+function mergeTimeline(events: TimelineEvent[]): TimelineEvent[] {
+  const merged: TimelineEvent[] = [];
+  for (const event of events) {
+    const existing = merged.find(candidate => isSameFact(candidate.event, event.event));
+    if (!existing) {
+      merged.push({ ...event, involved_characters: [...event.involved_characters] });
+      continue;
+    }
+    existing.importance = higherImportance(existing.importance, event.importance);
+    existing.involved_characters = unionText([...existing.involved_characters, ...event.involved_characters]);
+    if (event.after) existing.after = unionText([...(existing.after ?? []), ...event.after]);
+  }
+  return merged;
+}
+
+/**
+ * Rewrites the character names that factions, items and power systems refer to
+ * Used by: Backend - Entity resolution and incremental updates
+ * 
+ * @tags reference-rewrite, entities
+ */
+export function renameCharacterReferences<T extends EntityLists>(entities: T, rename: (name: string) => string): T {
+  return {
+    ...entities,
+    ...(entities.factions ? {
+      factions: entities.factions.map(faction => ({
+        ...faction,
+        ...(faction.leader ? { leader: rename(faction.leader) } : {}),
+        members: faction.members.map(member => ({ ...member, character: rename(member.character) }))
+      }))
+    } : {}),
+    ...(entities.items ? {
+      items: entities.items.map(item => ({
+        ...item,
+        holders: item.holders.map(holder => ({ ...holder, character: rename(holder.character) }))
+      }))
+    } : {}),
+    ...(entities.power_systems ? {
+      power_systems: entities.power_systems.map(system => ({
+        ...system,
+        practitioners: system.practitioners.map(practitioner => ({
+          ...practitioner,
+          character: rename(practitioner.character)
+        }))
+      }))
+    } : {})
+  };
+}
+
+/**
+ * Merges entities that share a name or alias, keeping the first appearance's order
+ * Used by: Backend - mergeSettingNotes
+ * 
+ * @tags entity-merge
+ */
+function mergeNamed<T extends NamedEntity>(entities: T[], merge: (existing: T, entity: T) => T): T[] {
+  const merged: T[] = [];
+  addNamed(merged, entities, merge);
+  return merged;
+}
+
+/**
+ * Appends unknown entities to the list in place and merges known ones into their entry,
+ * returning the ones appended
+ * Used by: Backend - Setting note merging and incremental updates
+ * 
+ * @tags entity-merge, incremental-update
+ */
+function addNamed<T extends NamedEntity>(
+  list: T[],
+  entities: T[],
+  merge: (existing: T, entity: T) => T,
+  onMerge?: (before: T, after: T) => void
+): T[] {
+  const added: T[] = [];
+  for (const entity of entities) {
+    const index = list.findIndex(existing => sharesName(existing, entity));
+    if (index === -1) {
+      list.push(entity);
+      added.push(entity);
+    } else {
+      const before = list[index];
+      list[index] = merge(before, entity);
+      onMerge?.(before, list[index]);
+    }
+  }
+  return added;
+}
+
+/**
+ * Lists the fields a merge changed on a known entity
+ * Members and practitioners are compared per character so a rank change names its holder;
+ * item holders are left out because they are reported as transfers
+ * Used by: Backend - applySettingNoteDelta changelog
+ * 
+ * @tags changelog, diff
+ */
+function diffEntity(before: NamedEntity, after: NamedEntity): EntityFieldChange[] {
+  const changes: EntityFieldChange[] = [];
+  const compare = (field: string, previous: unknown, next: unknown) => {
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+    changes.push({
+      field,
+      ...(previous !== undefined ? { before: previous } : {}),
+      ...(next !== undefined ? { after: next } : {})
+    });
+  };
+  const fields = (entity: NamedEntity) => entity as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (key === 'holders') continue;
+    const [previous, next] = [fields(before)[key], fields(after)[key]];
+    if (key !== 'members' && key !== 'practitioners') {
+      compare(key, previous, next);
+      continue;
+    }
+    const byCharacter = (list: unknown) =>
+      new Map(((list ?? []) as { character: string }[]).map(entry => [entry.character, entry]));
+    const [previousEntries, nextEntries] = [byCharacter(previous), byCharacter(next)];
+    for (const character of new Set([...previousEntries.keys(), ...nextEntries.keys()])) {
+      compare(`${key}.${character}`, previousEntries.get(character), nextEntries.get(character));
+    }
+  }
+  return changes;
+}
+
+function sharesName(a: NamedEntity, b: NamedEntity): boolean {
+  const names = new Set([a.name, ...(a.aliases ?? [])].map(normalizeText));
+  return [b.name, ...(b.aliases ?? [])].some(name => names.has(normalizeText(name)));
+}
+
+function mergeAliases(a: NamedEntity, b: NamedEntity): { aliases?: string[] } {
+  const aliases = unionText([...(a.aliases ?? []), b.name, ...(b.aliases ?? [])])
+    .filter(name => normalizeText(name) !== normalizeText(a.name));
+  return aliases.length > 0 ? { aliases } : {};
+}
+
+function mergeLocation(a: Location, b: Location): Location {
+  const connections = [...(a.connections ?? [])];
+  for (const connection of b.connections ?? []) {
+    if (!connections.some(known => normalizeText(known.location) === normalizeText(connection.location))) {
+      connections.push(connection);
+    }
+  }
+  return {
+    ...a,
+    ...mergeAliases(a, b),
+    description: a.description || b.description,
+    ...(a.part_of ?? b.part_of ? { part_of: a.part_of ?? b.part_of } : {}),
+    ...(connections.length > 0 ? { connections } : {})
+  };
+}
+
+function mergeFaction(a: Faction, b: Faction): Faction {
+  // Later mentions describe current membership, rank and leadership
+  const members = new Map(a.members.map(member => [normalizeText(member.character), member]));
+  for (const member of b.members) {
+    const key = normalizeText(member.character);
+    members.set(key, { ...members.get(key), ...member });
+  }
+  const ranks = unionText([...(a.ranks ?? []), ...(b.ranks ?? [])]);
+  return {
+    ...a,
+    ...mergeAliases(a, b),
+    description: a.description || b.description,
+    ...(b.leader ?? a.leader ? { leader: b.leader ?? a.leader } : {}),
+    ...(ranks.length > 0 ? { ranks } : {}),
+    members: [...members.values()],
+    ...(a.base ?? b.base ? { base: a.base ?? b.base } : {}),
+    ...(a.parent ?? b.parent ? { parent: a.parent ?? b.parent } : {})
+  };
+}
+
+function mergeItem(a: Item, b: Item): Item {
+  const holders = [...a.holders];
+  for (const holder of b.holders) {
+    const sameHolder = (known: Item['holders'][number]) =>
+      normalizeText(known.character) === normalizeText(holder.character);
+    // Restated history is skipped; a return to an earlier holder comes with a new timestamp
+    const restated = a.holders.some(known => sameHolder(known) && (known.since ?? '') === (holder.since ?? ''));
+    if (restated || (holders.length > 0 && sameHolder(holders[holders.length - 1]))) continue;
+    holders.push(holder);
+  }
+  const abilities = unionText([...(a.abilities ?? []), ...(b.abilities ?? [])]);
+  return {
+    ...a,
+    ...mergeAliases(a, b),
+    description: a.description || b.description,
+    ...(abilities.length > 0 ? { abilities } : {}),
+    holders
+  };
+}
+
+function mergePowerSystem(a: PowerSystem, b: PowerSystem): PowerSystem {
+  // A practitioner's latest rank wins
+  const practitioners = new Map(
+    [...a.practitioners, ...b.practitioners].map(practitioner => [normalizeText(practitioner.character), practitioner])
+  );
+  return {
+    ...a,
+    description: a.description || b.description,
+    ranks: unionText([...a.ranks, ...b.ranks]),
+    rules: unionText([...a.rules, ...b.rules]),
+    practitioners: [...practitioners.values()]
+  };
+}
+
+/**
+ * Reports whether two rules or events are the same fact phrased differently
+ * Used by: Backend - Setting note merging and bible locks
+ * 
+ * @tags deduplication, similarity
+ */
+export function isSameFact(a: string, b: string): boolean {
+  return diceCoefficient(normalizeText(a), normalizeText(b)) >= FACT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Reports whether a character, or one attribute of it, is locked in the series bible
+ * Used by: Backend - applySettingNoteDelta
+ * 
+ * @tags locks
+ */
+function isCharacterLocked(locks: BibleLock[], character: Character, attribute: CharacterAttribute): boolean {
+  const matches = buildNameIndex([character]);
+  return locks.some(lock =>
+    lock.field === 'characters' ||
+    (lock.field === 'character' &&
+      matches(lock.name) !== undefined &&
+      (lock.attribute === undefined || lock.attribute === attribute))
+  );
+}
+
+function higherImportance(a: WorldRule['importance'], b: WorldRule['importance']): WorldRule['importance'] {
+  return IMPORTANCE_ORDER.indexOf(a) <= IMPORTANCE_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Deduplicates strings that differ only in spacing or punctuation, keeping the first spelling
+ * Used by: Backend - Setting note merging and entity resolution
+ * 
+ * @tags deduplication
+ */
+export function unionText(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const key = normalizeText(value);
+    if (key && !seen.has(key)) seen.set(key, value);
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Appends values not yet in the list, returning the ones added
+ * Used by: Backend - applySettingNoteDelta
+ * 
+ * @tags incremental-update
+ */
+function addText(list: string[], values: string[]): string[] {
+  const added = unionText(values).filter(value =>
+    !list.some(existing => normalizeText(existing) === normalizeText(value))
+  );
+  list.push(...added);
+  return added;
+}
+
+/**
+ * Removes matching values from the list in place, returning the ones removed
+ * Used by: Backend - applySettingNoteDelta
+ * 
+ * @tags incremental-update
+ */
+function removeText(list: string[], values: string[]): string[] {
+  const keys = new Set(values.map(normalizeText));
+  const removed = list.filter(existing => keys.has(normalizeText(existing)));
+  list.splice(0, list.length, ...list.filter(existing => !keys.has(normalizeText(existing))));
+  return removed;
+}
+
+function rankByFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = normalizeText(value);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return unionText(values).sort((a, b) => counts.get(normalizeText(b))! - counts.get(normalizeText(a))!);
+}
+
+/**
+ * Returns the most frequent value, breaking ties by `priority` order, then first occurrence
+ * Used by: Backend - Title and character role merging
+ * 
+ * @tags frequency, voting
+ */
+function mostFrequent<T>(values: T[], priority: T[] = []): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+
+  const rank = (value: T) => (priority.includes(value) ? priority.indexOf(value) : priority.length);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || rank(a[0]) - rank(b[0]))[0]?.[0];
+}
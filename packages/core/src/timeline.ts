@@ -0,0 +1,384 @@
+/**
+ * Timeline normalization: parses timestamps into positions and orders events chronologically
+ * Used by: Backend - SettingBuilder post-processing and incremental updates
+ * 
+ * @tags timeline, chronology, korean-numerals, ordering
+ */
+
+import { normalizeText } from './sampling';
+import { isSameFact } from './settingMerge';
+import type { TimelineConflict, TimelineEvent, TimelineOffset, TimelinePosition } from './types';
+
+const HANJA_DIGITS: Record<string, number> = {
+  '〇': 0, '零': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9
+};
+const HANJA_UNITS: Record<string, number> = { '十': 10, '百': 100, '千': 1000 };
+
+const NUMERAL = '\\d+|[〇零一二三四五六七八九十百千]+';
+
+// 제3장, 12화, 7회, Chapter 4; 장면 is a scene, not a chapter
+const CHAPTER_PATTERNS = [
+  new RegExp(`(?:제\\s*)?(${NUMERAL})\\s*(?:장(?!면)|화|회)`),
+  /chapter\s*(\d+)/i,
+  // Bare headings such as 二, 길동이 슬퍼하다 or 12
+  /^([〇零一二三四五六七八九十百千]+)(?=[\s,.、]|$)/,
+  /^(\d+)$/
+];
+const SCENE_PATTERNS = [new RegExp(`(${NUMERAL})\\s*(?:장면|절|씬|막)`), /scene\s*(\d+)/i];
+
+const RELATIVE_PATTERN = new RegExp(`(${NUMERAL})\\s*(년|해|개월|달|일|날)\\s*(후|뒤|만에|전)`);
+const RELATIVE_PATTERN_EN = /(\d+)\s+(year|month|day)s?\s+(later|after|before|earlier|ago)/i;
+const NATIVE_DAY_COUNTS: Record<string, number> = {
+  '하루': 1, '이틀': 2, '사흘': 3, '나흘': 4, '닷새': 5, '엿새': 6, '이레': 7, '여드레': 8, '아흐레': 9, '열흘': 10
+};
+const NATIVE_DAY_PATTERN = new RegExp(`(${Object.keys(NATIVE_DAY_COUNTS).join('|')})\\s*(후|뒤|만에|전)`);
+const NEXT_DAY_PATTERN = /다음\s*날|이튿날/;
+const NEXT_YEAR_PATTERN = /이듬해|다음\s*해/;
+
+const YEAR_PATTERN = new RegExp(`(?:(?:^|\\s)([가-힣]{1,8})\\s*)?(${NUMERAL})\\s*년`);
+const MONTH_PATTERN = new RegExp(`(${NUMERAL})\\s*월`);
+const DAY_PATTERN = new RegExp(`(${NUMERAL})\\s*일`);
+// Words that precede a year without naming an era
+const NON_ERA_WORDS = new Set(['제', '장', '화', '회', '절', '막', '약', '그']);
+
+export interface OrderedTimeline {
+  timeline: TimelineEvent[];
+  conflicts: TimelineConflict[];
+}
+
+type PositionedEvent = TimelineEvent & { position: TimelinePosition };
+
+type VisitState = 'new' | 'active' | 'done';
+
+// `from` happens before `to`
+interface Constraint {
+  from: number;
+  to: number;
+  kind: 'date' | 'stated' | 'offset';
+}
+
+/**
+ * Parses an Arabic or Hanja numeral such as 12, 二十三 or 一九四三
+ * Used by: Backend - Timestamp parsing
+ * 
+ * @tags numerals, hanja
+ */
+export function parseNumeral(value: string): number | undefined {
+  if (/^\d+$/.test(value)) return Number(value);
+  if (!/^[〇零一二三四五六七八九十百千]+$/.test(value)) return undefined;
+
+  let total = 0;
+  let current = 0;
+  for (const char of value) {
+    if (char in HANJA_DIGITS) {
+      current = current * 10 + HANJA_DIGITS[char];
+    } else {
+      total += (current || 1) * HANJA_UNITS[char];
+      current = 0;
+    }
+  }
+  return total + current;
+}
+
+/**
+ * Parses the chapter, scene, in-story date and relative marker of a timestamp
+ * Used by: Backend - orderTimeline
+ * 
+ * @tags timestamp, parsing
+ */
+export function parseTimestamp(timestamp: string): TimelinePosition {
+  let text = timestamp.normalize('NFC').trim();
+  const position: TimelinePosition = {};
+
+  const offset = parseOffset(text);
+  if (offset) {
+    position.offset = offset.offset;
+    // The offset's number is not a date or chapter
+    text = text.replace(offset.match, ' ');
+  }
+
+  const chapter = matchNumber(text, CHAPTER_PATTERNS);
+  if (chapter !== undefined) position.chapter = chapter;
+  const scene = matchNumber(text, SCENE_PATTERNS);
+  if (scene !== undefined) position.scene = scene;
+
+  const year = text.match(YEAR_PATTERN);
+  if (year) {
+    position.year = parseNumeral(year[2]);
+    if (year[1] && !NON_ERA_WORDS.has(year[1])) position.era = year[1];
+  }
+  const month = matchNumber(text, [MONTH_PATTERN]);
+  if (month !== undefined) position.month = month;
+  const day = matchNumber(text, [DAY_PATTERN]);
+  if (day !== undefined) position.day = day;
+
+  return position;
+}
+
+/**
+ * Orders events chronologically, keeping story order where nothing decides
+ * In-story dates, stated orderings (`after`) and relative markers are hard constraints;
+ * chapters only break ties, so flashbacks stay where their dates put them
+ * Stated orderings that contradict dates or each other are dropped and reported
+ * Used by: Backend - SettingBuilder post-processing
+ * 
+ * @tags timeline, topological-sort, conflicts
+ */
+export function orderTimeline(events: TimelineEvent[]): OrderedTimeline {
+  const items: PositionedEvent[] = events.map(event => ({ ...event, position: parseTimestamp(event.timestamp) }));
+  const conflicts: TimelineConflict[] = [];
+  const { nodeCount, constraints: dateConstraints } = buildDateConstraints(items);
+  const constraints: Constraint[] = [];
+
+  const normalized = new Map<string, number>();
+  items.forEach((item, index) => {
+    const key = normalizeText(item.event);
+    if (!normalized.has(key)) normalized.set(key, index);
+  });
+  const findEvent = (reference: string) =>
+    normalized.get(normalizeText(reference)) ?? items.findIndex(item => isSameFact(item.event, reference));
+  items.forEach((item, index) => {
+    for (const reference of item.after ?? []) {
+      const before = findEvent(reference);
+      if (before !== -1 && before !== index) constraints.push({ from: before, to: index, kind: 'stated' });
+    }
+    const offset = item.position.offset;
+    if (offset && index > 0) {
+      constraints.push(
+        offset.direction === 'after'
+          ? { from: index - 1, to: index, kind: 'offset' }
+          : { from: index, to: index - 1, kind: 'offset' }
+      );
+    }
+  });
+
+  const outgoing: Constraint[][] = Array.from({ length: nodeCount }, () => []);
+  dateConstraints.forEach(constraint => outgoing[constraint.from].push(constraint));
+  for (const constraint of constraints) {
+    const [from, to] = [items[constraint.from], items[constraint.to]];
+    const diff = compareDates(from.position, to.position);
+    if (!diff || diff < 0) {
+      outgoing[constraint.from].push(constraint);
+      continue;
+    }
+    conflicts.push({
+      reason: 'date',
+      events: [from.event, to.event],
+      description: `"${to.event}"은(는) "${from.event}" 이후의 일로 기록되었지만 작중 시점(${to.timestamp})은 더 이릅니다`
+    });
+  }
+
+  // Dates alone never form a cycle, so every cycle contains an ordering that can be dropped
+  const visited = new Array<VisitState>(nodeCount).fill('new');
+  for (let cycle = findCycle(outgoing, visited); cycle; cycle = findCycle(outgoing, visited)) {
+    // Boundary nodes between date groups are not events
+    const names = cycle.filter(constraint => constraint.from < items.length).map(constraint => items[constraint.from].event);
+    conflicts.push({
+      reason: 'cycle',
+      events: names,
+      description: `사건 순서가 순환합니다: ${[...names, names[0]].join(' → ')}`
+    });
+    const dropped = [...cycle].reverse().find(constraint => constraint.kind !== 'date')!;
+    outgoing[dropped.from] = outgoing[dropped.from].filter(constraint => constraint !== dropped);
+  }
+
+  return { timeline: sortByConstraints(items, outgoing), conflicts };
+}
+
+/**
+ * Orders dated events with linearly many constraints instead of one per pair
+ * Events of one era are grouped by year, a year's events with a month by month, and a month's
+ * events with a day by day; a boundary node after each group precedes every event of the next
+ * group, so each event is ordered after all earlier groups without an edge to each of their events
+ * Used by: Backend - orderTimeline
+ * 
+ * @tags timeline, dates, graph
+ */
+function buildDateConstraints(items: PositionedEvent[]): { nodeCount: number; constraints: Constraint[] } {
+  const constraints: Constraint[] = [];
+  let nodeCount = items.length;
+
+  const chainGroups = (indices: number[], key: (position: TimelinePosition) => number | undefined) => {
+    const groups = new Map<number, number[]>();
+    for (const index of indices) {
+      const value = key(items[index].position);
+      if (value !== undefined) groups.set(value, [...(groups.get(value) ?? []), index]);
+    }
+    const ordered = [...groups.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+    ordered.slice(1).forEach((group, offset) => {
+      const boundary = nodeCount++;
+      ordered[offset].forEach(index => constraints.push({ from: index, to: boundary, kind: 'date' }));
+      group.forEach(index => constraints.push({ from: boundary, to: index, kind: 'date' }));
+    });
+    return ordered;
+  };
+
+  const eras = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    if (item.position.year === undefined) return;
+    const era = item.position.era ?? '';
+    eras.set(era, [...(eras.get(era) ?? []), index]);
+  });
+  for (const era of eras.values()) {
+    for (const year of chainGroups(era, position => position.year)) {
+      for (const month of chainGroups(year, position => position.month)) {
+        chainGroups(month, position => position.day);
+      }
+    }
+  }
+
+  return { nodeCount, constraints };
+}
+
+/**
+ * Compares in-story dates, or returns undefined when the positions are not comparable
+ * Used by: Backend - orderTimeline
+ * 
+ * @tags timeline, dates
+ */
+function compareDates(a: TimelinePosition, b: TimelinePosition): number | undefined {
+  if (a.year === undefined || b.year === undefined || (a.era ?? '') !== (b.era ?? '')) return undefined;
+  if (a.year !== b.year) return a.year - b.year;
+  if (a.month === undefined || b.month === undefined) return 0;
+  if (a.month !== b.month) return a.month - b.month;
+  if (a.day === undefined || b.day === undefined) return 0;
+  return a.day - b.day;
+}
+
+/**
+ * Story order of two events: by chapter and scene when both have one, else by original position
+ * Used by: Backend - Tie-breaking in sortByConstraints
+ * 
+ * @tags timeline, narrative-order
+ */
+function compareNarrative(a: TimelinePosition, b: TimelinePosition, indexA: number, indexB: number): number {
+  if (a.chapter !== undefined && b.chapter !== undefined && a.chapter !== b.chapter) return a.chapter - b.chapter;
+  if (a.chapter === b.chapter && a.scene !== undefined && b.scene !== undefined && a.scene !== b.scene) {
+    return a.scene - b.scene;
+  }
+  return indexA - indexB;
+}
+
+/**
+ * Topological sort that always takes the earliest ready event in story order
+ * Boundary nodes past the events are passed as soon as they are ready
+ * Used by: Backend - orderTimeline
+ * 
+ * @tags topological-sort
+ */
+function sortByConstraints(items: PositionedEvent[], outgoing: Constraint[][]): TimelineEvent[] {
+  const incoming = outgoing.map(() => 0);
+  outgoing.forEach(constraints => constraints.forEach(constraint => incoming[constraint.to]++));
+
+  const ordered: TimelineEvent[] = [];
+  const ready = new Set<number>();
+  const boundaries: number[] = [];
+  const release = (node: number) => {
+    for (const constraint of outgoing[node]) {
+      if (--incoming[constraint.to] > 0) continue;
+      if (constraint.to < items.length) ready.add(constraint.to);
+      else boundaries.push(constraint.to);
+    }
+  };
+  incoming.forEach((count, node) => {
+    if (count > 0) return;
+    if (node < items.length) ready.add(node);
+    else boundaries.push(node);
+  });
+
+  while (ready.size > 0 || boundaries.length > 0) {
+    if (boundaries.length > 0) {
+      release(boundaries.pop()!);
+      continue;
+    }
+    // Story order is not transitive across events with and without chapters, so scan in input order
+    const next = [...ready].sort((a, b) => a - b).reduce((best, index) =>
+      compareNarrative(items[index].position, items[best].position, index, best) < 0 ? index : best
+    );
+    ready.delete(next);
+    ordered.push(items[next]);
+    release(next);
+  }
+  return ordered;
+}
+
+/**
+ * Returns the constraints of one cycle, or undefined when the constraints are acyclic
+ * Nodes finished by an earlier search stay finished, since dropping constraints adds no cycle
+ * Used by: Backend - orderTimeline
+ * 
+ * @tags cycle-detection, dfs
+ */
+function findCycle(outgoing: Constraint[][], state: VisitState[]): Constraint[] | undefined {
+  // Nodes on the path of the search that found the last cycle are searched again
+  state.forEach((value, node) => {
+    if (value === 'active') state[node] = 'new';
+  });
+  const path: Constraint[] = [];
+
+  const visit = (node: number): Constraint[] | undefined => {
+    state[node] = 'active';
+    for (const constraint of outgoing[node]) {
+      if (state[constraint.to] === 'active') {
+        const start = path.findIndex(step => step.from === constraint.to);
+        return [...path.slice(start === -1 ? path.length : start), constraint];
+      }
+      if (state[constraint.to] === 'new') {
+        path.push(constraint);
+        const cycle = visit(constraint.to);
+        if (cycle) return cycle;
+        path.pop();
+      }
+    }
+    state[node] = 'done';
+    return undefined;
+  };
+
+  for (let node = 0; node < outgoing.length; node++) {
+    if (state[node] !== 'new') continue;
+    const cycle = visit(node);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+function parseOffset(text: string): { offset: TimelineOffset; match: string } | undefined {
+  const units: Record<string, TimelineOffset['unit']> = {
+    '년': 'year', '해': 'year', '개월': 'month', '달': 'month', '일': 'day', '날': 'day',
+    year: 'year', month: 'month', day: 'day'
+  };
+  const directionOf = (word: string): TimelineOffset['direction'] =>
+    ['전', 'before', 'earlier', 'ago'].includes(word.toLowerCase()) ? 'before' : 'after';
+
+  const relative = text.match(RELATIVE_PATTERN) ?? text.match(RELATIVE_PATTERN_EN);
+  if (relative) {
+    const amount = parseNumeral(relative[1]);
+    if (amount !== undefined) {
+      return {
+        offset: { amount, unit: units[relative[2].toLowerCase()], direction: directionOf(relative[3]) },
+        match: relative[0]
+      };
+    }
+  }
+  const days = text.match(NATIVE_DAY_PATTERN);
+  if (days) {
+    return {
+      offset: { amount: NATIVE_DAY_COUNTS[days[1]], unit: 'day', direction: directionOf(days[2]) },
+      match: days[0]
+    };
+  }
+  const nextDay = text.match(NEXT_DAY_PATTERN);
+  if (nextDay) return { offset: { amount: 1, unit: 'day', direction: 'after' }, match: nextDay[0] };
+  const nextYear = text.match(NEXT_YEAR_PATTERN);
+  if (nextYear) return { offset: { amount: 1, unit: 'year', direction: 'after' }, match: nextYear[0] };
+  return undefined;
+}
+
+function matchNumber(text: string, patterns: RegExp[]): number | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const value = match ? parseNumeral(match[1]) : undefined;
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
@@ -5,10 +5,13 @@
  * @tags types, schema, validation, core-types
  */
 
+import type { Logger, PromptRef, Span, Tracer } from '@page-atelier/llm';
+
 // ========== Setting Note Types ==========
 
 export interface Character {
-  name: string;
+  name: string; // Canonical name, the fullest form used in the text
+  aliases?: string[]; // Other names, nicknames and spellings that refer to this character
   role: 'protagonist' | 'antagonist' | 'supporting' | 'minor';
   traits: string[];
   goals: string[];
@@ -28,6 +31,7 @@ export interface WorldRule {
   rule: string;
   importance: 'critical' | 'high' | 'medium' | 'low';
   evidence?: string;
+  evidence_anchor?: EvidenceAnchor; // Where evidence was found in the analyzed text
 }
 
 export interface TimelineEvent {
@@ -35,6 +39,144 @@ export interface TimelineEvent {
   event: string;
   involved_characters: string[];
   importance: 'critical' | 'high' | 'medium' | 'low';
+  after?: string[]; // Events the text says happened before this one
+  position?: TimelinePosition; // Parsed from timestamp when the timeline is ordered
+}
+
+// Only the parts a timestamp states are set
+export interface TimelinePosition {
+  chapter?: number;
+  scene?: number;
+  era?: string; // Reign or era the year counts from, e.g. 세종
+  year?: number;
+  month?: number;
+  day?: number;
+  offset?: TimelineOffset; // 3년 후, relative to the previous event in story order
+}
+
+export interface TimelineOffset {
+  amount: number;
+  unit: 'day' | 'month' | 'year';
+  direction: 'after' | 'before';
+}
+
+// Orderings that cannot all hold; 'date' means an explicit ordering contradicts in-story dates
+export interface TimelineConflict {
+  reason: 'date' | 'cycle';
+  events: string[];
+  description: string;
+}
+
+export interface SettingNoteLintWarning {
+  rule:
+    | 'unknown_character'
+    | 'unknown_reference'
+    | 'unknown_rank'
+    | 'self_relationship'
+    | 'asymmetric_relationship'
+    | 'contradictory_relationship'
+    | 'duplicate_character'
+    | 'duplicate_world_rule'
+    | 'duplicate_timeline_event'
+    | 'protagonist_count'
+    | 'missing_goals'
+    | 'missing_speech_pattern'
+    | 'missing_evidence'
+    | 'timeline_conflict';
+  severity: 'warning' | 'info';
+  path: string; // Field the warning is about, e.g. characters[2].relationships[0]
+  message: string;
+}
+
+export type SettingNoteExportFormat =
+  | 'relationships_mermaid'
+  | 'relationships_dot'
+  | 'relationships_graphml'
+  | 'timeline_gantt' // Mermaid gantt chart
+  | 'timeline_csv';
+
+export interface SettingNoteExport {
+  format: SettingNoteExportFormat;
+  content: string;
+  mime_type: string;
+  extension: string; // Without the leading dot
+}
+
+export interface VaultFile {
+  path: string; // Relative to the vault root, with forward slashes
+  content: string;
+}
+
+export type SettingDocumentFormat = 'markdown' | 'yaml';
+
+export interface UnmappedField {
+  path: string; // Where in the document, e.g. characters[0].혈액형 or a section heading
+  reason: string;
+  value?: string; // Excerpt of what was skipped
+}
+
+export interface SettingNoteImport {
+  format: SettingDocumentFormat;
+  setting_note: SettingNote;
+  unmapped: UnmappedField[];
+}
+
+export interface Location {
+  name: string;
+  aliases?: string[];
+  type: 'region' | 'settlement' | 'building' | 'natural' | 'other';
+  description: string;
+  part_of?: string; // Enclosing location, e.g. 경상도 for 합천
+  connections?: LocationConnection[];
+}
+
+export interface LocationConnection {
+  location: string;
+  description: string; // Route, distance or travel time
+}
+
+export interface Faction {
+  name: string;
+  aliases?: string[];
+  type: 'sect' | 'gang' | 'government' | 'family' | 'religious' | 'other';
+  description: string;
+  leader?: string;
+  ranks?: string[]; // Lowest first
+  members: FactionMember[];
+  base?: string; // Location name
+  parent?: string; // Faction this one belongs to
+}
+
+export interface FactionMember {
+  character: string;
+  rank?: string;
+}
+
+export interface Item {
+  name: string;
+  aliases?: string[];
+  type: 'weapon' | 'artifact' | 'document' | 'treasure' | 'other';
+  description: string;
+  abilities?: string[];
+  holders: ItemHolder[]; // In order of possession, current holder last
+}
+
+export interface ItemHolder {
+  character: string;
+  since?: string; // Timestamp in the timeline's format
+}
+
+export interface PowerSystem {
+  name: string;
+  description: string;
+  ranks: string[]; // Lowest first
+  rules: string[];
+  practitioners: Practitioner[];
+}
+
+export interface Practitioner {
+  character: string;
+  rank: string;
 }
 
 export interface SettingNote {
@@ -44,10 +186,125 @@ export interface SettingNote {
   world_rules: WorldRule[];
   timeline: TimelineEvent[];
   summary: string;
+  timeline_conflicts?: TimelineConflict[]; // Contradictory orderings found when ordering the timeline
+  locations?: Location[];
+  factions?: Faction[];
+  items?: Item[];
+  power_systems?: PowerSystem[];
+}
+
+// Two character entries that may be the same person; 'suffix' and 'given_name' matches are heuristic
+export interface AliasCandidate {
+  names: [string, string];
+  reason: 'alias' | 'suffix' | 'given_name';
+}
+
+// ========== Setting Note Update Types ==========
+
+// Model-proposed additions from one new chapter, applied to the note without rewriting it
+export interface SettingNoteDelta {
+  new_characters: Character[];
+  character_updates: CharacterChange[];
+  new_world_rules: WorldRule[];
+  new_timeline_events: TimelineEvent[];
+  summary: string; // Whole-work summary including the new chapter; empty keeps the current one
+  // New entities, or known ones with new details such as an item's new holder
+  locations?: Location[];
+  factions?: Faction[];
+  items?: Item[];
+  power_systems?: PowerSystem[];
+}
+
+export interface CharacterChange {
+  name: string;
+  added_traits: string[];
+  removed_traits: string[];
+  added_goals: string[];
+  removed_goals: string[];
+  new_relationships: Relationship[];
+}
+
+// Only the changes actually applied; proposals that restate known facts are left out
+export interface SettingNoteChangelog {
+  chapter: number;
+  new_characters: Character[];
+  changed_characters: CharacterChange[];
+  new_world_rules: WorldRule[];
+  new_timeline_events: TimelineEvent[];
+  new_locations: Location[];
+  new_factions: Faction[];
+  new_items: Item[];
+  new_power_systems: PowerSystem[];
+  item_transfers: ItemTransfer[];
+  changed_entities: EntityChange[]; // Known locations, factions, items and power systems the chapter rewrote
+  summary_updated: boolean;
+}
+
+export interface EntityChange {
+  section: 'locations' | 'factions' | 'items' | 'power_systems';
+  name: string;
+  changes: EntityFieldChange[];
+}
+
+// Members and practitioners are listed per character, e.g. 'members.홍길동'
+export interface EntityFieldChange {
+  field: string;
+  before?: unknown; // Missing when the field was unset
+  after?: unknown;
+}
+
+export interface ItemTransfer {
+  item: string;
+  holder: ItemHolder;
+}
+
+export interface SettingNoteUpdate {
+  setting_note: SettingNote;
+  changelog: SettingNoteChangelog;
+}
+
+// ========== Series Bible Types ==========
+
+export type CharacterAttribute = Exclude<keyof Character, 'name'>;
+
+export type BibleSection =
+  | 'title' | 'genre' | 'summary' | 'characters' | 'world_rules' | 'timeline'
+  | 'locations' | 'factions' | 'items' | 'power_systems';
+
+// Author-marked canonical fields; builder output never overwrites or removes them
+export type BibleLock =
+  | { field: BibleSection }
+  | { field: 'character'; name: string; attribute?: CharacterAttribute }
+  | { field: 'world_rule'; rule: string }
+  | { field: 'timeline_event'; event: string };
+
+export interface BibleVersionInfo {
+  version: number;
+  updated_at: string;
+  source: 'author' | 'builder'; // Author edits or SettingBuilder output
+  message?: string;
+}
+
+export interface SeriesBible extends BibleVersionInfo {
+  series_id: string;
+  setting_note: SettingNote;
+  locks: BibleLock[];
 }
 
 // ========== Consistency Check Types ==========
 
+// Where an evidence quote was found in the analyzed text
+export interface EvidenceAnchor {
+  quote: string;
+  status: 'exact' | 'fuzzy' | 'not_found'; // not_found quotes may be hallucinated
+  score: number; // 0-1 similarity of the matched span, 1 for exact matches
+  chapter?: number; // Numbered like parseChapters
+  paragraph?: number; // 1-based among the chapter's non-empty lines
+  start?: number; // Character offsets into the analyzed text
+  end?: number;
+  matched_text?: string; // The text at start-end, which differs from quote for fuzzy matches
+}
+
 export interface Issue {
   type: 'continuity' | 'character' | 'world_rules';
   severity: 'critical' | 'high' | 'medium' | 'low';
@@ -58,7 +315,20 @@ export interface Issue {
     chapter?: number;
     paragraph?: number;
     line?: string;
+    start?: number; // Character offsets into the analyzed text
+    end?: number;
   };
+  occurrences?: number; // Samples that reported this issue, when sampled
+  evidence_anchors?: EvidenceAnchor[]; // One per evidence quote, in order
+  possibly_hallucinated?: boolean; // None of the evidence quotes occur in the text
+}
+
+export interface ScoreStats {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  samples: number;
 }
 
 export interface ConsistencyCheck {
@@ -75,8 +345,18 @@ export interface ConsistencyCheck {
     issues: Issue[];
   };
   overall_score: number; // Weighted average
+  score_stats?: { // Spread across samples, when sampled
+    continuity: ScoreStats;
+    character: ScoreStats;
+    world_rules: ScoreStats;
+    overall: ScoreStats;
+  };
 }
 
+export type ConsistencyStreamEvent =
+  | { type: 'issues'; issues: Issue[] } // All complete issues so far
+  | { type: 'done'; check: ConsistencyCheck };
+
 // ========== Persona Evaluation Types ==========
 
 export interface PersonaMetrics {
@@ -95,6 +375,21 @@ export interface PersonaResult {
   suggestions: string[];
   overall_reaction: 'very_positive' | 'positive' | 'neutral' | 'negative' | 'very_negative';
   sample_comment?: string;
+  metrics_stats?: { // Spread across samples, when sampled
+    satisfaction: ScoreStats;
+    engagement: ScoreStats;
+    frustration: ScoreStats;
+  };
+}
+
+export interface PersonaEvaluations {
+  results: PersonaResult[]; // Personas that were evaluated, in persona order
+  failures: PersonaFailure[];
+}
+
+export interface PersonaFailure {
+  persona_type: PersonaResult['persona_type'];
+  error: string;
 }
 
 // ========== Aggregate Report Types ==========
@@ -123,6 +418,53 @@ export interface AggregateReport {
   recommendation: string;
 }
 
+// ========== Usage Accounting Types ==========
+
+export interface StepUsage {
+  step: string; // e.g. 'setting_note', 'consistency', 'persona:setting_obsessed'
+  prompt_id?: string;
+  prompt_version?: string;
+  provider?: string;
+  model?: string;
+  success: boolean;
+  cached: boolean;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  retries: number;
+  repairs: number;
+  latency_ms: number;
+  estimated_cost_usd: number;
+}
+
+export interface AnalysisUsage {
+  steps: StepUsage[];
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  retries: number;
+  repairs: number;
+  estimated_cost_usd: number;
+}
+
+// ========== Call Options ==========
+
+export interface CallOptions {
+  signal?: AbortSignal; // Cancels in-flight LLM calls
+  timeoutMs?: number; // Time budget per LLM call
+  samples?: number; // Independent samples per scored call, merged for self-consistency
+  locale?: string; // Prompt locale; falls back to the registry default per template
+  logger?: Logger; // Structured logger for LLM calls and fallbacks; redacts manuscript text by default
+  tracer?: Tracer; // Records a span per LLM call
+  parentSpan?: Span; // Span the LLM call spans nest under, e.g. the current analysis step
+  confirmAliases?: boolean; // Ask the model before merging characters matched only by suffix or given name
+}
+
+export interface ChunkOptions {
+  windowChars?: number; // Max characters per window; whole chapters are kept together where they fit
+  concurrency?: number; // Windows extracted in parallel
+}
+
 // ========== Main Analysis Type ==========
 
 export interface Analysis {
@@ -137,12 +479,19 @@ export interface Analysis {
     };
   };
   setting_note: SettingNote;
+  setting_note_lint: SettingNoteLintWarning[]; // Structural problems of the note the text was checked against
+  setting_note_import?: Omit<SettingNoteImport, 'setting_note'>; // Set when the note came from an author's document
   consistency_check: ConsistencyCheck;
   persona_evaluations: PersonaResult[];
   aggregate_report: AggregateReport;
   processing_time_ms: number;
-  llm_calls_count: number;
+  llm_calls_count: number; // Provider requests, including retries and repairs
+  usage: AnalysisUsage;
+  prompts: PromptRef[]; // Prompt templates used, by ID, version and locale
+  bible?: { series_id: string; version: number }; // Series bible the text was checked against
   status: 'success' | 'partial' | 'error';
+  failed_steps?: AnalyzeStep[]; // Steps left out of a partial analysis
+  persona_failures?: PersonaFailure[]; // Personas missing from persona_evaluations
   error?: string;
 }
 
@@ -152,9 +501,17 @@ export interface AnalyzeRequest {
   text: string;
   options?: {
     skip_personas?: boolean;
-    skip_setting_note?: boolean;
+    skip_setting_note?: boolean; // Never generate a note; requires setting_note, setting_document or an existing series bible
     custom_personas?: string[];
     temperature?: number;
+    bypass_cache?: boolean;
+    samples?: number; // Runs consistency and persona calls N times (1-5)
+    locale?: string; // Prompt locale, e.g. 'ko' or 'en'
+    chunked?: boolean; // Map-reduce the setting note over chapter windows; consistency and personas review the last window
+    series_id?: string; // Check against this series' stored bible; builds it from the text when missing
+    setting_note?: SettingNote; // Check against this note instead of generating one
+    setting_document?: { content: string; format?: SettingDocumentFormat }; // Author's 설정집, imported as the note
+    stream?: boolean; // Respond with NDJSON AnalyzeStreamEvent lines
   };
 }
 
@@ -162,4 +519,12 @@ export interface AnalyzeResponse {
   success: boolean;
   data?: Analysis;
   error?: string;
-}
\ No newline at end of file
+}
+
+export type AnalyzeStep = 'setting_note' | 'consistency' | 'personas' | 'report';
+
+export type AnalyzeStreamEvent =
+  | { type: 'step'; step: AnalyzeStep }
+  | { type: 'issues'; issues: Issue[] }
+  | { type: 'result'; data: Analysis }
+  | { type: 'error'; error: string; error_kind?: string };
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * Usage summary builder for analysis results
+ * Used by: Backend - /api/analyze for recording per-step LLM usage and cost
+ * 
+ * @tags usage, cost, accounting, analysis
+ */
+
+import type { LLMCallRecord, PromptRef } from '@page-atelier/llm';
+import type { AnalysisUsage, StepUsage } from './types';
+
+/**
+ * Converts recorded LLM calls into the Analysis usage summary
+ * Used by: Backend - Final analysis composition
+ * 
+ * @tags usage-summary, aggregation
+ */
+export function summarizeUsage(records: LLMCallRecord[]): AnalysisUsage {
+  const steps: StepUsage[] = records.map(record => ({
+    step: record.label,
+    prompt_id: record.prompt?.id,
+    prompt_version: record.prompt?.version,
+    provider: record.provider,
+    model: record.model,
+    success: record.success,
+    cached: record.cached,
+    prompt_tokens: record.usage.promptTokens,
+    completion_tokens: record.usage.completionTokens,
+    total_tokens: record.usage.totalTokens,
+    retries: record.retries,
+    repairs: record.repairs,
+    latency_ms: record.latencyMs,
+    estimated_cost_usd: record.estimatedCostUsd
+  }));
+
+  return steps.reduce<AnalysisUsage>(
+    (acc, step) => ({
+      ...acc,
+      prompt_tokens: acc.prompt_tokens + step.prompt_tokens,
+      completion_tokens: acc.completion_tokens + step.completion_tokens,
+      total_tokens: acc.total_tokens + step.total_tokens,
+      retries: acc.retries + step.retries,
+      repairs: acc.repairs + step.repairs,
+      estimated_cost_usd: acc.estimated_cost_usd + step.estimated_cost_usd
+    }),
+    {
+      steps,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      retries: 0,
+      repairs: 0,
+      estimated_cost_usd: 0
+    }
+  );
+}
+
+/**
+ * Counts provider requests actually made, excluding cache hits
+ * Used by: Backend - Analysis llm_calls_count
+ * 
+ * @tags call-count, accounting
+ */
+export function countLLMCalls(records: LLMCallRecord[]): number {
+  return records
+    .filter(record => !record.cached)
+    .reduce((count, record) => count + 1 + record.retries + record.repairs, 0);
+}
+
+/**
+ * Lists the distinct prompt templates behind the recorded calls
+ * Used by: Backend - Analysis prompts for tracing scores back to prompt versions
+ * 
+ * @tags prompt-versions, traceability
+ */
+export function collectPrompts(records: LLMCallRecord[]): PromptRef[] {
+  const prompts = new Map<string, PromptRef>();
+  for (const { prompt } of records) {
+    if (prompt) {
+      prompts.set(`${prompt.id}@${prompt.version}:${prompt.locale}`, prompt);
+    }
+  }
+  return [...prompts.values()];
+}
\ No newline at end of file
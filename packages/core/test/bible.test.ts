@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { applyLocks, createBibleVersion } from '../src/bible';
+import { sampleNote } from './sampleNote';
+
+describe('applyLocks', () => {
+  it('restores locked sections over the proposal', () => {
+    const current = sampleNote();
+    const proposed = sampleNote();
+    proposed.title = '율도국 이야기';
+    proposed.summary = '새 줄거리';
+
+    const note = applyLocks(current, proposed, [{ field: 'title' }]);
+
+    expect(note.title).toBe('홍길동전');
+    expect(note.summary).toBe('새 줄거리');
+  });
+
+  it('keeps a locked character the proposal renamed or dropped', () => {
+    const current = sampleNote();
+    const proposed = sampleNote();
+    proposed.characters = proposed.characters.filter(character => character.name !== '초란');
+    proposed.characters[0] = { ...proposed.characters[0], name: '길동', traits: ['무모함'] };
+
+    const note = applyLocks(current, proposed, [
+      { field: 'character', name: '홍길동' },
+      { field: 'character', name: '초란' }
+    ]);
+
+    expect(note.characters.find(character => character.name === '홍길동')?.traits).toEqual(['총명함']);
+    expect(note.characters.some(character => character.name === '길동')).toBe(false);
+    expect(note.characters.some(character => character.name === '초란')).toBe(true);
+  });
+
+  it('locks a single character attribute', () => {
+    const current = sampleNote();
+    const proposed = sampleNote();
+    proposed.characters[0].goals = ['율도국 건국'];
+    proposed.characters[0].traits = ['대담함'];
+
+    const note = applyLocks(current, proposed, [{ field: 'character', name: '길동', attribute: 'goals' }]);
+
+    expect(note.characters[0].goals).toEqual(['호부호형']);
+    expect(note.characters[0].traits).toEqual(['대담함']);
+  });
+
+  it('puts a locked world rule in place of its restatement', () => {
+    const current = sampleNote();
+    const proposed = sampleNote();
+    proposed.world_rules[0] = { ...proposed.world_rules[0], rule: '서자는 아버지를 아버지라 부르지 못한다.', importance: 'low' };
+
+    const note = applyLocks(current, proposed, [{ field: 'world_rule', rule: current.world_rules[0].rule }]);
+
+    expect(note.world_rules).toHaveLength(2);
+    expect(note.world_rules[0]).toEqual(current.world_rules[0]);
+  });
+});
+
+describe('createBibleVersion', () => {
+  it('applies the previous locks to builder output only', () => {
+    const first = createBibleVersion('hong', undefined, {
+      setting_note: sampleNote(),
+      source: 'author',
+      locks: [{ field: 'summary' }]
+    });
+    const proposed = { ...sampleNote(), summary: '새 줄거리' };
+
+    const built = createBibleVersion('hong', first, { setting_note: proposed, source: 'builder' });
+    const edited = createBibleVersion('hong', built, { setting_note: proposed, source: 'author' });
+
+    expect(built.version).toBe(2);
+    expect(built.locks).toEqual([{ field: 'summary' }]);
+    expect(built.setting_note.summary).toBe(first.setting_note.summary);
+    expect(edited.setting_note.summary).toBe('새 줄거리');
+  });
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createBibleVersion } from '../src/bible';
+import { BibleVersionConflictError, FileBibleStore, MemoryBibleStore } from '../src/bibleStore';
+import { sampleNote } from './sampleNote';
+
+function version(summary: string) {
+  return createBibleVersion('hong', undefined, { setting_note: { ...sampleNote(), summary }, source: 'author' });
+}
+
+describe('MemoryBibleStore', () => {
+  it('keeps every version and rejects writes that skip one', async () => {
+    const store = new MemoryBibleStore();
+    const first = version('첫 판');
+    await store.save(first);
+
+    await expect(store.save(first)).rejects.toBeInstanceOf(BibleVersionConflictError);
+    await store.save(createBibleVersion('hong', first, { setting_note: sampleNote(), source: 'builder' }));
+
+    expect((await store.listVersions('hong')).map(info => info.version)).toEqual([1, 2]);
+    expect((await store.get('hong', 1))?.setting_note.summary).toBe('첫 판');
+  });
+});
+
+describe('FileBibleStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bible-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores versions on disk under the series', async () => {
+    const store = new FileBibleStore(directory);
+    const first = version('첫 판');
+    await store.save(first);
+
+    const reopened = new FileBibleStore(directory);
+
+    expect(await reopened.get('hong')).toEqual(first);
+    expect(await reopened.listVersions('hong')).toEqual([
+      { version: 1, updated_at: first.updated_at, source: 'author' }
+    ]);
+  });
+
+  it('lets exactly one of two concurrent saves of a version win, with its content intact', async () => {
+    const store = new FileBibleStore(directory);
+    // Large notes keep the writes in flight long enough to overlap
+    const bibles = ['가', '나'].map(mark => version(mark.repeat(200_000)));
+
+    const results = await Promise.allSettled(bibles.map(bible => store.save(bible)));
+
+    const saved = results.flatMap((result, index) => (result.status === 'fulfilled' ? [bibles[index]] : []));
+    const failed = results.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+    expect(saved).toHaveLength(1);
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toBeInstanceOf(BibleVersionConflictError);
+    expect(await store.get('hong', 1)).toEqual(saved[0]);
+    expect(await fs.promises.readdir(path.join(directory, 'hong'))).toEqual(['v000001.json']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { findAliasCandidates, resolveEntities } from '../src/entityResolution';
+import { buildNameIndex, getGivenName, normalizeCharacterName } from '../src/names';
+import type { Character } from '../src/types';
+import { sampleNote } from './sampleNote';
+
+function character(name: string, aliases?: string[]): Character {
+  return {
+    name,
+    ...(aliases ? { aliases } : {}),
+    role: 'supporting',
+    traits: [],
+    goals: [],
+    relationships: []
+  };
+}
+
+describe('normalizeCharacterName', () => {
+  it('strips spacing, honorifics and the name-final 이/아/야 of narration and vocatives', () => {
+    expect(['홍 길동', '길동이', '길동아', '길동님', '춘향아', '철수야', '“홍길동이”'].map(normalizeCharacterName)).toEqual([
+      '홍길동',
+      '길동',
+      '길동',
+      '길동',
+      '춘향',
+      '철수',
+      '홍길동'
+    ]);
+  });
+
+  it('leaves two-syllable names and mismatched particles alone', () => {
+    expect(['순이', '미야', '길동야', '철수이', '님'].map(normalizeCharacterName)).toEqual(['순이', '미야', '길동야', '철수이', '님']);
+  });
+
+  it('finds the given name of full names only', () => {
+    expect(getGivenName('홍길동')).toBe('길동');
+    expect(getGivenName('남궁민수')).toBe('민수');
+    expect(getGivenName('길동')).toBeUndefined();
+    expect(getGivenName('활빈당두령')).toBeUndefined();
+  });
+});
+
+describe('buildNameIndex', () => {
+  it('resolves names, aliases and suffixed forms to their character', () => {
+    const lookup = buildNameIndex([character('홍길동', ['의적']), character('춘향')]);
+
+    expect(lookup('길동이')?.name).toBe('홍길동');
+    expect(lookup('의적')?.name).toBe('홍길동');
+    expect(lookup('춘향아')?.name).toBe('춘향');
+    expect(lookup('초란')).toBeUndefined();
+  });
+
+  it('leaves a given name shared by two full names unresolved', () => {
+    const lookup = buildNameIndex([character('홍길동'), character('김길동')]);
+
+    expect(lookup('길동')).toBeUndefined();
+    expect(lookup('김길동')?.name).toBe('김길동');
+  });
+});
+
+describe('findAliasCandidates', () => {
+  it('pairs entries by shared alias, suffixed form and unambiguous given name', () => {
+    const candidates = findAliasCandidates([
+      character('홍길동', ['의적']),
+      character('활빈당 두령', ['의적']),
+      character('길동이'),
+      character('춘향'),
+      character('춘향아'),
+      character('홍길동')
+    ]);
+
+    expect(candidates).toEqual([
+      { names: ['홍길동', '활빈당 두령'], reason: 'alias' },
+      { names: ['홍길동', '길동이'], reason: 'given_name' },
+      { names: ['춘향', '춘향아'], reason: 'suffix' }
+    ]);
+  });
+
+  it('does not guess between two full names sharing a given name', () => {
+    expect(findAliasCandidates([character('홍길동'), character('김길동'), character('길동')])).toEqual([]);
+  });
+});
+
+describe('resolveEntities', () => {
+  it('merges aliases into the full name and rewrites every reference to it', () => {
+    const note = sampleNote();
+    note.characters.push({
+      ...character('길동이'),
+      traits: ['둔갑술'],
+      relationships: [{ character: '홍길동', type: 'family', description: '본인' }]
+    });
+    note.characters[1].relationships = [{ character: '길동이', type: 'family', description: '서자' }];
+    note.timeline[1].involved_characters = ['초란', '길동이', '홍길동'];
+    note.factions![0].members = [{ character: '길동이', rank: '두령' }];
+
+    const resolved = resolveEntities(note, findAliasCandidates(note.characters));
+
+    expect(resolved.characters.map(entry => entry.name)).toEqual(['홍길동', '홍판서', '초란']);
+    expect(resolved.characters[0]).toMatchObject({ aliases: ['길동', '길동이'], traits: ['총명함', '둔갑술'] });
+    // The merged entries described each other, which is not a relationship
+    expect(resolved.characters[0].relationships.map(relationship => relationship.character)).toEqual(['홍판서', '초란']);
+    expect(resolved.characters[1].relationships[0].character).toBe('홍길동');
+    expect(resolved.timeline[1].involved_characters).toEqual(['초란', '홍길동']);
+    expect(resolved.factions![0].members[0].character).toBe('홍길동');
+  });
+
+  it('always merges entries with identical names but keeps rejected candidates apart', () => {
+    const note = sampleNote();
+    note.characters.push({ ...character('홍판서'), traits: ['고집'] }, character('판서 대감'));
+
+    const resolved = resolveEntities(note, []);
+
+    expect(resolved.characters.map(entry => entry.name)).toEqual(['홍길동', '홍판서', '초란', '판서 대감']);
+    expect(resolved.characters[1].traits).toEqual(['엄격함', '고집']);
+  });
+});
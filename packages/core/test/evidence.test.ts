@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createEvidenceLocator } from '../src/evidence';
+import { SAMPLE_TEXT } from './sampleNote';
+
+describe('createEvidenceLocator', () => {
+  it('anchors exact quotes to chapter, paragraph and offsets', () => {
+    const locate = createEvidenceLocator(SAMPLE_TEXT);
+    const quote = '둔갑술로 특재를 물리치고';
+
+    const anchor = locate(quote);
+
+    expect(anchor.status).toBe('exact');
+    expect(anchor.chapter).toBe(2);
+    expect(SAMPLE_TEXT.slice(anchor.start, anchor.end)).toBe(quote);
+  });
+
+  it('matches quotes that differ in whitespace and punctuation', () => {
+    const anchor = createEvidenceLocator(SAMPLE_TEXT)('합천  해인사를 털어, 활빈당의 두령이');
+
+    expect(anchor.status).not.toBe('not_found');
+    expect(anchor.chapter).toBe(3);
+  });
+
+  it('reports quotes that are not in the text', () => {
+    expect(createEvidenceLocator(SAMPLE_TEXT)('길동이 율도국의 왕이 되었다').status).toBe('not_found');
+  });
+
+  it('finds composed quotes in decomposed text and maps offsets back', () => {
+    const decomposed = SAMPLE_TEXT.normalize('NFD');
+    const quote = '활빈당의 두령';
+
+    const anchor = createEvidenceLocator(decomposed)(quote);
+
+    expect(anchor.status).toBe('exact');
+    expect(decomposed.slice(anchor.start, anchor.end).normalize('NFC')).toBe(quote);
+  });
+});
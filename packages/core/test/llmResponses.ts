@@ -0,0 +1,75 @@
+/**
+ * Canned model responses by schema name, served by the mock adapter and recorded as replay fixtures
+ * Used by: Tests - Pipeline tests without provider keys
+ * 
+ * @tags test, fixtures, mock
+ */
+
+import type { ConsistencyCheck, PersonaResult, SettingNoteDelta } from '../src/types';
+import { sampleNote } from './sampleNote';
+
+const consistencyCheck: ConsistencyCheck = {
+  continuity: {
+    score: 80,
+    issues: [{
+      type: 'continuity',
+      severity: 'high',
+      description: '특재를 물리친 뒤 바로 해인사로 향하는 경위가 빠져 있다',
+      evidence: ['둔갑술로 특재를 물리치고 집을 떠났다'],
+      suggested_fix: '집을 떠난 뒤의 행적을 한 문단 추가한다'
+    }]
+  },
+  character: { score: 90, issues: [] },
+  world_rules: {
+    score: 60,
+    issues: [{
+      type: 'world_rules',
+      severity: 'critical',
+      description: '서자가 아버지를 아버지라 부르는 장면이 규칙과 어긋난다',
+      evidence: ['아버지를 아버지라 부르지 못하고', '길동이 아버지라 크게 외쳤다']
+    }]
+  },
+  overall_score: 0
+};
+
+const personaResult: PersonaResult = {
+  persona_type: 'setting_obsessed',
+  persona_name: '설정 과몰입형 독자',
+  persona_description: '세계관 설정의 논리성을 중시하는 독자',
+  metrics: { satisfaction: 70, engagement: 80, frustration: 30 },
+  likes: ['서얼 차별이라는 사회 규칙'],
+  dislikes: ['도술의 한계가 드러나지 않음'],
+  suggestions: ['둔갑술의 대가를 설정한다'],
+  overall_reaction: 'positive'
+};
+
+const settingNoteDelta: SettingNoteDelta = {
+  new_characters: [{
+    name: '특재',
+    role: 'minor',
+    traits: ['잔인함'],
+    goals: ['길동 암살'],
+    relationships: [{ character: '초란', type: 'other', description: '고용주' }]
+  }],
+  character_updates: [{
+    name: '길동',
+    added_traits: ['도술에 능함'],
+    removed_traits: [],
+    added_goals: [],
+    removed_goals: [],
+    new_relationships: []
+  }],
+  new_world_rules: [],
+  new_timeline_events: [
+    { timestamp: '제4장', event: '율도국 정벌', involved_characters: ['길동'], importance: 'high' }
+  ],
+  summary: ''
+};
+
+export const LLM_RESPONSES: Record<string, unknown> = {
+  SettingNote: sampleNote(),
+  SettingNoteDelta: settingNoteDelta,
+  ConsistencyCheck: consistencyCheck,
+  PersonaResult: personaResult,
+  AliasDecisions: { decisions: [] }
+};
@@ -0,0 +1,139 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  createLLMAdapter,
+  LLMAdapter,
+  UsageTracker,
+  type GenerateOptions,
+  type LLMResponse
+} from '@page-atelier/llm';
+import { AggregateReportGenerator } from '../src/aggregate';
+import { ConsistencyChecker } from '../src/checker';
+import { anchorConsistencyCheck, createEvidenceLocator } from '../src/evidence';
+import { PersonaEvaluator } from '../src/personas';
+import { SettingBuilder } from '../src/settingBuilder';
+import { countLLMCalls } from '../src/usage';
+import { LLM_RESPONSES } from './llmResponses';
+import { SAMPLE_TEXT, sampleNote } from './sampleNote';
+
+// Recorded with the 'record' provider; re-record after changing a prompt template
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'llm');
+
+// Answers each call by its step label, e.g. persona:setting_obsessed
+class AnswerByLabel extends LLMAdapter {
+  constructor(private answer: (label?: string) => LLMResponse<unknown>) {
+    super({ provider: 'mock', model: 'mock' });
+  }
+
+  async generateJSON<T>(
+    _prompt: string,
+    _schema: z.ZodSchema<T>,
+    _systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    return this.answer(options?.label) as LLMResponse<T>;
+  }
+}
+
+const CHAPTER_4 = '제4장 율도국\n\n길동은 무리를 이끌고 율도국을 정벌하였다. 초란이 보낸 특재의 일은 다시 입에 오르지 않았다.';
+
+describe('analysis pipeline on recorded responses', () => {
+  it('builds the setting note, checks it and reports', async () => {
+    const tracker = new UsageTracker(createLLMAdapter({ provider: 'replay', model: 'fixture', fixtureDir: FIXTURE_DIR }));
+
+    const settingNote = await new SettingBuilder(tracker).generateSettingNote(SAMPLE_TEXT);
+    const check = await new ConsistencyChecker(tracker).checkConsistency(SAMPLE_TEXT, settingNote);
+    const personas = await new PersonaEvaluator(tracker).evaluateAllPersonas(SAMPLE_TEXT, settingNote);
+    const report = new AggregateReportGenerator().generateReport(check, personas.results);
+
+    expect(settingNote.characters.map(character => character.name)).toEqual(['홍길동', '홍판서', '초란']);
+    expect(settingNote.timeline.map(event => event.event)).toEqual(['길동 출생', '초란의 암살 시도', '활빈당 결성']);
+    // The weights, not the model, decide the overall score
+    expect(check.overall_score).toBe(Math.round(80 * 0.4 + 90 * 0.35 + 60 * 0.25));
+    expect(personas.results).toHaveLength(3);
+    expect(personas.failures).toEqual([]);
+    expect(report.action_items.length).toBeGreaterThan(0);
+    expect(countLLMCalls(tracker.getRecords())).toBe(tracker.getRecords().length);
+  });
+
+  it('merges a new chapter into the note', async () => {
+    const builder = new SettingBuilder(createLLMAdapter({ provider: 'replay', model: 'fixture', fixtureDir: FIXTURE_DIR }));
+
+    const { setting_note, changelog } = await builder.updateSettingNote(sampleNote(), CHAPTER_4, 4);
+
+    expect(changelog.new_characters.map(character => character.name)).toEqual(['특재']);
+    expect(changelog.changed_characters).toEqual([expect.objectContaining({ name: '홍길동', added_traits: ['도술에 능함'] })]);
+    expect(setting_note.timeline[setting_note.timeline.length - 1].event).toBe('율도국 정벌');
+  });
+
+  it('fails instead of answering prompts that were never recorded', async () => {
+    const builder = new SettingBuilder(createLLMAdapter({ provider: 'replay', model: 'fixture', fixtureDir: FIXTURE_DIR }));
+
+    await expect(builder.generateSettingNote('녹음되지 않은 원고')).rejects.toThrow(/No recorded fixture/);
+  });
+});
+
+describe('analysis pipeline on mock responses', () => {
+  it('anchors evidence quotes of the check in the manuscript', async () => {
+    const adapter = createLLMAdapter({ provider: 'mock', model: 'mock', mockData: LLM_RESPONSES });
+
+    const check = await new ConsistencyChecker(adapter).checkConsistency(SAMPLE_TEXT, sampleNote());
+    const anchored = anchorConsistencyCheck(check, createEvidenceLocator(SAMPLE_TEXT));
+
+    const [found] = anchored.continuity.issues[0].evidence_anchors ?? [];
+    expect(found).toMatchObject({ status: 'exact', chapter: 2 });
+    const statuses = anchored.world_rules.issues[0].evidence_anchors?.map(anchor => anchor.status);
+    expect(statuses).toEqual(['exact', 'not_found']);
+  });
+
+  it('reports personas whose answers are invalid and keeps the others', async () => {
+    const adapter = new AnswerByLabel(label => label === 'persona:romance_sub_focused'
+      ? { success: false, error: 'Invalid JSON response from model', errorKind: 'invalid_output' }
+      : { success: true, data: LLM_RESPONSES.PersonaResult });
+
+    const { results, failures } = await new PersonaEvaluator(adapter).evaluateAllPersonas(SAMPLE_TEXT, sampleNote());
+
+    expect(results).toHaveLength(2);
+    expect(failures).toEqual([{
+      persona_type: 'romance_sub_focused',
+      error: expect.stringMatching(/no valid response/)
+    }]);
+  });
+
+  it('ends the persona step on fatal provider errors', async () => {
+    const adapter = new AnswerByLabel(() => ({ success: false, error: 'Incorrect API key', errorKind: 'auth' }));
+
+    await expect(new PersonaEvaluator(adapter).evaluateAllPersonas(SAMPLE_TEXT, sampleNote()))
+      .rejects.toMatchObject({ name: 'LLMError', kind: 'auth' });
+  });
+});
+
+describe('focused steps on mock responses', () => {
+  const adapter = createLLMAdapter({
+    provider: 'mock',
+    model: 'mock',
+    mockData: {
+      CategoryCheck: { score: 'high' },
+      CharacterList: [{ name: '홍길동' }],
+      WorldRuleList: 'none',
+      TimelineEventList: [{ event: '길동 출생' }]
+    }
+  });
+
+  it('fails focused checks instead of scoring them', async () => {
+    const checker = new ConsistencyChecker(adapter);
+
+    await expect(checker.checkContinuity(SAMPLE_TEXT, sampleNote())).rejects.toThrow(/Failed to check continuity/);
+    await expect(checker.checkCharacterConsistency(SAMPLE_TEXT, sampleNote())).rejects.toThrow(/Failed to check character/);
+    await expect(checker.checkWorldRules(SAMPLE_TEXT, sampleNote())).rejects.toThrow(/Failed to check world rules/);
+  });
+
+  it('fails extractions instead of returning empty lists', async () => {
+    const builder = new SettingBuilder(adapter);
+
+    await expect(builder.extractCharacters(SAMPLE_TEXT)).rejects.toThrow(/Failed to extract characters/);
+    await expect(builder.extractWorldRules(SAMPLE_TEXT)).rejects.toThrow(/Failed to extract world rules/);
+    await expect(builder.extractTimeline(SAMPLE_TEXT)).rejects.toThrow(/Failed to extract timeline/);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Shared 홍길동전 setting note and manuscript for core tests
+ * Used by: Tests - Deterministic setting note modules and the mocked pipeline
+ * 
+ * @tags test, fixtures
+ */
+
+import type { SettingNote } from '../src/types';
+
+export const SAMPLE_TEXT = `제1장 탄생
+
+홍길동은 세종 때 홍판서의 서자로 태어났다. 아버지를 아버지라 부르지 못하고 형을 형이라 부르지 못했다.
+
+제2장 출가
+
+초란이 자객 특재를 보내 길동을 해치려 했으나, 길동은 둔갑술로 특재를 물리치고 집을 떠났다.
+
+제3장 활빈당
+
+길동은 합천 해인사를 털어 활빈당의 두령이 되었다.`;
+
+/**
+ * Builds a fresh copy of the sample note, so tests may mutate it
+ * Used by: Tests - All setting note tests
+ * 
+ * @tags test, fixtures
+ */
+export function sampleNote(): SettingNote {
+  return {
+    title: '홍길동전',
+    genre: ['고전소설'],
+    summary: '서자로 태어난 홍길동이 활빈당을 이끄는 이야기',
+    characters: [
+      {
+        name: '홍길동',
+        aliases: ['길동'],
+        role: 'protagonist',
+        traits: ['총명함'],
+        goals: ['호부호형'],
+        relationships: [
+          { character: '홍판서', type: 'family', description: '아버지' },
+          { character: '초란', type: 'enemy', description: '자신을 해치려 한 첩' }
+        ],
+        speech_pattern: '정중하나 단호함'
+      },
+      {
+        name: '홍판서',
+        role: 'supporting',
+        traits: ['엄격함'],
+        goals: ['가문 유지'],
+        relationships: [{ character: '홍길동', type: 'family', description: '서자' }],
+        speech_pattern: '권위적'
+      },
+      {
+        name: '초란',
+        role: 'antagonist',
+        traits: ['시기심'],
+        goals: ['길동 제거'],
+        relationships: [{ character: '홍길동', type: 'enemy', description: '눈엣가시' }],
+        speech_pattern: '간사함'
+      }
+    ],
+    world_rules: [
+      {
+        category: 'society',
+        rule: '서자는 아버지를 아버지라 부르지 못한다',
+        importance: 'critical',
+        evidence: '아버지를 아버지라 부르지 못하고'
+      },
+      { category: 'magic', rule: '도술이 존재한다', importance: 'high', evidence: '둔갑술로 특재를 물리치고' }
+    ],
+    timeline: [
+      { timestamp: '제1장', event: '길동 출생', involved_characters: ['홍길동'], importance: 'high' },
+      { timestamp: '제2장', event: '초란의 암살 시도', involved_characters: ['초란', '홍길동'], importance: 'critical' },
+      { timestamp: '제3장', event: '활빈당 결성', involved_characters: ['홍길동'], importance: 'critical' }
+    ],
+    factions: [
+      {
+        name: '활빈당',
+        type: 'gang',
+        description: '의적 무리',
+        leader: '홍길동',
+        members: [{ character: '홍길동', rank: '두령' }],
+        base: '합천'
+      }
+    ],
+    locations: [{ name: '합천', type: 'settlement', description: '해인사가 있는 고을' }],
+    items: [],
+    power_systems: []
+  };
+}
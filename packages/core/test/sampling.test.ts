@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { AggregateReportGenerator } from '../src/aggregate';
+import { computeScoreStats, getSampleCount, mergeIssues } from '../src/sampling';
+import type { ConsistencyCheck, Issue } from '../src/types';
+
+function issue(overrides: Partial<Issue>): Issue {
+  return {
+    type: 'continuity',
+    severity: 'medium',
+    description: '홍길동이 3장에서 이미 죽었는데 5장에 다시 등장한다',
+    evidence: [],
+    ...overrides
+  };
+}
+
+function check(score: number, samples?: { mean: number; stddev: number; count: number }): ConsistencyCheck {
+  const stats = samples && {
+    mean: samples.mean,
+    stddev: samples.stddev,
+    min: samples.mean - samples.stddev,
+    max: samples.mean + samples.stddev,
+    samples: samples.count
+  };
+  return {
+    continuity: { score, issues: [] },
+    character: { score, issues: [] },
+    world_rules: { score, issues: [] },
+    overall_score: score,
+    ...(stats ? { score_stats: { continuity: stats, character: stats, world_rules: stats, overall: stats } } : {})
+  };
+}
+
+describe('mergeIssues', () => {
+  it('combines the same problem across samples and counts the samples that reported it', () => {
+    const merged = mergeIssues([
+      [issue({ evidence: ['"길동은 숨을 거두었다"'] }), issue({ type: 'character', description: '말투가 갑자기 바뀐다' })],
+      [issue({ severity: 'high', description: '죽은 홍길동이 5장에서 다시 나온다', evidence: ['길동은 숨을 거두었다', '길동이 문을 열었다'], suggested_fix: '5장 등장 인물을 바꾸세요' })],
+      [issue({ description: '홍길동이 3장에서 이미 죽었는데 5장에 다시 등장한다.' })]
+    ]);
+
+    expect(merged).toHaveLength(2);
+    // The matching quote groups the rephrased issue; the highest severity represents the cluster
+    expect(merged[0]).toMatchObject({
+      severity: 'high',
+      occurrences: 3,
+      suggested_fix: '5장 등장 인물을 바꾸세요',
+      evidence: ['"길동은 숨을 거두었다"', '길동은 숨을 거두었다', '길동이 문을 열었다']
+    });
+    expect(merged[1]).toMatchObject({ type: 'character', occurrences: 1 });
+  });
+
+  it('keeps issues of different types and distinct issues from one sample apart', () => {
+    const merged = mergeIssues([
+      [issue({}), issue({ description: '홍길동이 3장에서 이미 죽었는데 5장에 다시 등장한다!' })],
+      [issue({ type: 'world_rules' })]
+    ]);
+
+    expect(merged.map(entry => [entry.type, entry.occurrences])).toEqual([
+      ['continuity', 1],
+      ['continuity', 1],
+      ['world_rules', 1]
+    ]);
+  });
+
+  it('orders merged issues by agreement, then severity', () => {
+    const merged = mergeIssues([
+      [issue({ severity: 'low' }), issue({ type: 'character', severity: 'critical', description: '나이가 맞지 않는다' })],
+      [issue({ severity: 'low' })]
+    ]);
+
+    expect(merged.map(entry => entry.severity)).toEqual(['low', 'critical']);
+  });
+});
+
+describe('computeScoreStats', () => {
+  it('reports mean, population standard deviation and range rounded to one decimal', () => {
+    expect(computeScoreStats([70, 80, 90])).toEqual({ mean: 80, stddev: 8.2, min: 70, max: 90, samples: 3 });
+    expect(computeScoreStats([75])).toEqual({ mean: 75, stddev: 0, min: 75, max: 75, samples: 1 });
+  });
+
+  it('clamps requested sample counts', () => {
+    expect([undefined, 0, 2.7, 9].map(getSampleCount)).toEqual([1, 1, 2, 5]);
+  });
+});
+
+describe('confidence score', () => {
+  const generator = new AggregateReportGenerator();
+
+  it('is the chance that a re-run lands in the same verdict band', () => {
+    expect(generator.generateReport(check(90), []).confidence_score).toBe(89);
+    expect(generator.generateReport(check(70), []).confidence_score).toBe(79);
+    // A total on the threshold is a coin flip
+    expect(generator.generateReport(check(80), []).confidence_score).toBe(50);
+  });
+
+  it('grows with agreeing samples and shrinks with spread', () => {
+    const single = generator.generateReport(check(85), []).confidence_score;
+    const agreeing = generator.generateReport(check(85, { mean: 85, stddev: 1, count: 5 }), []).confidence_score;
+    const scattered = generator.generateReport(check(85, { mean: 85, stddev: 15, count: 5 }), []).confidence_score;
+
+    expect(agreeing).toBeGreaterThan(single);
+    expect(scattered).toBeLessThan(agreeing);
+    // Two agreeing samples are not taken as certainty
+    expect(generator.generateReport(check(85, { mean: 85, stddev: 0, count: 2 }), []).confidence_score).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { exportSettingNote, SETTING_NOTE_EXPORT_FORMATS } from '../src/settingExport';
+import { sampleNote } from './sampleNote';
+
+describe('exportSettingNote', () => {
+  it('exports every format with its file type', () => {
+    for (const format of SETTING_NOTE_EXPORT_FORMATS) {
+      const exported = exportSettingNote(sampleNote(), format);
+      expect(exported.format).toBe(format);
+      expect(exported.content.length).toBeGreaterThan(0);
+      expect(exported.extension).not.toMatch(/^\./);
+    }
+  });
+
+  it('draws each relationship as a mermaid edge', () => {
+    const { content } = exportSettingNote(sampleNote(), 'relationships_mermaid');
+
+    expect(content).toContain('graph LR');
+    expect(content).toMatch(/c0 -->\|"적"\| c2/);
+    expect(content).toContain('홍길동');
+    expect(content).toContain('초란');
+  });
+
+  it('quotes CSV fields that contain separators', () => {
+    const note = sampleNote();
+    note.timeline[0].event = '길동 출생, 서자로 자람';
+
+    const { content, mime_type } = exportSettingNote(note, 'timeline_csv');
+
+    expect(mime_type).toContain('csv');
+    expect(content).toContain('"길동 출생, 서자로 자람"');
+  });
+
+  it('escapes markup in GraphML', () => {
+    const note = sampleNote();
+    note.characters[0].relationships[0].description = '<아버지> & 스승';
+
+    const { content } = exportSettingNote(note, 'relationships_graphml');
+
+    expect(content).toContain('&lt;아버지&gt; &amp; 스승');
+  });
+});
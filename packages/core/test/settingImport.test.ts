@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { importSettingNote, SettingNoteImportError } from '../src/settingImport';
+
+const MARKDOWN = `# 홍길동전
+
+## 장르
+- 고전소설
+
+## 등장인물
+
+### 홍길동
+- 역할: 주인공
+- 성격: 총명함, 의로움
+- 목표: 호부호형
+- 혈액형: A형
+
+### 초란
+- 역할: 악역
+- 성격: 시기심
+
+## 세계관
+- 서자는 아버지를 아버지라 부르지 못한다
+
+## 연표
+| 시점 | 사건 |
+| --- | --- |
+| 제1장 | 길동 출생 |
+| 제3장 | 활빈당 결성 |
+`;
+
+const YAML = `title: 홍길동전
+genre: [고전소설]
+characters:
+  - name: 홍길동
+    role: protagonist
+    traits: [총명함]
+    goals: [호부호형]
+timeline:
+  - timestamp: 1443-01-01
+    event: 길동 출생
+`;
+
+describe('importSettingNote', () => {
+  it('maps a Markdown 설정집 onto the setting note', () => {
+    const { format, setting_note } = importSettingNote(MARKDOWN);
+
+    expect(format).toBe('markdown');
+    expect(setting_note.title).toBe('홍길동전');
+    expect(setting_note.characters.map(character => character.name)).toEqual(['홍길동', '초란']);
+    expect(setting_note.characters[0].role).toBe('protagonist');
+    expect(setting_note.characters[0].traits).toEqual(['총명함', '의로움']);
+    expect(setting_note.world_rules[0].rule).toBe('서자는 아버지를 아버지라 부르지 못한다');
+    expect(setting_note.timeline.map(event => event.event)).toEqual(['길동 출생', '활빈당 결성']);
+  });
+
+  it('lists fields it cannot map instead of guessing', () => {
+    const { unmapped } = importSettingNote(MARKDOWN);
+
+    expect(unmapped.some(field => field.path.includes('혈액형'))).toBe(true);
+  });
+
+  it('detects YAML and keeps dates as text', () => {
+    const { format, setting_note } = importSettingNote(YAML);
+
+    expect(format).toBe('yaml');
+    expect(setting_note.timeline[0].timestamp).toBe('1443-01-01');
+  });
+
+  it('rejects documents without characters, rules or events', () => {
+    expect(() => importSettingNote('# 제목만 있는 문서\n\n본문')).toThrow(SettingNoteImportError);
+    expect(() => importSettingNote('title: [', 'yaml')).toThrow(SettingNoteImportError);
+  });
+});
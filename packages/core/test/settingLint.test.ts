@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { lintSettingNote } from '../src/settingLint';
+import { sampleNote } from './sampleNote';
+
+describe('lintSettingNote', () => {
+  it('accepts a consistent note', () => {
+    expect(lintSettingNote(sampleNote()).filter(warning => warning.severity === 'warning')).toEqual([]);
+  });
+
+  it('flags relationships and timeline events naming unknown characters', () => {
+    const note = sampleNote();
+    note.characters[0].relationships.push({ character: '김삿갓', type: 'friend', description: '길동무' });
+    note.timeline[0].involved_characters.push('임꺽정');
+
+    const warnings = lintSettingNote(note);
+
+    expect(warnings).toContainEqual(expect.objectContaining({
+      rule: 'unknown_character',
+      path: 'characters[0].relationships[2]'
+    }));
+    expect(warnings.some(warning => warning.rule === 'unknown_character' && warning.message.includes('임꺽정'))).toBe(true);
+  });
+
+  it('flags self relationships and duplicate characters', () => {
+    const note = sampleNote();
+    note.characters[1].relationships.push({ character: '홍판서', type: 'other', description: '자기 자신' });
+    note.characters.push({ ...note.characters[2] });
+
+    const rules = lintSettingNote(note).map(warning => warning.rule);
+
+    expect(rules).toContain('self_relationship');
+    expect(rules).toContain('duplicate_character');
+  });
+
+  it('flags a note with more than one protagonist', () => {
+    const note = sampleNote();
+    note.characters[2].role = 'protagonist';
+
+    expect(lintSettingNote(note).map(warning => warning.rule)).toContain('protagonist_count');
+  });
+});
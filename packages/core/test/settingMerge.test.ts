@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { applySettingNoteDelta } from '../src/settingMerge';
+import type { SettingNoteDelta } from '../src/types';
+import { sampleNote } from './sampleNote';
+
+function delta(changes: Partial<SettingNoteDelta>): SettingNoteDelta {
+  return {
+    new_characters: [],
+    character_updates: [],
+    new_world_rules: [],
+    new_timeline_events: [],
+    summary: '',
+    ...changes
+  };
+}
+
+describe('applySettingNoteDelta', () => {
+  it('adds new facts and lists them in the changelog', () => {
+    const { setting_note, changelog } = applySettingNoteDelta(sampleNote(), delta({
+      new_characters: [{
+        name: '특재',
+        role: 'minor',
+        traits: ['잔인함'],
+        goals: ['길동 암살'],
+        relationships: [{ character: '초란', type: 'other', description: '고용주' }]
+      }],
+      new_timeline_events: [
+        { timestamp: '제4장', event: '율도국 정벌', involved_characters: ['길동'], importance: 'high' }
+      ],
+      summary: '길동이 율도국 왕이 되는 이야기'
+    }), 4);
+
+    expect(changelog.chapter).toBe(4);
+    expect(changelog.new_characters.map(character => character.name)).toEqual(['특재']);
+    expect(changelog.new_timeline_events[0].involved_characters).toEqual(['홍길동']);
+    expect(changelog.summary_updated).toBe(true);
+    expect(setting_note.characters).toHaveLength(4);
+    expect(setting_note.summary).toBe('길동이 율도국 왕이 되는 이야기');
+  });
+
+  it('skips restated facts and merges known characters under their canonical name', () => {
+    const note = sampleNote();
+    const { setting_note, changelog } = applySettingNoteDelta(note, delta({
+      new_characters: [{ ...note.characters[0], name: '길동', traits: ['총명함', '도술에 능함'] }],
+      new_world_rules: [{ ...note.world_rules[0], rule: '서자는 아버지를 아버지라 부르지 못한다.' }],
+      new_timeline_events: [{ ...note.timeline[0] }]
+    }), 4);
+
+    expect(changelog.new_characters).toEqual([]);
+    expect(changelog.new_world_rules).toEqual([]);
+    expect(changelog.new_timeline_events).toEqual([]);
+    expect(changelog.changed_characters).toEqual([expect.objectContaining({
+      name: '홍길동',
+      added_traits: ['도술에 능함']
+    })]);
+    expect(setting_note.characters).toHaveLength(3);
+  });
+
+  it('removes only the traits the delta names', () => {
+    const { setting_note, changelog } = applySettingNoteDelta(sampleNote(), delta({
+      character_updates: [{
+        name: '초란',
+        added_traits: ['후회'],
+        removed_traits: ['시기심'],
+        added_goals: [],
+        removed_goals: [],
+        new_relationships: []
+      }]
+    }), 4);
+
+    expect(setting_note.characters[2].traits).toEqual(['후회']);
+    expect(changelog.changed_characters[0]).toMatchObject({ removed_traits: ['시기심'], added_traits: ['후회'] });
+  });
+
+  it('lists item transfers and changes to known entities', () => {
+    const note = sampleNote();
+    note.items = [{
+      name: '부채',
+      type: 'artifact',
+      description: '도술을 부리는 부채',
+      holders: [{ character: '홍길동' }]
+    }];
+
+    const { changelog } = applySettingNoteDelta(note, delta({
+      items: [{ ...note.items[0], holders: [{ character: '홍길동' }, { character: '초란' }] }],
+      factions: [{ ...note.factions![0], leader: '초란', members: [{ character: '홍길동', rank: '고문' }] }]
+    }), 5);
+
+    expect(changelog.item_transfers).toEqual([{ item: '부채', holder: { character: '초란' } }]);
+    const faction = changelog.changed_entities.find(change => change.section === 'factions');
+    expect(faction?.name).toBe('활빈당');
+    expect(faction?.changes).toContainEqual({ field: 'leader', before: '홍길동', after: '초란' });
+    expect(faction?.changes.some(change => change.field === 'members.홍길동')).toBe(true);
+  });
+
+  it('leaves locked fields out of the note and the changelog', () => {
+    const note = sampleNote();
+    const { setting_note, changelog } = applySettingNoteDelta(note, delta({
+      character_updates: [{
+        name: '홍길동',
+        added_traits: ['오만함'],
+        removed_traits: [],
+        added_goals: ['율도국 건국'],
+        removed_goals: [],
+        new_relationships: []
+      }],
+      summary: '새 줄거리'
+    }), 4, [{ field: 'summary' }, { field: 'character', name: '홍길동', attribute: 'traits' }]);
+
+    expect(setting_note.summary).toBe(note.summary);
+    expect(setting_note.characters[0].traits).toEqual(['총명함']);
+    expect(setting_note.characters[0].goals).toEqual(['호부호형', '율도국 건국']);
+    expect(changelog.summary_updated).toBe(false);
+    expect(changelog.changed_characters[0].added_traits).toEqual([]);
+  });
+});
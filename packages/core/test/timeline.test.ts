@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { orderTimeline, parseNumeral, parseTimestamp } from '../src/timeline';
+import type { TimelineEvent } from '../src/types';
+
+function event(timestamp: string, name: string, after?: string[]): TimelineEvent {
+  return { timestamp, event: name, involved_characters: [], importance: 'medium', ...(after ? { after } : {}) };
+}
+
+describe('parseTimestamp', () => {
+  it('reads chapters, eras and dates', () => {
+    expect(parseNumeral('二十三')).toBe(23);
+    expect(parseTimestamp('제3장')).toMatchObject({ chapter: 3 });
+    expect(parseTimestamp('세종 15년 3월')).toMatchObject({ era: '세종', year: 15, month: 3 });
+  });
+});
+
+describe('orderTimeline', () => {
+  it('orders events by date, then by stated precedence', () => {
+    const { timeline, conflicts } = orderTimeline([
+      event('세종 20년', '율도국 정벌'),
+      event('세종 15년', '활빈당 결성', ['해인사 습격']),
+      event('세종 15년', '해인사 습격'),
+      event('세종 10년', '길동 출생')
+    ]);
+
+    expect(timeline.map(item => item.event)).toEqual(['길동 출생', '해인사 습격', '활빈당 결성', '율도국 정벌']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('reports precedence that contradicts the dates', () => {
+    const { timeline, conflicts } = orderTimeline([
+      event('세종 10년', '길동 출생', ['율도국 정벌']),
+      event('세종 20년', '율도국 정벌')
+    ]);
+
+    expect(timeline).toHaveLength(2);
+    expect(conflicts.length).toBeGreaterThan(0);
+  });
+
+  it('orders long timelines without quadratic constraint sets', () => {
+    const events = Array.from({ length: 2000 }, (_, index) => event(`세종 ${2000 - index}년`, `사건 ${index}`));
+
+    const started = performance.now();
+    const { timeline } = orderTimeline(events);
+
+    expect(performance.now() - started).toBeLessThan(2000);
+    expect(timeline[0].event).toBe('사건 1999');
+    expect(timeline[timeline.length - 1].event).toBe('사건 0');
+  });
+});
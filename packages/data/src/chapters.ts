@@ -0,0 +1,87 @@
+/**
+ * Chapter splitting for serialized novel text
+ * Used by: Backend - Text loaders and chunked setting note generation
+ * 
+ * @tags parser, chapter-extractor, web-novel
+ */
+
+export interface Chapter {
+  number: number;
+  title: string;
+  content: string;
+}
+
+// Longer lines are prose that happens to start like a heading
+const MAX_HEADING_LENGTH = 50;
+
+// ==title==, 제12화 / 12화 / 제3장 / 7회 with an optional subtitle, Chapter 4
+const HEADING_PATTERNS = [
+  /^==(.*)==$/,
+  /^((?:제\s*)?\d+\s*[화장회](?:[\s.:\-–—].*)?)$/,
+  /^(chapter\s+\d+(?:[\s.:\-–—].*)?)$/i
+];
+
+/**
+ * Parses text into chapters at heading lines, numbering them in order
+ * Text without any heading becomes a single untitled chapter
+ * Used by: Backend - loadHonggildongjeonText and chunked setting note generation
+ * 
+ * @tags parser, chapter-extractor
+ */
+export function parseChapters(text: string): Chapter[] {
+  const chapters: Chapter[] = [];
+  const lines = text.split('\n');
+  
+  let currentChapter: Chapter | null = null;
+  let chapterContent: string[] = [];
+  let chapterNumber = 0;
+  
+  for (const line of lines) {
+    const title = parseHeading(line);
+    if (title !== undefined) {
+      // Save previous chapter if exists
+      if (currentChapter) {
+        currentChapter.content = chapterContent.join('\n').trim();
+        chapters.push(currentChapter);
+        chapterContent = [];
+      }
+      
+      chapterNumber++;
+      currentChapter = {
+        number: chapterNumber,
+        title,
+        content: ''
+      };
+    } else {
+      // Add line to current chapter content
+      chapterContent.push(line);
+    }
+  }
+  
+  // Save last chapter
+  if (currentChapter) {
+    currentChapter.content = chapterContent.join('\n').trim();
+    chapters.push(currentChapter);
+  } else if (text.trim()) {
+    chapters.push({ number: 1, title: '', content: text.trim() });
+  }
+  
+  return chapters;
+}
+
+/**
+ * Returns the chapter title when a line is a chapter heading
+ * Used by: Backend - parseChapters and evidence anchoring
+ * 
+ * @tags parser, heading
+ */
+export function parseHeading(line: string): string | undefined {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return undefined;
+
+  for (const pattern of HEADING_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
@@ -7,6 +7,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseChapters, type Chapter } from './chapters';
 
 export interface TextData {
   title: string;
@@ -19,12 +20,6 @@ export interface TextData {
   };
 }
 
-export interface Chapter {
-  number: number;
-  title: string;
-  content: string;
-}
-
 /**
  * Loads and processes Honggildongjeon text from example.txt
  * Used by: Backend - API endpoint for initial text loading
@@ -37,7 +32,7 @@ export async function loadHonggildongjeonText(): Promise<TextData> {
     const filePath = path.resolve(process.cwd(), 'example.txt');
     const fullText = await fs.promises.readFile(filePath, 'utf-8');
     
-    // Parse chapters based on == markers
+    // Parse chapters at == markers and chapter headings
     const chapters = parseChapters(fullText);
     
     return {
@@ -57,54 +52,6 @@ export async function loadHonggildongjeonText(): Promise<TextData> {
   }
 }
 
-/**
- * Parses text into chapters based on == markers
- * Used by: Backend - loadHonggildongjeonText for chapter extraction
- * 
- * @tags parser, chapter-extractor
- */
-function parseChapters(text: string): Chapter[] {
-  const chapters: Chapter[] = [];
-  const lines = text.split('\n');
-  
-  let currentChapter: Chapter | null = null;
-  let chapterContent: string[] = [];
-  let chapterNumber = 0;
-  
-  for (const line of lines) {
-    // Check if line starts with == (chapter marker)
-    if (line.startsWith('==') && line.endsWith('==')) {
-      // Save previous chapter if exists
-      if (currentChapter) {
-        currentChapter.content = chapterContent.join('\n').trim();
-        chapters.push(currentChapter);
-        chapterContent = [];
-      }
-      
-      // Extract chapter title
-      const title = line.replace(/==/g, '').trim();
-      chapterNumber++;
-      
-      currentChapter = {
-        number: chapterNumber,
-        title,
-        content: ''
-      };
-    } else {
-      // Add line to current chapter content
-      chapterContent.push(line);
-    }
-  }
-  
-  // Save last chapter
-  if (currentChapter) {
-    currentChapter.content = chapterContent.join('\n').trim();
-    chapters.push(currentChapter);
-  }
-  
-  return chapters;
-}
-
 /**
  * Returns sample Honggildongjeon data for development/testing
  * Used by: Backend - Fallback when example.txt is not available
@@ -130,20 +77,7 @@ export function getSampleData(): TextData {
   };
 }
 
-/**
- * Gets cached setting note data (to be implemented)
- * Used by: Backend - For reducing LLM calls when setting note already exists
- * 
- * @tags cache, setting-note, optimization
- */
-export function getCachedSettingNote(): any | null {
-  // TODO: Implement caching logic for setting notes
-  // This will store previously generated setting notes to avoid redundant LLM calls
-  return null;
-}
-
 export default {
   loadHonggildongjeonText,
-  getSampleData,
-  getCachedSettingNote
+  getSampleData
 };
\ No newline at end of file
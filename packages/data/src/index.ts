@@ -1,9 +1,10 @@
 /**
  * Data package main export
- * Used by: Backend - For accessing Honggildongjeon text data
+ * Used by: Backend - For accessing Honggildongjeon text data and splitting chapters
  * 
  * @tags data, export, honggildongjeon
  */
 
+export * from './chapters';
 export * from './honggildongjeon';
 export { default as honggildongjeon } from './honggildongjeon';
\ No newline at end of file
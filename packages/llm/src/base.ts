@@ -0,0 +1,674 @@
+/**
+ * Base LLM adapter contract shared by all providers
+ * Used by: Backend - Provider adapters and adapter wrappers
+ * 
+ * @tags llm, adapter, base-class, provider-agnostic
+ */
+
+import { z } from 'zod';
+import {
+  LLMAbortError,
+  LLMError,
+  classifyError,
+  throwIfAborted,
+  type LLMErrorKind
+} from './errors';
+import { defaultLogger, type Logger } from './logger';
+import { parsePartialJSON } from './partialJson';
+import {
+  estimateTokens,
+  getSharedRateLimiter,
+  type RateLimitConfig,
+  type RateLimiter
+} from './rateLimiter';
+import { noopTracer, type Span, type Tracer } from './tracing';
+
+export type LLMProvider =
+  | 'gemini'
+  | 'openai'
+  | 'openai-compatible'
+  | 'fallback'
+  | 'record'
+  | 'replay'
+  | 'mock';
+
+export type JsonMode = 'json_schema' | 'json_object' | 'none';
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  apiKey?: string;
+  model?: string;
+  temperature?: number;
+  maxRetries?: number;
+  maxRepairs?: number;
+  salvagePartial?: boolean;
+  jsonMode?: JsonMode;
+  // Default time budget per generateJSON call, including retries and repairs
+  timeoutMs?: number;
+  // Shared by all adapters for the same provider, baseURL and model
+  rateLimit?: RateLimitConfig;
+  // openai-compatible provider
+  baseURL?: string;
+  headers?: Record<string, string>;
+  // fallback provider
+  chain?: LLMConfig[];
+  // record/replay/mock providers
+  fixtureDir?: string;
+  upstream?: LLMConfig;
+  mockData?: Record<string, unknown>;
+}
+
+export interface LLMResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorKind?: LLMErrorKind;
+  retryAfterMs?: number;
+  rawText?: string;
+  provider?: LLMProvider;
+  model?: string;
+  attempts?: FallbackAttempt[];
+  retries?: number;
+  repairs?: number;
+  salvaged?: boolean;
+  cached?: boolean;
+  droppedItems?: number;
+  usage?: LLMUsage;
+}
+
+export interface PromptRef {
+  id: string; // e.g. 'consistency.check'
+  version: string;
+  locale: string;
+}
+
+export interface GenerateOptions {
+  // Identifies the pipeline step in usage records, e.g. 'setting_note'
+  label?: string;
+  // Cancels the call; the adapter rejects with LLMAbortError
+  signal?: AbortSignal;
+  // Overrides LLMConfig.timeoutMs for this call
+  timeoutMs?: number;
+  // Index of a repeated sample of the same prompt; keeps cached and recorded samples apart
+  sample?: number;
+  // Prompt template that produced the prompt, recorded in usage
+  prompt?: PromptRef;
+  // Receives retries, validation failures and errors; never sees manuscript text unless configured to
+  logger?: Logger;
+  // Records one 'llm.generate' span per call, nested under parentSpan when given
+  tracer?: Tracer;
+  parentSpan?: Span;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface Completion {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export type StreamEvent<T> =
+  | { type: 'token'; text: string }
+  | { type: 'partial'; data: DeepPartial<T> }
+  | { type: 'done'; response: LLMResponse<T> };
+
+// Receives each streamed chunk and the text of the current completion so far
+export type TextDeltaHandler = (delta: string, text: string) => void;
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; parsed?: unknown; problems: string[] };
+
+export interface ModelInfo {
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+}
+
+export interface FallbackAttempt {
+  provider?: LLMProvider;
+  model?: string;
+  error: string;
+  errorKind?: LLMErrorKind;
+  // What the failed provider spent before giving up
+  usage?: LLMUsage;
+  retries?: number;
+  repairs?: number;
+}
+
+const MAX_RETRY_AFTER_MS = 30000;
+
+/**
+ * Base LLM adapter class for JSON generation with schema validation
+ * Used by: Backend - All LLM-based generation modules
+ * 
+ * @tags llm-base, json-generation, schema-validation
+ */
+export abstract class LLMAdapter {
+  protected provider: LLMProvider;
+  protected model: string;
+  protected temperature: number;
+  protected maxRetries: number;
+  protected maxRepairs: number;
+  protected salvagePartial: boolean;
+  protected timeoutMs?: number;
+  protected rateLimiter?: RateLimiter;
+
+  constructor(config: LLMConfig) {
+    this.provider = config.provider;
+    this.model = config.model ?? '';
+    this.temperature = config.temperature ?? 0.3;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.maxRepairs = config.maxRepairs ?? 2;
+    this.salvagePartial = config.salvagePartial ?? true;
+    this.timeoutMs = config.timeoutMs;
+    if (config.rateLimit) {
+      const key = [config.provider, config.baseURL ?? '', config.model ?? ''].join('|');
+      this.rateLimiter = getSharedRateLimiter(key, config.rateLimit);
+    }
+  }
+
+  /**
+   * Returns the provider, model and sampling temperature this adapter uses
+   * Used by: Backend - Fallback reporting, call attribution and cache keys
+   * 
+   * @tags model-info, provider
+   */
+  getModelInfo(): ModelInfo {
+    return { provider: this.provider, model: this.model, temperature: this.temperature };
+  }
+
+  abstract generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>>;
+
+  /**
+   * Streams tokens and progressively-parsed partial objects, ending with the validated response
+   * Adapters without native streaming emit only the final 'done' event
+   * Used by: Backend - Live issue reporting while a consistency check is generated
+   * 
+   * @tags streaming, json-generation, partial-results
+   */
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    yield { type: 'done', response: await this.generateJSON(prompt, schema, systemPrompt, options) };
+  }
+
+  /**
+   * Turns a callback-driven streaming generation into stream events
+   * Used by: Backend - Provider adapters implementing generateJSONStream
+   * 
+   * @tags streaming, async-generator, partial-json
+   */
+  protected async *streamEvents<T>(
+    run: (onDelta: TextDeltaHandler) => Promise<LLMResponse<T>>
+  ): AsyncGenerator<StreamEvent<T>> {
+    const pending: StreamEvent<T>[] = [];
+    let failure: { error: unknown } | undefined;
+    let wake: (() => void) | undefined;
+    let lastPartial = '';
+
+    const push = (event: StreamEvent<T>) => {
+      pending.push(event);
+      wake?.();
+    };
+
+    run((delta, text) => {
+      push({ type: 'token', text: delta });
+      // Only emit partials when a newly completed value changes the snapshot
+      const partial = parsePartialJSON(text);
+      const serialized = partial === undefined ? '' : JSON.stringify(partial);
+      if (serialized && serialized !== lastPartial) {
+        lastPartial = serialized;
+        push({ type: 'partial', data: partial as DeepPartial<T> });
+      }
+    }).then(
+      response => push({ type: 'done', response }),
+      error => {
+        failure = { error };
+        wake?.();
+      }
+    );
+
+    for (;;) {
+      while (pending.length > 0) {
+        const event = pending.shift()!;
+        yield event;
+        if (event.type === 'done') return;
+      }
+      if (failure) throw failure.error;
+      await new Promise<void>(resolve => (wake = resolve));
+      wake = undefined;
+    }
+  }
+
+  /**
+   * Runs a completion with repair, recording one span with its outcome and usage
+   * Used by: Backend - Provider adapters for schema-conformant generation
+   * 
+   * @tags repair-loop, tracing, span
+   */
+  protected async generateWithRepair<T>(
+    schema: z.ZodSchema<T>,
+    prompt: string,
+    options: GenerateOptions | undefined,
+    complete: (turns: ChatTurn[], signal?: AbortSignal, onReissue?: () => void) => Promise<Completion>
+  ): Promise<LLMResponse<T>> {
+    const span = (options?.tracer ?? noopTracer).startSpan('llm.generate', {
+      parent: options?.parentSpan,
+      attributes: {
+        'gen_ai.system': this.provider,
+        'gen_ai.request.model': this.model,
+        'llm.label': options?.label,
+        'llm.prompt.id': options?.prompt?.id,
+        'llm.prompt.version': options?.prompt?.version,
+        'llm.sample': options?.sample
+      }
+    });
+
+    try {
+      const response = await this.runRepairLoop(schema, prompt, options, complete);
+      span.setAttributes({
+        'gen_ai.usage.input_tokens': response.usage?.promptTokens,
+        'gen_ai.usage.output_tokens': response.usage?.completionTokens,
+        'llm.retries': response.retries,
+        'llm.repairs': response.repairs,
+        'llm.outcome': response.success ? (response.salvaged ? 'salvaged' : 'success') : response.errorKind
+      });
+      span.setStatus(response.success ? { code: 'ok' } : { code: 'error', message: response.error });
+      return response;
+    } catch (error) {
+      span.setAttributes({ 'llm.outcome': 'aborted' });
+      span.setStatus({ code: 'error', message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Runs a completion, validates it and feeds validation errors back for repair
+   * Used by: Backend - generateWithRepair
+   * 
+   * @tags repair-loop, validation, salvage, cancellation
+   */
+  private async runRepairLoop<T>(
+    schema: z.ZodSchema<T>,
+    prompt: string,
+    options: GenerateOptions | undefined,
+    complete: (turns: ChatTurn[], signal?: AbortSignal, onReissue?: () => void) => Promise<Completion>
+  ): Promise<LLMResponse<T>> {
+    throwIfAborted(options?.signal);
+
+    const timeoutMs = options?.timeoutMs ?? this.timeoutMs;
+    const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+    const signals = [options?.signal, timeout].filter((s): s is AbortSignal => s !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+    const turns: ChatTurn[] = [{ role: 'user', content: prompt }];
+    const usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const logger = options?.logger ?? defaultLogger;
+    const context = { label: options?.label, provider: this.provider, model: this.model };
+    let repairs = 0;
+    let retries = 0;
+
+    try {
+      for (;;) {
+        const completion = await this.retryWithBackoff(
+          () => this.withRateLimit(turns, signal, () => complete(turns, signal, () => {
+            // A request the provider rejected and the adapter re-issued is still a billable call
+            retries++;
+            logger.warn('Re-issuing LLM request', { ...context, attempt: retries });
+          })),
+          this.maxRetries,
+          (failure, delayMs) => {
+            retries++;
+            logger.warn('Retrying LLM request', {
+              ...context,
+              attempt: retries,
+              errorKind: failure.kind,
+              delayMs
+            });
+          },
+          signal
+        );
+        if (completion.usage) {
+          usage.promptTokens += completion.usage.promptTokens;
+          usage.completionTokens += completion.usage.completionTokens;
+          usage.totalTokens += completion.usage.totalTokens;
+        }
+
+        const result = this.parseAndValidate(completion.text, schema);
+        const base = {
+          rawText: completion.text,
+          provider: this.provider,
+          model: this.model,
+          retries,
+          repairs,
+          usage
+        };
+
+        if (result.success) {
+          return { ...base, success: true, data: result.data };
+        }
+
+        logger.debug('LLM output failed validation', {
+          ...context,
+          repairs,
+          problems: result.problems.slice(0, 5),
+          rawText: completion.text
+        });
+
+        if (repairs >= this.maxRepairs) {
+          // Last resort: keep the valid parts and drop malformed optional/array items
+          if (this.salvagePartial && result.parsed !== undefined) {
+            const salvaged = salvagePartial(result.parsed, schema);
+            const checked = schema.safeParse(salvaged.value);
+            if (checked.success) {
+              logger.warn('Salvaged partial LLM output', { ...context, droppedItems: salvaged.dropped });
+              return {
+                ...base,
+                success: true,
+                data: checked.data,
+                salvaged: true,
+                droppedItems: salvaged.dropped
+              };
+            }
+          }
+
+          return {
+            ...base,
+            success: false,
+            error: `Invalid JSON response from model after ${repairs} repair attempts: ${result.problems.slice(0, 5).join('; ')}`,
+            errorKind: 'invalid_output'
+          };
+        }
+
+        turns.push(
+          { role: 'assistant', content: completion.text },
+          { role: 'user', content: buildRepairPrompt(result.problems) }
+        );
+        repairs++;
+      }
+    } catch (error) {
+      // Caller cancellation propagates; a timeout is an ordinary failed call
+      if (options?.signal?.aborted) {
+        throw new LLMAbortError();
+      }
+      const failure = timeout?.aborted
+        ? new LLMError('timeout', `Timed out after ${timeoutMs}ms`)
+        : classifyError(error);
+      logger.warn('LLM call failed', { ...context, errorKind: failure.kind, error: failure.message, retries });
+      return {
+        success: false,
+        error: failure.message,
+        errorKind: failure.kind,
+        retryAfterMs: failure.retryAfterMs,
+        provider: this.provider,
+        model: this.model,
+        retries,
+        repairs,
+        usage
+      };
+    }
+  }
+
+  /**
+   * Runs one provider request once the shared rate limiter grants a slot
+   * Used by: Backend - Repair loop, once per request including retries
+   * 
+   * @tags rate-limit, queue
+   */
+  private async withRateLimit(
+    turns: ChatTurn[],
+    signal: AbortSignal | undefined,
+    request: () => Promise<Completion>
+  ): Promise<Completion> {
+    if (!this.rateLimiter) return request();
+
+    const estimate = estimateTokens(turns.map(turn => turn.content).join('\n'));
+    const permit = await this.rateLimiter.acquire(estimate, signal);
+    try {
+      const completion = await request();
+      permit.release(completion.usage?.totalTokens);
+      return completion;
+    } catch (error) {
+      permit.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Parses model output and validates it, collecting Zod error paths
+   * Used by: Backend - Repair loop for precise correction feedback
+   * 
+   * @tags validation, json-parser, error-paths
+   */
+  protected parseAndValidate<T>(
+    jsonString: string,
+    schema: z.ZodSchema<T>
+  ): ValidationResult<T> {
+    // Clean JSON string (remove markdown code blocks if present)
+    const cleanJson = jsonString
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJson);
+    } catch (error) {
+      return {
+        success: false,
+        problems: [`Response is not valid JSON: ${describeParseError(error)}`]
+      };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+
+    return {
+      success: false,
+      parsed,
+      problems: result.error.issues.map(issue => {
+        // Enum messages end with the received value, which is output text like a parse snippet
+        const message = issue.code === 'invalid_enum_value'
+          ? issue.message.replace(/, received '.*'$/s, '')
+          : issue.message;
+        return `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${message}`;
+      })
+    };
+  }
+
+  /**
+   * Validates and parses JSON response with Zod schema
+   * Used by: Backend - LLM adapters for response validation
+   * 
+   * @tags validation, json-parser, error-handling
+   */
+  protected validateJSON<T>(
+    jsonString: string,
+    schema: z.ZodSchema<T>
+  ): T | null {
+    const result = this.parseAndValidate(jsonString, schema);
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Implements retry logic with exponential backoff
+   * Only retryable error kinds are retried, honouring the provider's retry-after delay
+   * Used by: Backend - LLM adapters for reliability
+   * 
+   * @tags retry, exponential-backoff, reliability, retry-after
+   */
+  protected async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    retries: number = this.maxRetries,
+    onRetry?: (failure: LLMError, delayMs: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    for (let i = 0; i < retries; i++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (i === retries - 1 || signal?.aborted) throw error;
+        const failure = classifyError(error);
+        // Waiting longer than this is worse than failing over to another provider
+        if (!failure.retryable || (failure.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+          throw failure;
+        }
+        const delay = failure.retryAfterMs ?? Math.min(1000 * Math.pow(2, i), 10000);
+        onRetry?.(failure, delay);
+        await sleep(delay, signal);
+      }
+    }
+    throw new Error('Max retries exceeded');
+  }
+}
+
+/**
+ * Waits for the given delay, rejecting early when the signal aborts
+ * Used by: Backend - Cancellable retry backoff
+ * 
+ * @tags sleep, abort-signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Resolves a stable name for a Zod schema
+ * Used by: Backend - Fixture keys, mock data lookup and structured output naming
+ * 
+ * @tags schema-name, zod, describe
+ */
+export function getSchemaName(schema: z.ZodTypeAny): string {
+  return schema.description ?? 'response';
+}
+
+/**
+ * Describes a JSON.parse failure without the snippet of output that newer engines quote
+ * Problems reach logs, error responses and repair prompts, and the output may repeat the manuscript
+ * Used by: Backend - parseAndValidate
+ * 
+ * @tags validation, redaction
+ */
+function describeParseError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message
+    // Unexpected token '홍', "홍길동은 서자로 태"... is not valid JSON
+    .replace(/, ".*"(?:\.\.\.)? is not valid JSON$/s, '')
+    // The token itself is output text too, e.g. Unexpected token 홍 in JSON at position 0
+    .replace(/^Unexpected token (?:'[^']*'|\S+)/, 'Unexpected token');
+}
+
+/**
+ * Builds the follow-up prompt asking the model to fix its invalid output
+ * Used by: Backend - LLMAdapter repair loop
+ * 
+ * @tags repair-prompt, validation-feedback
+ */
+function buildRepairPrompt(problems: string[]): string {
+  return `Your previous response did not match the required JSON schema.
+
+Problems found (path: message):
+${problems.map(p => `- ${p}`).join('\n')}
+
+Return the complete corrected JSON object with every problem fixed.
+Keep all valid content unchanged. Respond with JSON only, without explanations or code blocks.`;
+}
+
+/**
+ * Removes malformed array items and optional fields so the rest can validate
+ * Used by: Backend - LLMAdapter partial salvage after exhausted repairs
+ * 
+ * @tags salvage, partial-validation, schema-walker
+ */
+export function salvagePartial(
+  value: unknown,
+  schema: z.ZodTypeAny
+): { value: unknown; dropped: number } {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    return value === undefined || value === null
+      ? { value, dropped: 0 }
+      : salvagePartial(value, schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return salvagePartial(value, schema.innerType());
+  }
+
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    let dropped = 0;
+    const items: unknown[] = [];
+    for (const item of value) {
+      const salvaged = salvagePartial(item, schema.element);
+      dropped += salvaged.dropped;
+      if (schema.element.safeParse(salvaged.value).success) {
+        items.push(salvaged.value);
+      } else {
+        dropped++;
+      }
+    }
+    return { value: items, dropped };
+  }
+
+  if (schema instanceof z.ZodObject && value && typeof value === 'object' && !Array.isArray(value)) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    let dropped = 0;
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      if (!(key in result)) continue;
+      const salvaged = salvagePartial(result[key], fieldSchema);
+      dropped += salvaged.dropped;
+      result[key] = salvaged.value;
+      if (fieldSchema.isOptional() && !fieldSchema.safeParse(result[key]).success) {
+        delete result[key];
+        dropped++;
+      }
+    }
+    return { value: result, dropped };
+  }
+
+  return { value, dropped: 0 };
+}
\ No newline at end of file
@@ -0,0 +1,263 @@
+/**
+ * Content-addressed response cache for LLM calls
+ * Used by: Backend - /api/analyze to avoid re-paying for unchanged prompts
+ * 
+ * @tags llm, cache, content-addressed, ttl
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  getSchemaName,
+  type GenerateOptions,
+  type LLMProvider,
+  type LLMResponse,
+  type ModelInfo,
+  type StreamEvent
+} from './base';
+import { toJSONSchema } from './jsonSchema';
+import { defaultLogger } from './logger';
+
+export interface CacheEntry {
+  data: unknown;
+  rawText?: string;
+  provider?: LLMProvider;
+  model?: string;
+  storedAt: number;
+  expiresAt?: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheOptions {
+  ttlMs?: number;
+  // Skip cache reads but still store fresh responses
+  bypass?: boolean;
+}
+
+/**
+ * In-process cache store with bounded size
+ * Used by: Backend - Default cache backend for a single server instance
+ * 
+ * @tags cache-store, memory
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Refresh insertion order so eviction drops the least recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * On-disk cache store writing one JSON file per key
+ * Used by: Backend - Cache shared across restarts and processes
+ * 
+ * @tags cache-store, file-system
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(this.getPath(key), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename so concurrent readers never see a partial file; the temp file is per write,
+    // so concurrent writes of one key never interleave in it
+    const target = this.getPath(key);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(entry), 'utf-8');
+    await fs.promises.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getPath(key), { force: true });
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Computes the cache key for a generateJSON call
+ * Used by: Backend - CachedAdapter lookups
+ * 
+ * @tags hash, cache-key
+ */
+export function computeCacheKey(
+  info: ModelInfo,
+  prompt: string,
+  schema: z.ZodTypeAny,
+  systemPrompt?: string,
+  sample?: number
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      provider: info.provider,
+      model: info.model,
+      temperature: info.temperature,
+      systemPrompt: systemPrompt ?? '',
+      prompt,
+      schemaName: getSchemaName(schema),
+      schema: toJSONSchema(schema),
+      // The first sample keeps the plain key so entries cached before sampling still hit
+      ...(sample ? { sample } : {})
+    }))
+    .digest('hex');
+}
+
+/**
+ * Adapter wrapper that serves repeated calls from a cache store
+ * Used by: Backend - Re-analysis of unchanged chapters without new LLM spend
+ * 
+ * @tags cached-adapter, decorator, cost-saving
+ */
+export class CachedAdapter extends LLMAdapter {
+  constructor(
+    private inner: LLMAdapter,
+    private store: CacheStore,
+    private options: CacheOptions = {}
+  ) {
+    super(inner.getModelInfo());
+  }
+
+  getModelInfo(): ModelInfo {
+    return this.inner.getModelInfo();
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    const key = computeCacheKey(this.inner.getModelInfo(), prompt, schema, systemPrompt, options?.sample);
+    const hit = await this.lookup(key, schema);
+    if (hit) return hit;
+
+    const response = await this.inner.generateJSON(prompt, schema, systemPrompt, options);
+    await this.save(key, response, options);
+    return response;
+  }
+
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    const key = computeCacheKey(this.inner.getModelInfo(), prompt, schema, systemPrompt, options?.sample);
+    const hit = await this.lookup(key, schema);
+    if (hit) {
+      yield { type: 'done', response: hit };
+      return;
+    }
+
+    for await (const event of this.inner.generateJSONStream(prompt, schema, systemPrompt, options)) {
+      if (event.type === 'done') {
+        await this.save(key, event.response, options);
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * Returns the cached response for a key when it is present and still valid
+   * Used by: Backend - CachedAdapter reads
+   * 
+   * @tags cache-lookup
+   */
+  private async lookup<T>(key: string, schema: z.ZodSchema<T>): Promise<LLMResponse<T> | undefined> {
+    if (this.options.bypass) return undefined;
+
+    const entry = await this.store.get(key).catch(() => undefined);
+    const cached = entry ? schema.safeParse(entry.data) : undefined;
+    if (!entry || !cached?.success) return undefined;
+
+    return {
+      success: true,
+      data: cached.data,
+      rawText: entry.rawText,
+      provider: entry.provider,
+      model: entry.model,
+      cached: true,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    };
+  }
+
+  /**
+   * Stores a fresh response unless it failed or was only partially salvaged
+   * Used by: Backend - CachedAdapter writes
+   * 
+   * @tags cache-write
+   */
+  private async save<T>(
+    key: string,
+    response: LLMResponse<T>,
+    options?: GenerateOptions
+  ): Promise<void> {
+    // Salvaged responses are incomplete, so they are worth retrying next time
+    if (!response.success || response.salvaged) return;
+
+    const now = Date.now();
+    await this.store.set(key, {
+      data: response.data,
+      rawText: response.rawText,
+      provider: response.provider,
+      model: response.model,
+      storedAt: now,
+      expiresAt: this.options.ttlMs ? now + this.options.ttlMs : undefined
+    }).catch(error => (options?.logger ?? defaultLogger).warn('Failed to store LLM cache entry', { error }));
+  }
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+export default CachedAdapter;
\ No newline at end of file
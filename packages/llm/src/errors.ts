@@ -0,0 +1,193 @@
+/**
+ * Error taxonomy for LLM adapters
+ * Used by: Backend - Retry decisions, core modules and API routes mapping failures to responses
+ * 
+ * @tags llm, errors, abort, cancellation, retry-policy
+ */
+
+import type { LLMResponse } from './base';
+
+export type LLMErrorKind =
+  | 'auth' // Invalid or missing credentials
+  | 'rate_limit' // Too many requests; retry after a delay
+  | 'quota' // Billing or daily quota exhausted
+  | 'safety' // Prompt or output blocked by a content policy
+  | 'context_length' // Input exceeds the model context window
+  | 'network' // Connection failures
+  | 'server' // Provider-side 5xx errors
+  | 'timeout' // Call exceeded its time budget
+  | 'invalid_output' // Output failed schema validation after repairs
+  | 'bad_request' // Other rejected requests
+  | 'unknown';
+
+// Failures that a retry of the same request can fix
+const RETRYABLE_KINDS: ReadonlySet<LLMErrorKind> = new Set([
+  'rate_limit',
+  'network',
+  'server',
+  'unknown'
+]);
+
+// Failures that will repeat for every further call with the same provider and input
+const FATAL_KINDS: ReadonlySet<LLMErrorKind> = new Set([
+  'auth',
+  'quota',
+  'context_length'
+]);
+
+/**
+ * Typed provider failure with its retry classification
+ * Used by: Backend - Adapters, retry policy and API error mapping
+ * 
+ * @tags llm-error, taxonomy
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    details: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.retryable = details.retryable ?? RETRYABLE_KINDS.has(kind);
+  }
+}
+
+/**
+ * Raised when a call is cancelled through its AbortSignal
+ * Used by: Backend - Stopping the analysis pipeline when the client goes away
+ * 
+ * @tags abort-error, cancellation
+ */
+export class LLMAbortError extends Error {
+  constructor(message: string = 'LLM request aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Checks whether an error comes from a cancelled call
+ * Used by: Backend - Rethrowing cancellations instead of falling back to defaults
+ * 
+ * @tags abort-error, type-guard
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error instanceof LLMAbortError || error.name === 'AbortError');
+}
+
+/**
+ * Checks whether an error is a typed LLM failure
+ * Used by: Backend - API routes mapping failures to HTTP statuses
+ * 
+ * @tags llm-error, type-guard
+ */
+export function isLLMError(error: unknown): error is LLMError {
+  return error instanceof LLMError || (error instanceof Error && error.name === 'LLMError');
+}
+
+/**
+ * Throws LLMAbortError when the signal has already been aborted
+ * Used by: Backend - Adapters and pipelines checking for cancellation between steps
+ * 
+ * @tags abort-signal, guard
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new LLMAbortError();
+  }
+}
+
+/**
+ * Throws an LLMError when a failed response will fail every further call as well
+ * Used by: Backend - Core modules stopping the pipeline instead of using default results
+ * 
+ * @tags fatal-error, guard
+ */
+export function throwIfFatal(response: LLMResponse<unknown>): void {
+  if (!response.success && response.errorKind && FATAL_KINDS.has(response.errorKind)) {
+    throw new LLMError(response.errorKind, response.error ?? 'LLM request failed', {
+      retryAfterMs: response.retryAfterMs
+    });
+  }
+}
+
+/**
+ * Maps SDK and transport errors from Gemini and OpenAI onto the error taxonomy
+ * Used by: Backend - LLMAdapter retry policy and failure responses
+ * 
+ * @tags error-classification, gemini, openai
+ */
+export function classifyError(error: unknown): LLMError {
+  if (isLLMError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const { status, code } = (error ?? {}) as { status?: number; code?: string | null };
+  const retryAfterMs = getRetryAfterMs(error);
+  const details = { status, retryAfterMs, cause: error };
+
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|Incorrect API key/i.test(message)) {
+    return new LLMError('auth', message, details);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit/i.test(message)) {
+    // Exhausted billing quota does not recover by waiting a few seconds
+    const quota = code === 'insufficient_quota' || /insufficient_quota|exceeded your current quota|billing|per day/i.test(message);
+    return new LLMError(quota ? 'quota' : 'rate_limit', message, details);
+  }
+  if (code === 'context_length_exceeded' || /context length|context window|maximum context|input token count .* exceeds|too many tokens/i.test(message)) {
+    return new LLMError('context_length', message, details);
+  }
+  if (code === 'content_filter' || code === 'content_policy_violation' || /blocked due to|content[_ ]filter|content management policy|PROHIBITED_CONTENT/i.test(message)) {
+    return new LLMError('safety', message, details);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LLMError('server', message, details);
+  }
+  if (/timed out|timeout|ETIMEDOUT/i.test(message)) {
+    return new LLMError('timeout', message, details);
+  }
+  if (/fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|Connection error/i.test(message)) {
+    return new LLMError('network', message, details);
+  }
+  // Other client errors are deterministic, so retrying only repeats them
+  if (status !== undefined && status >= 400) {
+    return new LLMError('bad_request', message, details);
+  }
+  return new LLMError('unknown', message, details);
+}
+
+/**
+ * Reads the provider's requested retry delay from an error, if any
+ * Used by: Backend - Rate limit backoff
+ * 
+ * @tags retry-after, rate-limit
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  // OpenAI: retry-after-ms / retry-after response headers
+  const headers = (error as { headers?: Record<string, string | null | undefined> })?.headers;
+  const retryAfterMsHeader = Number(headers?.['retry-after-ms']);
+  if (retryAfterMsHeader > 0) return retryAfterMsHeader;
+  const retryAfter = headers?.['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // Gemini: google.rpc.RetryInfo error detail, e.g. { retryDelay: '37s' }
+  const errorDetails = (error as { errorDetails?: Array<Record<string, unknown>> })?.errorDetails;
+  const retryDelay = errorDetails?.find(detail => typeof detail.retryDelay === 'string')?.retryDelay;
+  const match = typeof retryDelay === 'string' ? retryDelay.match(/^([\d.]+)s$/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+export default LLMError;
\ No newline at end of file
@@ -0,0 +1,182 @@
+/**
+ * Composite adapter that falls over across an ordered provider chain
+ * Used by: Backend - /api/analyze for Gemini-first generation with backup providers
+ * 
+ * @tags llm, fallback, provider-chain, reliability
+ */
+
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  type FallbackAttempt,
+  type GenerateOptions,
+  type LLMConfig,
+  type LLMResponse,
+  type LLMUsage,
+  type ModelInfo,
+  type StreamEvent
+} from './base';
+import { classifyError, isAbortError } from './errors';
+
+/**
+ * Tries each provider/model in order until one returns a validated response
+ * Used by: Backend - All modules requiring resilient LLM generation
+ * 
+ * @tags fallback-adapter, failover, quota, timeout
+ */
+export class FallbackAdapter extends LLMAdapter {
+  constructor(config: LLMConfig, private adapters: LLMAdapter[]) {
+    super(config);
+    if (adapters.length === 0) {
+      throw new Error('Fallback adapter requires at least one provider');
+    }
+  }
+
+  getModelInfo(): ModelInfo {
+    // The chain itself identifies this adapter, e.g. for cache keys
+    const chain = this.adapters
+      .map(adapter => adapter.getModelInfo())
+      .map(info => `${info.provider}/${info.model}@${info.temperature}`)
+      .join('>');
+    return { provider: this.provider, model: chain, temperature: this.temperature };
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    const attempts: FallbackAttempt[] = [];
+
+    // Each adapter enforces its own timeoutMs, aborting the in-flight request
+    for (const adapter of this.adapters) {
+      const { provider, model } = adapter.getModelInfo();
+      const response = await adapter
+        .generateJSON(prompt, schema, systemPrompt, options)
+        .catch((error): LLMResponse<T> => {
+          // Cancellation stops the whole chain rather than falling over
+          if (isAbortError(error)) throw error;
+          const failure = classifyError(error);
+          return { success: false, error: failure.message, errorKind: failure.kind };
+        });
+
+      if (response.success) {
+        return withChainTotals({ ...response, provider, model, attempts }, attempts);
+      }
+
+      // Quota, timeout and validation failures all fall over to the next provider
+      attempts.push(toAttempt(provider, model, response));
+    }
+
+    return allFailed(attempts);
+  }
+
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    const attempts: FallbackAttempt[] = [];
+
+    // Partials from a failed provider are superseded by the next provider's snapshots
+    for (const adapter of this.adapters) {
+      const { provider, model } = adapter.getModelInfo();
+      let response: LLMResponse<T> | undefined;
+      try {
+        for await (const event of adapter.generateJSONStream(prompt, schema, systemPrompt, options)) {
+          if (event.type === 'done') {
+            response = event.response;
+          } else {
+            yield event;
+          }
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        const failure = classifyError(error);
+        response = { success: false, error: failure.message, errorKind: failure.kind };
+      }
+
+      if (response?.success) {
+        yield { type: 'done', response: withChainTotals({ ...response, provider, model, attempts }, attempts) };
+        return;
+      }
+
+      attempts.push(toAttempt(provider, model, response));
+    }
+
+    yield { type: 'done', response: allFailed(attempts) };
+  }
+}
+
+function toAttempt<T>(
+  provider: FallbackAttempt['provider'],
+  model: string | undefined,
+  response: LLMResponse<T> | undefined
+): FallbackAttempt {
+  return {
+    provider,
+    model,
+    error: response?.error ?? 'Unknown error occurred',
+    errorKind: response?.errorKind,
+    usage: response?.usage,
+    retries: response?.retries,
+    repairs: response?.repairs
+  };
+}
+
+/**
+ * Adds what the failed providers spent to the successful provider's response
+ * Used by: Backend - Usage accounting for fallback chains
+ * 
+ * @tags usage, accounting
+ */
+function withChainTotals<T>(response: LLMResponse<T>, attempts: FallbackAttempt[]): LLMResponse<T> {
+  const spent = sumAttempts(attempts);
+  return {
+    ...response,
+    usage: addUsage(spent.usage, response.usage),
+    // Falling over counts as a retry, so call counts include every failed provider's request
+    retries: spent.retries + attempts.length + (response.retries ?? 0),
+    repairs: spent.repairs + (response.repairs ?? 0)
+  };
+}
+
+function allFailed<T>(attempts: FallbackAttempt[]): LLMResponse<T> {
+  const spent = sumAttempts(attempts);
+  return {
+    success: false,
+    error: `All providers failed: ${attempts
+      .map(a => `${a.provider}/${a.model}: ${a.error}`)
+      .join('; ')}`,
+    // The last provider's failure decides how callers report it
+    errorKind: attempts[attempts.length - 1]?.errorKind,
+    attempts,
+    usage: spent.usage,
+    // The first provider's request is the call itself; every later one is a fall-over
+    retries: spent.retries + Math.max(0, attempts.length - 1),
+    repairs: spent.repairs
+  };
+}
+
+function sumAttempts(attempts: FallbackAttempt[]): { usage: LLMUsage; retries: number; repairs: number } {
+  return attempts.reduce(
+    (total, attempt) => ({
+      usage: addUsage(total.usage, attempt.usage),
+      retries: total.retries + (attempt.retries ?? 0),
+      repairs: total.repairs + (attempt.repairs ?? 0)
+    }),
+    { usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, retries: 0, repairs: 0 }
+  );
+}
+
+function addUsage(total: LLMUsage, usage: LLMUsage | undefined): LLMUsage {
+  return {
+    promptTokens: total.promptTokens + (usage?.promptTokens ?? 0),
+    completionTokens: total.completionTokens + (usage?.completionTokens ?? 0),
+    totalTokens: total.totalTokens + (usage?.totalTokens ?? 0)
+  };
+}
+
+export default FallbackAdapter;
\ No newline at end of file
@@ -5,103 +5,47 @@
  * @tags llm, adapter, gemini, openai, provider-agnostic
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GoogleGenerativeAI,
+  type EnhancedGenerateContentResponse
+} from '@google/generative-ai';
 import OpenAI from 'openai';
 import { z } from 'zod';
+import {
+  LLMAdapter,
+  type ChatTurn,
+  type Completion,
+  type GenerateOptions,
+  type JsonMode,
+  type LLMConfig,
+  type LLMResponse,
+  type StreamEvent,
+  type TextDeltaHandler
+} from './base';
+import { CachedAdapter } from './cache';
+import { LLMError } from './errors';
+import { FallbackAdapter } from './fallback';
+import {
+  describeSchemaForPrompt,
+  toGeminiSchema,
+  toJSONSchema,
+  toStructuredOutputName,
+  withSchemaDowngrade
+} from './jsonSchema';
+import { ReplayAdapter } from './replay';
+import { UsageTracker } from './usage';
 
-export interface LLMConfig {
-  provider: 'gemini' | 'openai';
-  apiKey: string;
-  model?: string;
-  temperature?: number;
-  maxRetries?: number;
-}
-
-export interface LLMResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-}
-
-/**
- * Base LLM adapter class for JSON generation with schema validation
- * Used by: Backend - All LLM-based generation modules
- * 
- * @tags llm-base, json-generation, schema-validation
- */
-export abstract class LLMAdapter {
-  protected temperature: number;
-  protected maxRetries: number;
-
-  constructor(config: LLMConfig) {
-    this.temperature = config.temperature ?? 0.3;
-    this.maxRetries = config.maxRetries ?? 3;
-  }
-
-  abstract generateJSON<T>(
-    prompt: string,
-    schema: z.ZodSchema<T>,
-    systemPrompt?: string
-  ): Promise<LLMResponse<T>>;
-
-  /**
-   * Validates and parses JSON response with Zod schema
-   * Used by: Backend - LLM adapters for response validation
-   * 
-   * @tags validation, json-parser, error-handling
-   */
-  protected validateJSON<T>(
-    jsonString: string,
-    schema: z.ZodSchema<T>
-  ): T | null {
-    try {
-      // Clean JSON string (remove markdown code blocks if present)
-      const cleanJson = jsonString
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      
-      console.log('Raw JSON response:', jsonString.substring(0, 500));
-      console.log('Cleaned JSON:', cleanJson.substring(0, 500));
-      
-      const parsed = JSON.parse(cleanJson);
-      console.log('Parsed JSON keys:', Object.keys(parsed));
-      
-      return schema.parse(parsed);
-    } catch (error) {
-      console.error('JSON validation failed:', error);
-      console.error('Raw response was:', jsonString);
-      return null;
-    }
-  }
-
-  /**
-   * Implements retry logic with exponential backoff
-   * Used by: Backend - LLM adapters for reliability
-   * 
-   * @tags retry, exponential-backoff, reliability
-   */
-  protected async retryWithBackoff<T>(
-    fn: () => Promise<T>,
-    retries: number = this.maxRetries
-  ): Promise<T> {
-    for (let i = 0; i < retries; i++) {
-      try {
-        return await fn();
-      } catch (error) {
-        if (i === retries - 1) throw error;
-        const delay = Math.min(1000 * Math.pow(2, i), 10000);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-}
+export * from './base';
+export * from './cache';
+export * from './errors';
+export * from './fallback';
+export * from './jsonSchema';
+export * from './logger';
+export * from './partialJson';
+export * from './rateLimiter';
+export * from './replay';
+export * from './tracing';
+export * from './usage';
 
 /**
  * Gemini adapter implementation for Google's Generative AI
@@ -111,141 +55,301 @@ export abstract class LLMAdapter {
  */
 export class GeminiAdapter extends LLMAdapter {
   private client: GoogleGenerativeAI;
-  private model: string;
+  private jsonMode: JsonMode;
 
   constructor(config: LLMConfig) {
     super(config);
+    if (!config.apiKey) {
+      throw new Error('Gemini API key is required');
+    }
     this.client = new GoogleGenerativeAI(config.apiKey);
     this.model = config.model ?? 'gemini-1.5-flash';
+    this.jsonMode = config.jsonMode ?? 'json_schema';
   }
 
   async generateJSON<T>(
     prompt: string,
     schema: z.ZodSchema<T>,
-    systemPrompt?: string
+    systemPrompt?: string,
+    options?: GenerateOptions
   ): Promise<LLMResponse<T>> {
-    try {
-      const result = await this.retryWithBackoff(async () => {
-        const model = this.client.getGenerativeModel({ 
-          model: this.model,
-          generationConfig: {
-            temperature: this.temperature,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 8192,
-            responseMimeType: "application/json",
-          }
-        });
+    return this.generate(prompt, schema, systemPrompt, options);
+  }
 
-        const fullPrompt = `${systemPrompt ? systemPrompt + '\n\n' : ''}
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    yield* this.streamEvents(onDelta =>
+      this.generate(prompt, schema, systemPrompt, options, onDelta)
+    );
+  }
+
+  /**
+   * Runs a generation, streaming chunks to onDelta when given
+   * Used by: Backend - generateJSON and generateJSONStream
+   * 
+   * @tags gemini, generation, streaming
+   */
+  private async generate<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions,
+    onDelta?: TextDeltaHandler
+  ): Promise<LLMResponse<T>> {
+    const fullPrompt = `${systemPrompt ? systemPrompt + '\n\n' : ''}
 ${prompt}
 
 You must respond with a valid JSON object. The response should ONLY be JSON, nothing else.
 Do not include any explanations, markdown formatting, or code blocks.
 Just the raw JSON object.`;
 
-        const response = await model.generateContent(fullPrompt);
-        const text = response.response.text();
-        
-        const validated = this.validateJSON(text, schema);
-        if (!validated) {
-          throw new Error('Invalid JSON response from model');
+    const request = async (turns: ChatTurn[], signal?: AbortSignal): Promise<Completion> => {
+      // Native responseSchema when supported, otherwise the schema goes in the prompt
+      const native = this.jsonMode === 'json_schema';
+      const model = this.client.getGenerativeModel({ 
+        model: this.model,
+        generationConfig: {
+          temperature: this.temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 8192,
+          ...(this.jsonMode !== 'none' ? { responseMimeType: 'application/json' } : {}),
+          ...(native ? { responseSchema: toGeminiSchema(toJSONSchema(schema)) } : {})
         }
-
-        return {
-          data: validated,
-          usage: response.response.usageMetadata
-        };
       });
 
+      const contents = turns.map((turn, index) => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{
+          text: index === 0 && !native
+            ? `${turn.content}\n\n${describeSchemaForPrompt(schema)}`
+            : turn.content
+        }]
+      }));
+
+      let response: EnhancedGenerateContentResponse;
+      if (onDelta) {
+        const result = await model.generateContentStream({ contents }, { signal });
+        let text = '';
+        for await (const chunk of result.stream) {
+          const delta = chunk.text();
+          text += delta;
+          onDelta(delta, text);
+        }
+        response = await result.response;
+      } else {
+        response = (await model.generateContent({ contents }, { signal })).response;
+      }
+
+      const usage = response.usageMetadata;
       return {
-        success: true,
-        data: result.data,
-        usage: result.usage ? {
-          promptTokens: result.usage.promptTokenCount || 0,
-          completionTokens: result.usage.candidatesTokenCount || 0,
-          totalTokens: result.usage.totalTokenCount || 0
+        text: response.text(),
+        usage: usage ? {
+          promptTokens: usage.promptTokenCount || 0,
+          completionTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || 0
         } : undefined
       };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      };
-    }
+    };
+
+    return this.generateWithRepair(schema, fullPrompt, options, (turns, signal, onReissue) =>
+      withSchemaDowngrade(
+        this.jsonMode === 'json_schema',
+        () => request(turns, signal),
+        () => { this.jsonMode = 'json_object'; },
+        onReissue
+      )
+    );
   }
 }
 
 /**
  * OpenAI adapter implementation (backup provider)
- * Used by: Backend - Fallback LLM provider when Gemini unavailable
+ * Also serves any OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp server)
+ * Used by: Backend - Fallback LLM provider when Gemini unavailable, self-hosted models
  * 
- * @tags openai, gpt, fallback-provider
+ * @tags openai, gpt, fallback-provider, openai-compatible, self-hosted
  */
 export class OpenAIAdapter extends LLMAdapter {
   private client: OpenAI;
-  private model: string;
+  private jsonMode: JsonMode;
 
   constructor(config: LLMConfig) {
     super(config);
-    this.client = new OpenAI({ apiKey: config.apiKey });
+    const compatible = config.provider === 'openai-compatible';
+    if (compatible && !config.baseURL) {
+      throw new Error('OpenAI-compatible provider requires a baseURL');
+    }
+    if (compatible && !config.model) {
+      throw new Error('OpenAI-compatible provider requires a model');
+    }
+    if (!compatible && !config.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: config.apiKey ?? 'not-needed',
+      baseURL: config.baseURL,
+      defaultHeaders: config.headers,
+      // Retries follow the adapter's error-kind policy, not the SDK's
+      maxRetries: 0
+    });
     this.model = config.model ?? 'gpt-4-turbo-preview';
+    // Many self-hosted servers lack json_schema support, so they start in json_object mode
+    this.jsonMode = config.jsonMode ?? (compatible ? 'json_object' : 'json_schema');
   }
 
   async generateJSON<T>(
     prompt: string,
     schema: z.ZodSchema<T>,
-    systemPrompt?: string
+    systemPrompt?: string,
+    options?: GenerateOptions
   ): Promise<LLMResponse<T>> {
-    try {
-      const result = await this.retryWithBackoff(async () => {
-        const messages: OpenAI.ChatCompletionMessageParam[] = [
-          {
-            role: 'system',
-            content: systemPrompt ?? 'You are a helpful assistant that always responds with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: `${prompt}\n\nRespond with valid JSON matching this schema:\n${JSON.stringify(schema._def, null, 2)}`
-          }
-        ];
+    return this.generate(prompt, schema, systemPrompt, options);
+  }
 
-        const response = await this.client.chat.completions.create({
-          model: this.model,
-          messages,
-          temperature: this.temperature,
-          response_format: { type: 'json_object' },
-          max_tokens: 4096
-        });
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    yield* this.streamEvents(onDelta =>
+      this.generate(prompt, schema, systemPrompt, options, onDelta)
+    );
+  }
 
-        const text = response.choices[0]?.message?.content || '';
-        const validated = this.validateJSON(text, schema);
-        
-        if (!validated) {
-          throw new Error('Invalid JSON response from model');
-        }
+  /**
+   * Runs a generation, streaming chunks to onDelta when given
+   * Used by: Backend - generateJSON and generateJSONStream
+   * 
+   * @tags openai, generation, streaming
+   */
+  private async generate<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions,
+    onDelta?: TextDeltaHandler
+  ): Promise<LLMResponse<T>> {
+    const jsonSchema = toJSONSchema(schema);
 
-        return {
-          data: validated,
-          usage: response.usage
-        };
-      });
+    // json_schema response format only accepts object roots
+    const isNative = () => this.jsonMode === 'json_schema' && jsonSchema.type === 'object';
 
-      return {
-        success: true,
-        data: result.data,
-        usage: result.usage ? {
-          promptTokens: result.usage.prompt_tokens || 0,
-          completionTokens: result.usage.completion_tokens || 0,
-          totalTokens: result.usage.total_tokens || 0
-        } : undefined
+    const request = async (turns: ChatTurn[], signal?: AbortSignal): Promise<Completion> => {
+      const native = isNative();
+      const messages: OpenAI.ChatCompletionMessageParam[] = [
+        {
+          role: 'system',
+          content: systemPrompt ?? 'You are a helpful assistant that always responds with valid JSON.'
+        },
+        ...turns.map((turn, index) => ({
+          role: turn.role,
+          content: index > 0
+            ? turn.content
+            : native
+              ? `${turn.content}\n\nRespond with valid JSON.`
+              : `${turn.content}\n\n${describeSchemaForPrompt(schema)}`
+        }))
+      ];
+
+      const body: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+        model: this.model,
+        messages,
+        temperature: this.temperature,
+        ...(native
+          ? {
+              response_format: {
+                type: 'json_schema' as const,
+                json_schema: {
+                  name: toStructuredOutputName(schema),
+                  schema: jsonSchema,
+                  strict: false
+                }
+              }
+            }
+          : this.jsonMode !== 'none'
+            ? { response_format: { type: 'json_object' as const } }
+            : {}),
+        max_tokens: 4096
       };
-    } catch (error) {
+
+      if (onDelta) {
+        return this.streamCompletion(body, onDelta, signal);
+      }
+
+      const response = await this.client.chat.completions.create(body, { signal });
+      if (response.choices[0]?.finish_reason === 'content_filter') {
+        throw new LLMError('safety', 'Response was blocked by the content filter');
+      }
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        text: response.choices[0]?.message?.content || '',
+        usage: response.usage ? {
+          promptTokens: response.usage.prompt_tokens || 0,
+          completionTokens: response.usage.completion_tokens || 0,
+          totalTokens: response.usage.total_tokens || 0
+        } : undefined
       };
+    };
+
+    return this.generateWithRepair(schema, prompt, options, (turns, signal, onReissue) =>
+      withSchemaDowngrade(
+        isNative(),
+        () => request(turns, signal),
+        () => { this.jsonMode = 'json_object'; },
+        onReissue
+      )
+    );
+  }
+
+  /**
+   * Streams a chat completion, forwarding content deltas as they arrive
+   * Used by: Backend - OpenAIAdapter streaming generation
+   * 
+   * @tags openai, streaming, sse
+   */
+  private async streamCompletion(
+    body: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    onDelta: TextDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<Completion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...body,
+        stream: true,
+        // Self-hosted servers may reject stream_options, so usage is only requested from OpenAI
+        ...(this.provider === 'openai' ? { stream_options: { include_usage: true } } : {})
+      },
+      { signal }
+    );
+
+    let text = '';
+    let usage: Completion['usage'];
+    for await (const chunk of stream) {
+      if (chunk.choices[0]?.finish_reason === 'content_filter') {
+        throw new LLMError('safety', 'Response was blocked by the content filter');
+      }
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta, text);
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens || 0,
+          completionTokens: chunk.usage.completion_tokens || 0,
+          totalTokens: chunk.usage.total_tokens || 0
+        };
+      }
     }
+
+    return { text, usage };
   }
 }
 
@@ -260,7 +364,22 @@ export function createLLMAdapter(config: LLMConfig): LLMAdapter {
     case 'gemini':
       return new GeminiAdapter(config);
     case 'openai':
+    case 'openai-compatible':
       return new OpenAIAdapter(config);
+    case 'fallback':
+      if (!config.chain || config.chain.length === 0) {
+        throw new Error('Fallback provider requires a non-empty chain');
+      }
+      return new FallbackAdapter(config, config.chain.map(createLLMAdapter));
+    case 'record':
+      if (!config.upstream) {
+        throw new Error('Record provider requires an upstream LLM config');
+      }
+      return new ReplayAdapter(config, 'record', createLLMAdapter(config.upstream));
+    case 'replay':
+      return new ReplayAdapter(config, 'replay');
+    case 'mock':
+      return new ReplayAdapter(config, 'mock');
     default:
       throw new Error(`Unsupported LLM provider: ${config.provider}`);
   }
@@ -269,5 +388,9 @@ export function createLLMAdapter(config: LLMConfig): LLMAdapter {
 export default {
   createLLMAdapter,
   GeminiAdapter,
-  OpenAIAdapter
+  OpenAIAdapter,
+  FallbackAdapter,
+  ReplayAdapter,
+  CachedAdapter,
+  UsageTracker
 };
\ No newline at end of file
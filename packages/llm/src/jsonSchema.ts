@@ -0,0 +1,186 @@
+/**
+ * JSON Schema conversion for native structured output
+ * Used by: Backend - Provider adapters passing Zod schemas as response constraints
+ * 
+ * @tags llm, json-schema, structured-output, zod
+ */
+
+import { SchemaType, type ResponseSchema } from '@google/generative-ai';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { getSchemaName } from './base';
+
+export type JSONSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  [key: string]: unknown;
+};
+
+/**
+ * Converts a Zod schema into an inlined JSON Schema document
+ * Used by: Backend - OpenAI json_schema response format and prompt-embedded schemas
+ * 
+ * @tags zod-to-json-schema, conversion
+ */
+export function toJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  // Widened signature avoids deep generic instantiation on large schemas
+  const convert = zodToJsonSchema as unknown as (schema: z.ZodTypeAny, options: object) => JSONSchema;
+  const { $schema: _ignored, ...jsonSchema } = convert(schema, {
+    $refStrategy: 'none',
+    target: 'jsonSchema7'
+  });
+  return withoutDescriptions(jsonSchema);
+}
+
+/**
+ * Drops descriptions at every level of a converted schema
+ * .describe() names schemas for fixtures, caches and structured output; as a description it tells the model nothing
+ * Used by: Backend - toJSONSchema, and through it toGeminiSchema and prompt-embedded schemas
+ * 
+ * @tags json-schema, schema-name
+ */
+function withoutDescriptions(jsonSchema: JSONSchema): JSONSchema {
+  const { description: _name, properties, items, anyOf, additionalProperties, ...rest } = jsonSchema;
+  return {
+    ...rest,
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, withoutDescriptions(value)])) }
+      : {}),
+    ...(items ? { items: withoutDescriptions(items) } : {}),
+    ...(anyOf ? { anyOf: anyOf.map(withoutDescriptions) } : {}),
+    ...(additionalProperties !== undefined
+      ? {
+          additionalProperties: typeof additionalProperties === 'object' && additionalProperties !== null
+            ? withoutDescriptions(additionalProperties as JSONSchema)
+            : additionalProperties
+        }
+      : {})
+  };
+}
+
+/**
+ * Returns a structured-output schema name accepted by OpenAI
+ * Used by: Backend - OpenAIAdapter json_schema response format
+ * 
+ * @tags schema-name, sanitize
+ */
+export function toStructuredOutputName(schema: z.ZodTypeAny): string {
+  return getSchemaName(schema).replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+/**
+ * Converts JSON Schema into the OpenAPI subset accepted by Gemini responseSchema
+ * Used by: Backend - GeminiAdapter native structured output
+ * 
+ * @tags gemini, response-schema, openapi-subset
+ */
+export function toGeminiSchema(jsonSchema: JSONSchema): ResponseSchema {
+  // Optional/nullable unions arrive as anyOf [T, null]
+  if (jsonSchema.anyOf) {
+    const nonNull = jsonSchema.anyOf.filter(s => s.type !== 'null');
+    const converted = toGeminiSchema(nonNull[0] ?? {});
+    return { ...converted, nullable: nonNull.length < jsonSchema.anyOf.length || undefined };
+  }
+
+  const types = Array.isArray(jsonSchema.type) ? jsonSchema.type : [jsonSchema.type];
+  const type = types.find(t => t !== 'null');
+  const nullable = types.includes('null') || undefined;
+  const description = jsonSchema.description;
+
+  if (jsonSchema.enum || jsonSchema.const !== undefined) {
+    const values = jsonSchema.enum ?? [jsonSchema.const];
+    return {
+      type: SchemaType.STRING,
+      format: 'enum',
+      enum: values.map(String),
+      description,
+      nullable
+    };
+  }
+
+  switch (type) {
+    case 'object':
+      return {
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(jsonSchema.properties ?? {}).map(([key, value]) => [
+            key,
+            toGeminiSchema(value)
+          ])
+        ),
+        required: jsonSchema.required,
+        description,
+        nullable
+      };
+    case 'array':
+      return {
+        type: SchemaType.ARRAY,
+        items: toGeminiSchema(jsonSchema.items ?? {}),
+        description,
+        nullable
+      };
+    case 'integer':
+      return { type: SchemaType.INTEGER, description, nullable };
+    case 'number':
+      return { type: SchemaType.NUMBER, description, nullable };
+    case 'boolean':
+      return { type: SchemaType.BOOLEAN, description, nullable };
+    default:
+      return { type: SchemaType.STRING, description, nullable };
+  }
+}
+
+/**
+ * Builds the prompt suffix used when a provider cannot enforce the schema natively
+ * Used by: Backend - Adapters downgraded from native structured output
+ * 
+ * @tags prompt-schema, downgrade
+ */
+export function describeSchemaForPrompt(schema: z.ZodTypeAny): string {
+  return `Respond with valid JSON matching this JSON Schema:\n${JSON.stringify(toJSONSchema(schema), null, 2)}`;
+}
+
+/**
+ * Detects provider errors caused by an unsupported structured-output request
+ * Used by: Backend - Adapters downgrading from json_schema to json_object mode
+ * 
+ * @tags error-detection, downgrade
+ */
+export function isStructuredOutputUnsupported(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    (status === undefined || status === 400 || status === 422) &&
+    /response_format|json_schema|responseSchema|response_schema/i.test(message)
+  );
+}
+
+/**
+ * Runs a provider request, re-issuing it at once without the schema when the provider rejects it
+ * The downgrade happens inside the same attempt, so it needs no retry budget or backoff
+ * The rejected request is still reported through onReissue, so call counts match what the provider bills
+ * Used by: Backend - Gemini and OpenAI adapters
+ * 
+ * @tags downgrade, structured-output
+ */
+export async function withSchemaDowngrade<T>(
+  native: boolean,
+  request: () => Promise<T>,
+  downgrade: () => void,
+  onReissue?: () => void
+): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (!native || !isStructuredOutputUnsupported(error)) throw error;
+    downgrade();
+    onReissue?.();
+    return request();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+/**
+ * Pluggable structured logger with manuscript redaction
+ * Used by: Backend - LLM adapters, core modules and API routes
+ * 
+ * @tags logging, redaction, observability
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface ConsoleLoggerOptions {
+  level?: LogLevel; // Minimum level written; defaults to 'info'
+  redact?: boolean; // Replace manuscript and model text with its length; defaults to true
+  fields?: LogFields; // Added to every record, e.g. { analysis_id }
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields that carry manuscript text or model output, which may quote it
+const REDACTED_FIELDS = new Set([
+  'text',
+  'prompt',
+  'systemPrompt',
+  'rawText',
+  'content',
+  'evidence',
+  'output'
+]);
+
+const MAX_REDACT_DEPTH = 5;
+
+/**
+ * Logger writing one JSON line per record to the console
+ * Used by: Backend - Default logger of adapters and the analysis route
+ * 
+ * @tags console-logger, json-lines
+ */
+export class ConsoleLogger implements Logger {
+  private level: LogLevel;
+  private redact: boolean;
+  private fields: LogFields;
+
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.redact = options.redact ?? true;
+    this.fields = options.fields ?? {};
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Returns a logger that adds the given fields to every record
+   * Used by: Backend - Per-analysis loggers carrying the analysis ID
+   * 
+   * @tags child-logger, context
+   */
+  child(fields: LogFields): ConsoleLogger {
+    return new ConsoleLogger({
+      level: this.level,
+      redact: this.redact,
+      fields: { ...this.fields, ...fields }
+    });
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.level]) return;
+
+    const merged = { ...this.fields, ...fields };
+    const record = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...(this.redact ? redactFields(merged) : serializeErrors(merged))
+    };
+    const line = JSON.stringify(record);
+    if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+// Used when a call is made without a logger; warnings still surface, content never does
+export const defaultLogger: Logger = new ConsoleLogger({ level: 'warn' });
+
+/**
+ * Replaces manuscript-bearing fields with their length, recursively
+ * Used by: Backend - ConsoleLogger and custom loggers that need the same policy
+ * 
+ * @tags redaction, privacy
+ */
+export function redactFields(fields: LogFields): LogFields {
+  return redactValue(fields, 0) as LogFields;
+}
+
+function redactValue(value: unknown, depth: number, key?: string): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (key !== undefined && REDACTED_FIELDS.has(key)) {
+    if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+    if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+  }
+  if (depth >= MAX_REDACT_DEPTH || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([name, item]) => [name, redactValue(item, depth + 1, name)])
+  );
+}
+
+function serializeErrors(fields: LogFields): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([name, value]) => [
+      name,
+      value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+    ])
+  );
+}
+
+export default ConsoleLogger;
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Tolerant parsing of incomplete JSON from streamed model output
+ * Used by: Backend - Streaming adapters emitting progressively-parsed partial objects
+ * 
+ * @tags llm, streaming, partial-json, parser
+ */
+
+/**
+ * Parses the longest complete prefix of a JSON document still being generated
+ * Open objects and arrays are closed; values cut off mid-way are left out
+ * Used by: Backend - LLMAdapter stream events between tokens and final validation
+ * 
+ * @tags partial-json, incremental-parse
+ */
+export function parsePartialJSON(text: string): unknown | undefined {
+  const source = text.replace(/^\s*```(?:json)?\s*/, '');
+  const start = source.search(/[[{]/);
+  if (start === -1) return undefined;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Latest position where the prefix ends on a complete value, with the closers it needs
+  let cut = -1;
+  let closers = '';
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        break;
+      case '{':
+      case '[':
+        stack.push(char === '{' ? '}' : ']');
+        cut = i + 1;
+        closers = stack.slice().reverse().join('');
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        cut = i + 1;
+        closers = stack.slice().reverse().join('');
+        if (stack.length === 0) {
+          return tryParse(source.slice(start, cut));
+        }
+        break;
+      case ',':
+        cut = i;
+        closers = stack.slice().reverse().join('');
+        break;
+    }
+  }
+
+  return cut === -1 ? undefined : tryParse(source.slice(start, cut) + closers);
+}
+
+function tryParse(json: string): unknown | undefined {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
\ No newline at end of file
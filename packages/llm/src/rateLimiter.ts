@@ -0,0 +1,229 @@
+/**
+ * Client-side rate limiting and concurrency control per provider
+ * Used by: Backend - LLM adapters queueing requests under provider quotas
+ * 
+ * @tags llm, rate-limit, concurrency, queue
+ */
+
+import { LLMAbortError } from './errors';
+
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
+}
+
+export interface RateLimiterStats {
+  queued: number;
+  inFlight: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+}
+
+export interface RateLimitPermit {
+  // Frees the concurrency slot and replaces the token estimate with actual usage
+  release(actualTokens?: number): void;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (permit: RateLimitPermit) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * FIFO limiter enforcing requests/tokens per minute and max in-flight calls
+ * Used by: Backend - Shared across adapters for the same provider and model
+ * 
+ * @tags rate-limiter, sliding-window, fifo-queue
+ */
+export class RateLimiter {
+  private queue: Waiter[] = [];
+  private window: WindowEntry[] = [];
+  private inFlight = 0;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private config: RateLimitConfig) {}
+
+  /**
+   * Waits until a request with the estimated token count may start
+   * Used by: Backend - LLMAdapter before each provider request
+   * 
+   * @tags acquire, queue
+   */
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<RateLimitPermit> {
+    if (signal?.aborted) {
+      return Promise.reject(new LLMAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens: estimatedTokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new LLMAbortError());
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Returns the number of calls waiting for a slot
+   * Used by: Backend - Observability of provider back-pressure
+   * 
+   * @tags queue-depth, observability
+   */
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Returns queue depth, in-flight calls and current window usage
+   * Used by: Backend - getRateLimiterStats for /api/llm-status
+   * 
+   * @tags stats, observability
+   */
+  getStats(): RateLimiterStats {
+    this.prune(Date.now());
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      requestsLastMinute: this.window.length,
+      tokensLastMinute: this.window.reduce((sum, entry) => sum + entry.tokens, 0)
+    };
+  }
+
+  /**
+   * Starts queued calls in order while all limits allow it
+   * Used by: Backend - acquire, release and window expiry
+   * 
+   * @tags scheduler
+   */
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.prune(now);
+      const waiter = this.queue[0];
+      const wait = this.getWaitMs(waiter.tokens, now);
+      if (wait === undefined) return; // Blocked on concurrency; release() pumps again
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.pump(), wait);
+        return;
+      }
+
+      this.queue.shift();
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve(this.grant(waiter.tokens, now));
+    }
+  }
+
+  /**
+   * Computes how long the next call must wait, or undefined until a slot frees up
+   * Used by: Backend - RateLimiter scheduling
+   * 
+   * @tags scheduler, sliding-window
+   */
+  private getWaitMs(tokens: number, now: number): number | undefined {
+    const { requestsPerMinute, tokensPerMinute, maxConcurrent } = this.config;
+    if (maxConcurrent && this.inFlight >= maxConcurrent) return undefined;
+
+    let wait = 0;
+    if (requestsPerMinute && this.window.length >= requestsPerMinute) {
+      const oldest = this.window[this.window.length - requestsPerMinute];
+      wait = Math.max(wait, oldest.time + WINDOW_MS - now);
+    }
+    if (tokensPerMinute && this.window.length > 0) {
+      // Drop the oldest entries until the new call fits; an oversized call waits for an empty window
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of this.window) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - now);
+      }
+    }
+    return wait;
+  }
+
+  private grant(tokens: number, now: number): RateLimitPermit {
+    const entry: WindowEntry = { time: now, tokens };
+    this.window.push(entry);
+    this.inFlight++;
+
+    let released = false;
+    return {
+      release: (actualTokens?: number) => {
+        if (released) return;
+        released = true;
+        if (actualTokens !== undefined) entry.tokens = actualTokens;
+        this.inFlight--;
+        this.pump();
+      }
+    };
+  }
+
+  private prune(now: number): void {
+    while (this.window.length > 0 && this.window[0].time + WINDOW_MS <= now) {
+      this.window.shift();
+    }
+  }
+}
+
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Returns the process-wide limiter for a provider endpoint and model
+ * The first config registered for a key wins, so every adapter shares one budget
+ * Used by: Backend - LLMAdapter construction
+ * 
+ * @tags rate-limiter, registry, shared-state
+ */
+export function getSharedRateLimiter(key: string, config: RateLimitConfig): RateLimiter {
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(config);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Returns stats for every shared limiter, keyed by provider endpoint and model
+ * Used by: Backend - Queue depth observability endpoint
+ * 
+ * @tags stats, observability
+ */
+export function getRateLimiterStats(): Record<string, RateLimiterStats> {
+  return Object.fromEntries(
+    [...sharedLimiters].map(([key, limiter]) => [key, limiter.getStats()])
+  );
+}
+
+/**
+ * Roughly estimates the token count of text before the provider reports usage
+ * Used by: Backend - Tokens-per-minute budgeting of queued calls
+ * 
+ * @tags token-estimate
+ */
+export function estimateTokens(text: string): number {
+  // Hangul averages around two characters per token; the estimate is replaced by actual usage
+  return Math.ceil(text.length / 2);
+}
+
+export default RateLimiter;
\ No newline at end of file
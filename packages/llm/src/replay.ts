@@ -0,0 +1,260 @@
+/**
+ * Record/replay and mock adapters for offline, deterministic pipeline runs
+ * Used by: Backend - Tests and demos of the analysis pipeline without provider keys
+ * 
+ * @tags llm, record-replay, fixtures, mock
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  getSchemaName,
+  type GenerateOptions,
+  type LLMConfig,
+  type LLMResponse
+} from './base';
+import { throwIfAborted } from './errors';
+
+export type ReplayMode = 'record' | 'replay' | 'mock';
+
+export interface LLMFixture {
+  key: string;
+  schemaName: string;
+  prompt: string;
+  systemPrompt?: string;
+  sample?: number;
+  rawText: string;
+  usage?: LLMResponse<unknown>['usage'];
+  recordedAt: string;
+}
+
+/**
+ * Computes the fixture key for a generateJSON call
+ * Used by: Backend - ReplayAdapter for fixture lookup
+ * 
+ * @tags hash, fixture-key
+ */
+export function computePromptHash(
+  prompt: string,
+  schemaName: string,
+  systemPrompt?: string,
+  sample?: number
+): string {
+  // Sample 0 hashes like an unsampled call, so existing fixtures keep replaying
+  return createHash('sha256')
+    .update(JSON.stringify({ schemaName, systemPrompt: systemPrompt ?? '', prompt, ...(sample ? { sample } : {}) }))
+    .digest('hex');
+}
+
+/**
+ * Adapter that records real calls to fixture files, replays them by prompt hash,
+ * or returns schema-valid canned data without any provider
+ * Used by: Backend - Offline runs of SettingBuilder, ConsistencyChecker and PersonaEvaluator
+ * 
+ * @tags replay-adapter, record, mock, deterministic
+ */
+export class ReplayAdapter extends LLMAdapter {
+  private fixtureDir: string;
+  private mockData: Record<string, unknown>;
+
+  constructor(
+    config: LLMConfig,
+    private mode: ReplayMode,
+    private upstream?: LLMAdapter
+  ) {
+    super(config);
+    if (mode === 'record' && !upstream) {
+      throw new Error('Record mode requires an upstream adapter');
+    }
+    this.fixtureDir = config.fixtureDir ?? path.resolve(process.cwd(), 'fixtures', 'llm');
+    this.mockData = config.mockData ?? {};
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    throwIfAborted(options?.signal);
+    switch (this.mode) {
+      case 'record':
+        return this.record(prompt, schema, systemPrompt, options);
+      case 'replay':
+        return this.replay(prompt, schema, systemPrompt, options?.sample);
+      case 'mock':
+        return this.mock(schema);
+    }
+  }
+
+  /**
+   * Forwards the call upstream and stores the raw response as a fixture
+   * Used by: Backend - Capturing fixtures from a live provider
+   * 
+   * @tags record, fixture-writer
+   */
+  private async record<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    const response = await this.upstream!.generateJSON(prompt, schema, systemPrompt, options);
+    if (!response.success || response.rawText === undefined) {
+      return response;
+    }
+
+    const schemaName = getSchemaName(schema);
+    const fixture: LLMFixture = {
+      key: computePromptHash(prompt, schemaName, systemPrompt, options?.sample),
+      schemaName,
+      prompt,
+      systemPrompt,
+      sample: options?.sample,
+      rawText: response.rawText,
+      usage: response.usage,
+      recordedAt: new Date().toISOString()
+    };
+
+    await fs.promises.mkdir(this.fixtureDir, { recursive: true });
+    await fs.promises.writeFile(
+      this.getFixturePath(fixture.key),
+      JSON.stringify(fixture, null, 2),
+      'utf-8'
+    );
+
+    return response;
+  }
+
+  /**
+   * Answers the call from a previously recorded fixture
+   * Used by: Backend - Deterministic offline pipeline runs
+   * 
+   * @tags replay, fixture-reader
+   */
+  private async replay<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    sample?: number
+  ): Promise<LLMResponse<T>> {
+    const key = computePromptHash(prompt, getSchemaName(schema), systemPrompt, sample);
+
+    let fixture: LLMFixture;
+    try {
+      const content = await fs.promises.readFile(this.getFixturePath(key), 'utf-8');
+      fixture = JSON.parse(content);
+    } catch {
+      return {
+        success: false,
+        error: `No recorded fixture for prompt hash ${key}`
+      };
+    }
+
+    const validated = this.validateJSON(fixture.rawText, schema);
+    if (!validated) {
+      return {
+        success: false,
+        error: `Recorded fixture ${key} does not match schema ${fixture.schemaName}`,
+        errorKind: 'invalid_output'
+      };
+    }
+
+    return {
+      success: true,
+      data: validated,
+      rawText: fixture.rawText,
+      usage: fixture.usage
+    };
+  }
+
+  /**
+   * Returns configured canned data or a generated schema-valid placeholder
+   * Used by: Backend - Demos without any recorded fixtures
+   * 
+   * @tags mock, canned-data
+   */
+  private mock<T>(schema: z.ZodSchema<T>): LLMResponse<T> {
+    const schemaName = getSchemaName(schema);
+    const candidate = schemaName in this.mockData
+      ? this.mockData[schemaName]
+      : mockFromSchema(schema);
+
+    const result = schema.safeParse(candidate);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Mock data for ${schemaName} does not match schema: ${result.error.message}`,
+        errorKind: 'invalid_output'
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data,
+      rawText: JSON.stringify(candidate),
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    };
+  }
+
+  private getFixturePath(key: string): string {
+    return path.join(this.fixtureDir, `${key}.json`);
+  }
+}
+
+/**
+ * Builds a placeholder value that satisfies a Zod schema
+ * Used by: Backend - ReplayAdapter mock mode
+ * 
+ * @tags mock, schema-walker
+ */
+export function mockFromSchema(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [key, mockFromSchema(value)])
+    );
+  }
+  if (schema instanceof z.ZodArray) {
+    const minLength = schema._def.minLength?.value ?? 1;
+    return Array.from({ length: Math.max(1, minLength) }, () => mockFromSchema(schema.element));
+  }
+  if (schema instanceof z.ZodString) {
+    return 'mock';
+  }
+  if (schema instanceof z.ZodNumber) {
+    const min = schema.minValue ?? 0;
+    const max = schema.maxValue ?? min + 100;
+    return Math.round(min + (max - min) * 0.8);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return false;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return schema.options[0];
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return schema.value;
+  }
+  if (schema instanceof z.ZodUnion) {
+    return mockFromSchema(schema.options[0]);
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return mockFromSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return schema._def.defaultValue();
+  }
+  if (schema instanceof z.ZodEffects) {
+    return mockFromSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {};
+  }
+  return null;
+}
+
+export default ReplayAdapter;
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Minimal tracing with OpenTelemetry-style spans and a JSON lines file exporter
+ * Used by: Backend - Span per LLM call and per analysis step
+ * 
+ * @tags tracing, spans, opentelemetry, observability
+ */
+
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { defaultLogger, type Logger } from './logger';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface SpanStatus {
+  code: 'unset' | 'ok' | 'error';
+  message?: string;
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttributes(attributes: SpanAttributes): void;
+  setStatus(status: SpanStatus): void;
+  end(): void;
+}
+
+export interface StartSpanOptions {
+  parent?: Span;
+  attributes?: SpanAttributes;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: StartSpanOptions): Span;
+}
+
+// Shape follows the OTLP JSON span fields so files can be converted or replayed into a collector
+export interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: SpanStatus;
+}
+
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+}
+
+const noopSpan: Span = {
+  traceId: '',
+  spanId: '',
+  setAttributes: () => {},
+  setStatus: () => {},
+  end: () => {}
+};
+
+export const noopTracer: Tracer = {
+  startSpan: () => noopSpan
+};
+
+/**
+ * Tracer that hands every ended span to its exporters
+ * Used by: Backend - /api/analyze tracing when an exporter is configured
+ * 
+ * @tags tracer, span-lifecycle
+ */
+export class BasicTracer implements Tracer {
+  constructor(private exporters: SpanExporter[]) {}
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const traceId = options.parent?.traceId || randomBytes(16).toString('hex');
+    const spanId = randomBytes(8).toString('hex');
+    const startTime = Date.now();
+    const attributes: Record<string, SpanAttributeValue> = {};
+    let status: SpanStatus = { code: 'unset' };
+    let ended = false;
+
+    const span: Span = {
+      traceId,
+      spanId,
+      setAttributes: values => {
+        for (const [key, value] of Object.entries(values)) {
+          if (value !== undefined) attributes[key] = value;
+        }
+      },
+      setStatus: value => {
+        status = value;
+      },
+      end: () => {
+        if (ended) return;
+        ended = true;
+        const endTime = Date.now();
+        const finished: FinishedSpan = {
+          traceId,
+          spanId,
+          parentSpanId: options.parent?.spanId || undefined,
+          name,
+          startTimeUnixNano: toUnixNano(startTime),
+          endTimeUnixNano: toUnixNano(endTime),
+          durationMs: endTime - startTime,
+          attributes: { ...attributes },
+          status
+        };
+        for (const exporter of this.exporters) {
+          try {
+            exporter.export(finished);
+          } catch {
+            // A broken exporter must never fail the traced operation
+          }
+        }
+      }
+    };
+
+    span.setAttributes(options.attributes ?? {});
+    return span;
+  }
+}
+
+/**
+ * Appends finished spans as JSON lines to a local file
+ * Used by: Backend - Local trace capture without a collector
+ * 
+ * @tags exporter, file, json-lines
+ */
+export class FileSpanExporter implements SpanExporter {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private logger: Logger = defaultLogger
+  ) {}
+
+  export(span: FinishedSpan): void {
+    // Writes are chained so lines keep their end order and never interleave
+    this.pending = this.pending
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(span) + '\n', 'utf-8');
+      })
+      .catch(error => this.logger.error('Failed to export span', { error, file: this.filePath }));
+  }
+
+  /**
+   * Resolves once every exported span has been written
+   * Used by: Backend - Flushing traces before shutdown
+   * 
+   * @tags flush
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(ms) * 1_000_000n).toString();
+}
+
+export default BasicTracer;
\ No newline at end of file
@@ -0,0 +1,182 @@
+/**
+ * Token usage and cost accounting for LLM calls
+ * Used by: Backend - /api/analyze for per-step usage, latency and cost reporting
+ * 
+ * @tags llm, usage, cost, accounting
+ */
+
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  type GenerateOptions,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMUsage,
+  type ModelInfo,
+  type PromptRef,
+  type StreamEvent
+} from './base';
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+export const DEFAULT_PRICING: PriceTable = {
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4-turbo-preview': { inputPerMillion: 10, outputPerMillion: 30 }
+};
+
+export interface LLMCallRecord {
+  label: string;
+  prompt?: PromptRef;
+  provider?: LLMProvider;
+  model?: string;
+  success: boolean;
+  cached: boolean;
+  usage: LLMUsage;
+  retries: number;
+  repairs: number;
+  latencyMs: number;
+  estimatedCostUsd: number;
+  error?: string;
+}
+
+/**
+ * Estimates the USD cost of a call from its token usage
+ * Used by: Backend - UsageTracker cost accounting
+ * 
+ * @tags cost-estimation, pricing
+ */
+export function estimateCost(
+  usage: LLMUsage,
+  model: string | undefined,
+  pricing: PriceTable = DEFAULT_PRICING
+): number {
+  const price = model ? pricing[model] : undefined;
+  if (!price) return 0;
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Adapter wrapper that records usage, retries, latency and cost of every call
+ * Used by: Backend - Analysis pipeline accounting shown in the UI
+ * 
+ * @tags usage-tracker, decorator, observability
+ */
+export class UsageTracker extends LLMAdapter {
+  private records: LLMCallRecord[] = [];
+
+  constructor(
+    private inner: LLMAdapter,
+    private pricing: PriceTable = DEFAULT_PRICING
+  ) {
+    super(inner.getModelInfo());
+  }
+
+  getModelInfo(): ModelInfo {
+    return this.inner.getModelInfo();
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    let response: LLMResponse<T>;
+    try {
+      response = await this.inner.generateJSON(prompt, schema, systemPrompt, options);
+    } catch (error) {
+      this.recordFailure(options, startTime, error);
+      throw error;
+    }
+    this.record(options, startTime, response);
+    return response;
+  }
+
+  async *generateJSONStream<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    systemPrompt?: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<StreamEvent<T>> {
+    const startTime = Date.now();
+    try {
+      for await (const event of this.inner.generateJSONStream(prompt, schema, systemPrompt, options)) {
+        if (event.type === 'done') {
+          this.record(options, startTime, event.response);
+        }
+        yield event;
+      }
+    } catch (error) {
+      this.recordFailure(options, startTime, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns all calls recorded so far
+   * Used by: Backend - Building the Analysis usage summary
+   * 
+   * @tags usage-records
+   */
+  getRecords(): LLMCallRecord[] {
+    return [...this.records];
+  }
+
+  private record<T>(
+    options: GenerateOptions | undefined,
+    startTime: number,
+    response: LLMResponse<T>
+  ): void {
+    const usage = response.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    this.records.push({
+      label: options?.label ?? 'unlabeled',
+      prompt: options?.prompt,
+      provider: response.provider,
+      model: response.model,
+      success: response.success,
+      cached: response.cached ?? false,
+      usage,
+      retries: response.retries ?? 0,
+      repairs: response.repairs ?? 0,
+      latencyMs: Date.now() - startTime,
+      estimatedCostUsd: estimateCost(usage, response.model, this.pricing),
+      error: response.error
+    });
+  }
+
+  private recordFailure(
+    options: GenerateOptions | undefined,
+    startTime: number,
+    error: unknown
+  ): void {
+    // Record cancelled calls too, so aborted analyses still show where time went
+    this.records.push({
+      label: options?.label ?? 'unlabeled',
+      prompt: options?.prompt,
+      success: false,
+      cached: false,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      retries: 0,
+      repairs: 0,
+      latencyMs: Date.now() - startTime,
+      estimatedCostUsd: 0,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export default UsageTracker;
\ No newline at end of file
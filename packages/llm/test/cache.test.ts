@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  CachedAdapter,
+  FileCacheStore,
+  LLMAdapter,
+  MemoryCacheStore,
+  computeCacheKey,
+  type CacheEntry,
+  type LLMResponse
+} from '../src';
+
+const VerdictSchema = z.object({ verdict: z.string() }).describe('Verdict');
+
+// Answers calls with queued responses, counting how often the cache let a call through
+class Queued extends LLMAdapter {
+  calls = 0;
+
+  constructor(private responses: LLMResponse<unknown>[]) {
+    super({ provider: 'openai', model: 'gpt-4o-mini' });
+  }
+
+  async generateJSON<T>(): Promise<LLMResponse<T>> {
+    this.calls++;
+    const response = this.responses.shift();
+    if (!response) throw new Error('No queued response left');
+    return response as LLMResponse<T>;
+  }
+}
+
+function answer(verdict: string, extra: Partial<LLMResponse<unknown>> = {}): LLMResponse<unknown> {
+  return {
+    success: true,
+    data: { verdict },
+    rawText: JSON.stringify({ verdict }),
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    ...extra
+  };
+}
+
+describe('CachedAdapter', () => {
+  it('serves a repeated call from the cache without usage', async () => {
+    const inner = new Queued([answer('keep'), answer('revise')]);
+    const adapter = new CachedAdapter(inner, new MemoryCacheStore());
+
+    const miss = await adapter.generateJSON('판정해', VerdictSchema, '짧게');
+    const hit = await adapter.generateJSON('판정해', VerdictSchema, '짧게');
+
+    expect(miss).toMatchObject({ data: { verdict: 'keep' }, usage: { totalTokens: 15 } });
+    expect(miss.cached).toBeUndefined();
+    expect(hit).toMatchObject({
+      success: true,
+      cached: true,
+      data: { verdict: 'keep' },
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('keys entries by prompt, system prompt and sample', async () => {
+    const inner = new Queued([answer('a'), answer('b'), answer('c'), answer('d')]);
+    const adapter = new CachedAdapter(inner, new MemoryCacheStore());
+
+    await adapter.generateJSON('판정해', VerdictSchema);
+    await adapter.generateJSON('다시 판정해', VerdictSchema);
+    await adapter.generateJSON('판정해', VerdictSchema, '짧게');
+    await adapter.generateJSON('판정해', VerdictSchema, undefined, { sample: 2 });
+
+    expect(inner.calls).toBe(4);
+    expect((await adapter.generateJSON('판정해', VerdictSchema, undefined, { sample: 0 })).data).toEqual({ verdict: 'a' });
+  });
+
+  it('skips reads but still stores fresh responses when bypassed', async () => {
+    const store = new MemoryCacheStore();
+    const inner = new Queued([answer('keep'), answer('revise')]);
+    const bypassing = new CachedAdapter(inner, store, { bypass: true });
+
+    await bypassing.generateJSON('판정해', VerdictSchema);
+    const fresh = await bypassing.generateJSON('판정해', VerdictSchema);
+    const cached = await new CachedAdapter(inner, store).generateJSON('판정해', VerdictSchema);
+
+    expect(fresh).toMatchObject({ data: { verdict: 'revise' } });
+    expect(fresh.cached).toBeUndefined();
+    expect(cached).toMatchObject({ cached: true, data: { verdict: 'revise' } });
+    expect(inner.calls).toBe(2);
+  });
+
+  it('does not store failed or salvaged responses', async () => {
+    const inner = new Queued([
+      { success: false, error: 'Service Unavailable', errorKind: 'server' },
+      answer('partial', { salvaged: true, droppedItems: 1 }),
+      answer('keep')
+    ]);
+    const adapter = new CachedAdapter(inner, new MemoryCacheStore());
+
+    const responses = [];
+    for (let i = 0; i < 4; i++) {
+      responses.push(await adapter.generateJSON('판정해', VerdictSchema));
+    }
+
+    expect(responses.map(response => response.cached ?? false)).toEqual([false, false, false, true]);
+    expect(responses[3].data).toEqual({ verdict: 'keep' });
+    expect(inner.calls).toBe(3);
+  });
+
+  it('ignores stored entries that no longer match the schema', async () => {
+    const store = new MemoryCacheStore();
+    const inner = new Queued([answer('keep')]);
+    const adapter = new CachedAdapter(inner, store);
+    await store.set(computeCacheKey(inner.getModelInfo(), '판정해', VerdictSchema), {
+      data: { verdict: 3 },
+      storedAt: Date.now()
+    });
+
+    const response = await adapter.generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ data: { verdict: 'keep' } });
+    expect(response.cached).toBeUndefined();
+    expect(inner.calls).toBe(1);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores entries across instances and drops expired ones', async () => {
+    await new FileCacheStore(directory).set('fresh', { data: { n: 1 }, storedAt: Date.now() });
+    await new FileCacheStore(directory).set('stale', { data: { n: 2 }, storedAt: 0, expiresAt: 1 });
+
+    const store = new FileCacheStore(directory);
+
+    expect(await store.get('fresh')).toMatchObject({ data: { n: 1 } });
+    expect(await store.get('stale')).toBeUndefined();
+    expect(await fs.promises.readdir(directory)).toEqual(['fresh.json']);
+  });
+
+  it('keeps one intact entry when the same key is written concurrently', async () => {
+    const store = new FileCacheStore(directory);
+    const entries: CacheEntry[] = Array.from({ length: 8 }, (_, index) => ({
+      data: { index, text: String(index).repeat(100_000) },
+      storedAt: Date.now()
+    }));
+
+    await Promise.all(entries.map(entry => store.set('key', entry)));
+
+    expect(entries).toContainEqual(await store.get('key'));
+    expect(await fs.promises.readdir(directory)).toEqual(['key.json']);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  LLMError,
+  classifyError,
+  throwIfFatal,
+  type GenerateOptions,
+  type LLMErrorKind,
+  type LLMResponse
+} from '../src';
+
+const VerdictSchema = z.object({ verdict: z.string() }).describe('Verdict');
+
+// Fails each request with the next queued error, then answers once the queue is empty
+class Failing extends LLMAdapter {
+  requests = 0;
+
+  constructor(private errors: unknown[]) {
+    super({ provider: 'openai', model: 'gpt-4o-mini', maxRetries: 3 });
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    _systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    return this.generateWithRepair(schema, prompt, options, async () => {
+      this.requests++;
+      const error = this.errors.shift();
+      if (error) throw error;
+      return { text: '{"verdict":"keep"}' };
+    });
+  }
+}
+
+// Retry-After headers keep the backoff short
+function httpError(status: number, message: string, code?: string) {
+  return Object.assign(new Error(message), { status, code, headers: { 'retry-after-ms': '1' } });
+}
+
+describe('classifyError', () => {
+  const cases: Array<[string, unknown, LLMErrorKind]> = [
+    ['401 responses', httpError(401, 'Unauthorized'), 'auth'],
+    ['invalid Gemini keys', new Error('[400 Bad Request] API key not valid. Please pass a valid API key.'), 'auth'],
+    ['429 responses', httpError(429, 'Rate limit reached for requests'), 'rate_limit'],
+    ['Gemini resource exhaustion', new Error('[429 Too Many Requests] RESOURCE_EXHAUSTED'), 'rate_limit'],
+    ['exhausted billing quota', httpError(429, 'You exceeded your current quota', 'insufficient_quota'), 'quota'],
+    ['oversized input', httpError(400, "This model's maximum context length is 128000 tokens", 'context_length_exceeded'), 'context_length'],
+    ['content filters', httpError(400, 'Output blocked', 'content_filter'), 'safety'],
+    ['5xx responses', httpError(503, 'Service Unavailable'), 'server'],
+    ['timeouts', new Error('Request timed out.'), 'timeout'],
+    ['connection failures', new Error('fetch failed'), 'network'],
+    ['other 4xx responses', httpError(400, 'Invalid value for temperature'), 'bad_request'],
+    ['anything else', 'boom', 'unknown']
+  ];
+
+  it.each(cases)('maps %s', (_name, error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it('marks only transient kinds as retryable and keeps the requested delay', () => {
+    expect(classifyError(httpError(429, 'rate limit')).retryable).toBe(true);
+    expect(classifyError(httpError(503, 'down')).retryable).toBe(true);
+    expect(classifyError(httpError(401, 'Unauthorized')).retryable).toBe(false);
+    expect(classifyError(new Error('Request timed out.')).retryable).toBe(false);
+    expect(classifyError(httpError(429, 'rate limit')).retryAfterMs).toBe(1);
+    expect(classifyError(Object.assign(new Error('RESOURCE_EXHAUSTED'), {
+      errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }]
+    })).retryAfterMs).toBe(37000);
+  });
+
+  it('passes typed errors through unchanged', () => {
+    const error = new LLMError('quota', 'daily limit');
+
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('retry policy', () => {
+  it('retries rate limits, network and server errors', async () => {
+    const adapter = new Failing([
+      httpError(429, 'Rate limit reached'),
+      Object.assign(new Error('socket hang up'), { headers: { 'retry-after-ms': '1' } })
+    ]);
+
+    const response = await adapter.generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: true, retries: 2 });
+    expect(adapter.requests).toBe(3);
+  });
+
+  it.each([
+    ['auth', httpError(401, 'Unauthorized')],
+    ['quota', httpError(429, 'You exceeded your current quota', 'insufficient_quota')],
+    ['context_length', httpError(400, 'maximum context length exceeded', 'context_length_exceeded')],
+    ['bad_request', httpError(400, 'Invalid value for temperature')]
+  ])('does not retry %s errors', async (kind, error) => {
+    const adapter = new Failing([error]);
+
+    const response = await adapter.generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: false, errorKind: kind, retries: 0 });
+    expect(adapter.requests).toBe(1);
+  });
+
+  it('gives up once the attempts run out', async () => {
+    const adapter = new Failing([httpError(503, 'down'), httpError(503, 'down'), httpError(503, 'down')]);
+
+    const response = await adapter.generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: false, errorKind: 'server', retries: 2 });
+    expect(adapter.requests).toBe(3);
+  });
+
+  it('stops the pipeline only on fatal kinds', () => {
+    expect(() => throwIfFatal({ success: false, error: 'bad key', errorKind: 'auth' })).toThrow(LLMError);
+    expect(() => throwIfFatal({ success: false, error: 'down', errorKind: 'server' })).not.toThrow();
+    expect(() => throwIfFatal({ success: false, error: 'bad JSON', errorKind: 'invalid_output' })).not.toThrow();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  FallbackAdapter,
+  LLMAbortError,
+  LLMAdapter,
+  type LLMProvider,
+  type LLMResponse,
+  type StreamEvent
+} from '../src';
+
+const VerdictSchema = z.object({ verdict: z.string() }).describe('Verdict');
+
+type Verdict = z.infer<typeof VerdictSchema>;
+
+// Answers every call with the same canned response, or throws the canned error
+class Canned extends LLMAdapter {
+  calls = 0;
+
+  constructor(provider: LLMProvider, model: string, private outcome: LLMResponse<Verdict> | Error) {
+    super({ provider, model });
+  }
+
+  async generateJSON<T>(): Promise<LLMResponse<T>> {
+    this.calls++;
+    if (this.outcome instanceof Error) throw this.outcome;
+    return this.outcome as LLMResponse<T>;
+  }
+}
+
+function usage(totalTokens: number) {
+  return { promptTokens: totalTokens / 2, completionTokens: totalTokens / 2, totalTokens };
+}
+
+function chain(...adapters: LLMAdapter[]) {
+  return new FallbackAdapter({ provider: 'fallback' }, adapters);
+}
+
+describe('FallbackAdapter', () => {
+  it('tries providers in order and reports the one that answered', async () => {
+    const gemini = new Canned('gemini', 'gemini-2.5-flash', {
+      success: false,
+      error: 'quota exhausted',
+      errorKind: 'quota',
+      usage: usage(10),
+      retries: 1
+    });
+    const openai = new Canned('openai', 'gpt-4o-mini', {
+      success: true,
+      data: { verdict: 'keep' },
+      usage: usage(20),
+      repairs: 1
+    });
+    const spare = new Canned('openai', 'gpt-4o', { success: true, data: { verdict: 'spare' } });
+
+    const response = await chain(gemini, openai, spare).generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({
+      success: true,
+      data: { verdict: 'keep' },
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      attempts: [{ provider: 'gemini', model: 'gemini-2.5-flash', error: 'quota exhausted', errorKind: 'quota' }]
+    });
+    // The failed provider's spend and the fall-over itself are included
+    expect(response.usage).toEqual(usage(30));
+    expect(response.retries).toBe(2);
+    expect(response.repairs).toBe(1);
+    expect([gemini.calls, openai.calls, spare.calls]).toEqual([1, 1, 0]);
+  });
+
+  it('falls over on thrown errors and reports every failure when all providers fail', async () => {
+    const response = await chain(
+      new Canned('gemini', 'gemini-2.5-flash', Object.assign(new Error('Service Unavailable'), { status: 503 })),
+      new Canned('openai', 'gpt-4o-mini', { success: false, error: 'bad JSON', errorKind: 'invalid_output' })
+    ).generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: false, errorKind: 'invalid_output', retries: 1 });
+    expect(response.error).toBe('All providers failed: gemini/gemini-2.5-flash: Service Unavailable; openai/gpt-4o-mini: bad JSON');
+    expect(response.attempts?.map(attempt => attempt.errorKind)).toEqual(['server', 'invalid_output']);
+  });
+
+  it('stops the chain when the call is cancelled', async () => {
+    const backup = new Canned('openai', 'gpt-4o-mini', { success: true, data: { verdict: 'keep' } });
+
+    await expect(
+      chain(new Canned('gemini', 'gemini-2.5-flash', new LLMAbortError()), backup).generateJSON('판정해', VerdictSchema)
+    ).rejects.toBeInstanceOf(LLMAbortError);
+    expect(backup.calls).toBe(0);
+  });
+
+  it('streams the answering provider and identifies the chain in its model info', async () => {
+    const adapter = chain(
+      new Canned('gemini', 'gemini-2.5-flash', { success: false, error: 'timeout', errorKind: 'timeout' }),
+      new Canned('openai', 'gpt-4o-mini', { success: true, data: { verdict: 'keep' } })
+    );
+
+    const events: StreamEvent<Verdict>[] = [];
+    for await (const event of adapter.generateJSONStream('판정해', VerdictSchema)) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'done', response: { success: true, provider: 'openai', model: 'gpt-4o-mini' } });
+    expect(adapter.getModelInfo().model).toBe('gemini/gemini-2.5-flash@0.3>openai/gpt-4o-mini@0.3');
+  });
+});
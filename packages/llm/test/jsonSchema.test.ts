@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { describeSchemaForPrompt, toGeminiSchema, toJSONSchema, toStructuredOutputName } from '../src';
+
+const NoteSchema = z.object({
+  title: z.string(),
+  characters: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    role: z.enum(['protagonist', 'minor'])
+  })).describe('CharacterList'),
+  tags: z.record(z.string().describe('Tag')).optional()
+}).describe('Note');
+
+function collectDescriptions(value: unknown, found: unknown[] = []): unknown[] {
+  if (Array.isArray(value)) value.forEach(item => collectDescriptions(item, found));
+  else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'description' && typeof child === 'string') found.push(child);
+      collectDescriptions(child, found);
+    }
+  }
+  return found;
+}
+
+describe('toJSONSchema', () => {
+  it('converts the schema without passing schema names on as descriptions', () => {
+    const jsonSchema = toJSONSchema(NoteSchema);
+
+    expect(jsonSchema.type).toBe('object');
+    expect(jsonSchema.required).toEqual(['title', 'characters']);
+    expect(jsonSchema.properties?.characters.items?.properties).toHaveProperty('description');
+    expect(jsonSchema.properties?.characters.items?.properties?.role.enum).toEqual(['protagonist', 'minor']);
+    expect(collectDescriptions(jsonSchema)).toEqual([]);
+    expect(describeSchemaForPrompt(NoteSchema)).not.toContain('CharacterList');
+  });
+
+  it('keeps the root name for structured output', () => {
+    expect(toStructuredOutputName(NoteSchema)).toBe('Note');
+    expect(toStructuredOutputName(z.object({}).describe('설정 노트'))).toBe('_____');
+  });
+});
+
+describe('toGeminiSchema', () => {
+  it('maps enums, arrays and optional fields onto the OpenAPI subset', () => {
+    const geminiSchema = toGeminiSchema(toJSONSchema(NoteSchema));
+
+    expect(geminiSchema).toMatchObject({
+      type: 'object',
+      required: ['title', 'characters'],
+      properties: {
+        title: { type: 'string' },
+        characters: {
+          type: 'array',
+          items: { type: 'object', properties: { role: { type: 'string', format: 'enum', enum: ['protagonist', 'minor'] } } }
+        }
+      }
+    });
+    expect(collectDescriptions(geminiSchema)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { z } from 'zod';
+import {
+  ConsoleLogger,
+  LLMAdapter,
+  redactFields,
+  type GenerateOptions,
+  type LLMResponse
+} from '../src';
+
+const manuscript = '홍길동은 아버지를 아버지라 부르지 못하고 형을 형이라 부르지 못하였다.';
+
+// Answers with the queued completion texts in order
+class Scripted extends LLMAdapter {
+  constructor(private completions: string[]) {
+    super({ provider: 'mock', model: 'scripted' });
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    _systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    return this.generateWithRepair(schema, prompt, options, async () => ({ text: this.completions.shift() ?? '' }));
+  }
+}
+
+describe('ConsoleLogger', () => {
+  let log: MockInstance;
+  let error: MockInstance;
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function records(): Record<string, any>[] {
+    return [...log.mock.calls, ...error.mock.calls].map(([line]) => JSON.parse(line));
+  }
+
+  it('replaces manuscript text with its length by default, at any depth', () => {
+    new ConsoleLogger().info('Checked chapter', {
+      chapter: 3,
+      prompt: manuscript,
+      issue: { description: '시점 혼동', evidence: [manuscript, manuscript] }
+    });
+
+    const [record] = records();
+    expect(record).toMatchObject({
+      level: 'info',
+      message: 'Checked chapter',
+      chapter: 3,
+      prompt: `[redacted ${manuscript.length} chars]`,
+      issue: { description: '시점 혼동', evidence: '[redacted 2 items]' }
+    });
+    expect(JSON.stringify(record)).not.toContain('홍길동');
+  });
+
+  it('keeps text only when redaction is turned off', () => {
+    new ConsoleLogger({ redact: false }).info('Checked chapter', { prompt: manuscript });
+
+    expect(records()[0].prompt).toBe(manuscript);
+  });
+
+  it('filters by level and writes warnings to stderr', () => {
+    const logger = new ConsoleLogger({ level: 'warn' });
+
+    logger.info('skipped');
+    logger.warn('kept', { error: new Error('boom') });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(records()[0]).toMatchObject({ message: 'kept', error: { name: 'Error', message: 'boom' } });
+  });
+
+  it('adds child fields to every record', () => {
+    new ConsoleLogger().child({ analysis_id: 'a-1' }).child({ step: 'personas' }).info('Started');
+
+    expect(records()[0]).toMatchObject({ analysis_id: 'a-1', step: 'personas' });
+  });
+
+  it('never logs model output from a failed validation unless asked to', async () => {
+    const adapter = new Scripted([JSON.stringify({ verdict: manuscript }), JSON.stringify({ verdict: 'keep' })]);
+
+    await adapter.generateJSON('판정해', z.object({ verdict: z.enum(['keep', 'revise']) }), undefined, {
+      logger: new ConsoleLogger({ level: 'debug' })
+    });
+
+    const [record] = records();
+    expect(record).toMatchObject({ level: 'debug', message: 'LLM output failed validation', repairs: 0 });
+    expect(record.rawText).toMatch(/^\[redacted \d+ chars\]$/);
+    expect(JSON.stringify(records())).not.toContain('홍길동');
+  });
+});
+
+describe('redactFields', () => {
+  it('applies the same policy for custom loggers', () => {
+    expect(redactFields({ text: 'abc', output: ['a'], count: 2, error: new Error('boom') })).toEqual({
+      text: '[redacted 3 chars]',
+      output: '[redacted 1 items]',
+      count: 2,
+      error: { name: 'Error', message: 'boom' }
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { UsageTracker, createLLMAdapter, type JsonMode } from '../src';
+
+const VerdictSchema = z.object({
+  verdict: z.enum(['keep', 'revise']),
+  reason: z.string()
+}).describe('Verdict');
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, any>;
+}
+
+type StubReply = { status: number; body: unknown };
+
+// A stand-in for vLLM, Ollama or LM Studio that answers chat completions from a queue
+let server: http.Server;
+let baseURL: string;
+let received: ReceivedRequest[];
+let replies: StubReply[];
+
+function completion(content: string): StubReply {
+  return {
+    status: 200,
+    body: {
+      id: 'chatcmpl-stub',
+      object: 'chat.completion',
+      created: 0,
+      model: 'stub-model',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 }
+    }
+  };
+}
+
+function adapter(jsonMode?: JsonMode) {
+  return createLLMAdapter({
+    provider: 'openai-compatible',
+    baseURL,
+    model: 'stub-model',
+    headers: { 'X-Workspace': 'page-atelier' },
+    maxRetries: 1, // Attempts, so each call reaches the server once unless the adapter re-issues it
+    ...(jsonMode ? { jsonMode } : {})
+  });
+}
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    let data = '';
+    request.on('data', chunk => { data += chunk; });
+    request.on('end', () => {
+      received.push({ method: request.method, url: request.url, headers: request.headers, body: JSON.parse(data) });
+      const reply = replies.shift() ?? { status: 500, body: { error: { message: 'No stub reply queued' } } };
+      response.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/proxy/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  replies = [];
+});
+
+describe('openai-compatible provider', () => {
+  it('sends chat completions to the configured baseURL with the custom headers', async () => {
+    replies.push(completion('{"verdict":"keep","reason":"일관됨"}'));
+
+    const response = await adapter().generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: true, data: { verdict: 'keep', reason: '일관됨' } });
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20 });
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ method: 'POST', url: '/proxy/v1/chat/completions' });
+    expect(received[0].headers['x-workspace']).toBe('page-atelier');
+    expect(received[0].body.model).toBe('stub-model');
+  });
+
+  it('requests json_object output by default and describes the schema in the prompt', async () => {
+    replies.push(completion('{"verdict":"revise","reason":"설정 충돌"}'));
+
+    await adapter().generateJSON('판정해', VerdictSchema);
+
+    const { body } = received[0];
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[1].content).toContain('verdict');
+  });
+
+  it('sends no response_format in none mode and still parses fenced output', async () => {
+    replies.push(completion('```json\n{"verdict":"keep","reason":"문제 없음"}\n```'));
+
+    const response = await adapter('none').generateJSON('판정해', VerdictSchema);
+
+    expect(response).toMatchObject({ success: true, data: { verdict: 'keep' } });
+    expect(received[0].body).not.toHaveProperty('response_format');
+    expect(received[0].body.messages[1].content).toContain('verdict');
+  });
+
+  it('re-issues a rejected json_schema request in json_object mode within the same attempt', async () => {
+    replies.push(
+      { status: 400, body: { error: { message: "response_format 'json_schema' is not supported", type: 'invalid_request_error' } } },
+      completion('{"verdict":"keep","reason":"일관됨"}'),
+      completion('{"verdict":"revise","reason":"설정 충돌"}')
+    );
+    const llm = new UsageTracker(adapter('json_schema'));
+
+    const first = await llm.generateJSON('판정해', VerdictSchema);
+    const second = await llm.generateJSON('다시 판정해', VerdictSchema);
+
+    expect(first).toMatchObject({ success: true, data: { verdict: 'keep' } });
+    // The rejected request reached the provider, so it counts as a retry
+    expect(first.retries).toBe(1);
+    expect(llm.getRecords().map(record => record.retries)).toEqual([1, 0]);
+    expect(received.map(request => request.body.response_format?.type)).toEqual(['json_schema', 'json_object', 'json_object']);
+    expect(received[0].body.response_format.json_schema.schema.properties).toHaveProperty('verdict');
+    // The adapter remembers the downgrade, so later calls skip the rejected format
+    expect(second).toMatchObject({ success: true, data: { verdict: 'revise' } });
+  });
+
+  it('does not downgrade on errors unrelated to the response format', async () => {
+    replies.push({ status: 400, body: { error: { message: 'context length exceeded', type: 'invalid_request_error' } } });
+
+    const response = await adapter('json_schema').generateJSON('판정해', VerdictSchema);
+
+    expect(response.success).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  LLMAbortError,
+  RateLimiter,
+  getRateLimiterStats,
+  getSharedRateLimiter,
+  type RateLimitPermit
+} from '../src';
+
+// Tracks whether each acquire has been granted yet
+function track(acquiring: Promise<RateLimitPermit>) {
+  const state: { permit?: RateLimitPermit; error?: unknown } = {};
+  acquiring.then(permit => (state.permit = permit), error => (state.error = error));
+  return state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps in-flight calls and starts queued ones in order as slots free up', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+
+    const calls = Array.from({ length: 4 }, () => track(limiter.acquire(1)));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls.map(call => call.permit !== undefined)).toEqual([true, true, false, false]);
+    expect(limiter.getStats()).toMatchObject({ queued: 2, inFlight: 2 });
+    expect(limiter.getQueueDepth()).toBe(2);
+
+    calls[1].permit!.release();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls.map(call => call.permit !== undefined)).toEqual([true, true, true, false]);
+    expect(limiter.getStats()).toMatchObject({ queued: 1, inFlight: 2, requestsLastMinute: 3 });
+  });
+
+  it('holds requests beyond the per-minute budget until the window slides', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    track(limiter.acquire(1));
+    await vi.advanceTimersByTimeAsync(10_000);
+    track(limiter.acquire(1));
+    const third = track(limiter.acquire(1));
+
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(third.permit).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third.permit).toBeDefined();
+    // The first request has left the window
+    expect(limiter.getStats()).toMatchObject({ queued: 0, requestsLastMinute: 2 });
+  });
+
+  it('budgets tokens per minute and counts actual usage once released', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+
+    const first = track(limiter.acquire(60));
+    const second = track(limiter.acquire(60));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(second.permit).toBeUndefined();
+    expect(limiter.getStats()).toMatchObject({ queued: 1, tokensLastMinute: 60 });
+
+    first.permit!.release(30);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(second.permit).toBeDefined();
+    expect(limiter.getStats().tokensLastMinute).toBe(90);
+  });
+
+  it('lets an oversized call through once the window is empty', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+
+    track(limiter.acquire(10));
+    const oversized = track(limiter.acquire(500));
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(oversized.permit).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(oversized.permit).toBeDefined();
+  });
+
+  it('drops cancelled calls from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const running = track(limiter.acquire(1));
+    const cancelled = track(limiter.acquire(1, controller.signal));
+    const next = track(limiter.acquire(1));
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(cancelled.error).toBeInstanceOf(LLMAbortError);
+    expect(limiter.getQueueDepth()).toBe(1);
+
+    running.permit!.release();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(next.permit).toBeDefined();
+    await expect(limiter.acquire(1, controller.signal)).rejects.toBeInstanceOf(LLMAbortError);
+  });
+});
+
+describe('shared rate limiters', () => {
+  it('shares the first registered limiter per key and reports its stats', async () => {
+    const limiter = getSharedRateLimiter('openai||rate-limiter-test', { maxConcurrent: 1 });
+
+    expect(getSharedRateLimiter('openai||rate-limiter-test', { maxConcurrent: 5 })).toBe(limiter);
+
+    const permit = await limiter.acquire(40);
+    track(limiter.acquire(20));
+
+    expect(getRateLimiterStats()['openai||rate-limiter-test']).toEqual({
+      queued: 1,
+      inFlight: 1,
+      requestsLastMinute: 1,
+      tokensLastMinute: 40
+    });
+    permit.release();
+  });
+});
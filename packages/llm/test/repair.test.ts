@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  LLMAdapter,
+  salvagePartial,
+  type ChatTurn,
+  type GenerateOptions,
+  type LLMConfig,
+  type LLMResponse
+} from '../src';
+
+const IssueSchema = z.object({
+  description: z.string(),
+  severity: z.enum(['low', 'medium', 'high']),
+  suggestion: z.string().optional()
+});
+
+const ReportSchema = z.object({
+  score: z.number(),
+  issues: z.array(IssueSchema)
+}).describe('Report');
+
+// Answers each request with the next queued completion text, recording the turns it was sent
+class ScriptedAdapter extends LLMAdapter {
+  requests: ChatTurn[][] = [];
+
+  constructor(private completions: string[], config: Partial<LLMConfig> = {}) {
+    super({ provider: 'mock', model: 'scripted', ...config });
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    _systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    return this.generateWithRepair(schema, prompt, options, async turns => {
+      this.requests.push([...turns]);
+      const text = this.completions.shift();
+      if (text === undefined) throw new Error('No scripted completion left');
+      return { text, usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+    });
+  }
+}
+
+const valid = { score: 80, issues: [{ description: '시점 혼동', severity: 'high' }] };
+
+describe('repair loop', () => {
+  it('feeds validation problems back and counts the repair', async () => {
+    const adapter = new ScriptedAdapter([
+      JSON.stringify({ score: 80, issues: [{ description: '시점 혼동', severity: 'critical' }] }),
+      JSON.stringify(valid)
+    ]);
+
+    const response = await adapter.generateJSON('검토해', ReportSchema);
+
+    expect(response).toMatchObject({ success: true, data: valid, repairs: 1, retries: 0 });
+    expect(response.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+    const [first, second] = adapter.requests;
+    expect(first).toHaveLength(1);
+    // The repair turn replays the rejected output and names the failing path
+    expect(second.map(turn => turn.role)).toEqual(['user', 'assistant', 'user']);
+    expect(second[1].content).toContain('critical');
+    expect(second[2].content).toContain('issues.0.severity:');
+  });
+
+  it('repairs output that is not JSON at all', async () => {
+    const adapter = new ScriptedAdapter(['점수는 80점입니다', `\`\`\`json\n${JSON.stringify(valid)}\n\`\`\``]);
+
+    const response = await adapter.generateJSON('검토해', ReportSchema);
+
+    expect(response).toMatchObject({ success: true, data: valid, repairs: 1 });
+    expect(adapter.requests[1][2].content).toContain('Response is not valid JSON');
+  });
+
+  it('salvages the valid issues once repairs run out', async () => {
+    const partial = JSON.stringify({
+      score: 70,
+      issues: [
+        { description: '시점 혼동', severity: 'high', suggestion: 42 },
+        { description: '호칭 불일치' },
+        { description: '시간 역행', severity: 'medium' }
+      ]
+    });
+    const adapter = new ScriptedAdapter([partial, partial], { maxRepairs: 1 });
+
+    const response = await adapter.generateJSON('검토해', ReportSchema);
+
+    expect(response).toMatchObject({ success: true, salvaged: true, droppedItems: 2, repairs: 1 });
+    expect(response.data?.issues).toEqual([
+      { description: '시점 혼동', severity: 'high' },
+      { description: '시간 역행', severity: 'medium' }
+    ]);
+    expect(adapter.requests).toHaveLength(2);
+  });
+
+  it('fails with invalid_output when salvage is off', async () => {
+    const invalid = JSON.stringify({ score: '높음', issues: [] });
+    const adapter = new ScriptedAdapter([invalid, invalid, invalid], { salvagePartial: false });
+
+    const response = await adapter.generateJSON('검토해', ReportSchema);
+
+    expect(response).toMatchObject({ success: false, errorKind: 'invalid_output', repairs: 2 });
+    expect(response.error).toMatch(/after 2 repair attempts: score:/);
+    expect(adapter.requests).toHaveLength(3);
+  });
+});
+
+describe('salvagePartial', () => {
+  it('drops malformed array items and optional fields but keeps required ones', () => {
+    const salvaged = salvagePartial(
+      {
+        score: 'n/a',
+        issues: [
+          { description: '호칭 불일치', severity: 'low', suggestion: null },
+          { severity: 'high' },
+          { description: '시간 역행', severity: 'medium', suggestion: '날짜를 고치세요' }
+        ]
+      },
+      ReportSchema
+    );
+
+    expect(salvaged).toEqual({
+      value: {
+        score: 'n/a',
+        issues: [
+          { description: '호칭 불일치', severity: 'low' },
+          { description: '시간 역행', severity: 'medium', suggestion: '날짜를 고치세요' }
+        ]
+      },
+      dropped: 2
+    });
+    // A broken required field cannot be salvaged, so the caller still rejects the result
+    expect(ReportSchema.safeParse(salvaged.value).success).toBe(false);
+  });
+});
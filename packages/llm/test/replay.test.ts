@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { computePromptHash, createLLMAdapter } from '../src';
+
+const GreetingSchema = z.object({
+  greeting: z.string(),
+  count: z.number().int()
+}).describe('Greeting');
+
+describe('ReplayAdapter', () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('replays what was recorded, keyed by prompt, schema, system prompt and sample', async () => {
+    const recorder = createLLMAdapter({
+      provider: 'record',
+      fixtureDir,
+      upstream: { provider: 'mock', mockData: { Greeting: { greeting: '안녕', count: 2 } } }
+    });
+    const replayer = createLLMAdapter({ provider: 'replay', fixtureDir });
+
+    const recorded = await recorder.generateJSON('인사해', GreetingSchema, '짧게', { sample: 1 });
+    const replayed = await replayer.generateJSON('인사해', GreetingSchema, '짧게', { sample: 1 });
+    const otherSample = await replayer.generateJSON('인사해', GreetingSchema, '짧게', { sample: 2 });
+
+    expect(recorded.data).toEqual({ greeting: '안녕', count: 2 });
+    expect(replayed).toMatchObject({ success: true, data: recorded.data });
+    expect(otherSample.success).toBe(false);
+    expect(fs.existsSync(path.join(fixtureDir, `${computePromptHash('인사해', 'Greeting', '짧게', 1)}.json`))).toBe(true);
+  });
+
+  it('hashes sample 0 like an unsampled call', () => {
+    expect(computePromptHash('p', 'Greeting', undefined, 0)).toBe(computePromptHash('p', 'Greeting'));
+  });
+
+  it('rejects fixtures that no longer match the schema', async () => {
+    const key = computePromptHash('인사해', 'Greeting');
+    await fs.promises.writeFile(
+      path.join(fixtureDir, `${key}.json`),
+      JSON.stringify({ key, schemaName: 'Greeting', prompt: '인사해', rawText: '{"greeting":"안녕"}', recordedAt: '' })
+    );
+
+    const response = await createLLMAdapter({ provider: 'replay', fixtureDir }).generateJSON('인사해', GreetingSchema);
+
+    expect(response).toMatchObject({ success: false, errorKind: 'invalid_output' });
+  });
+
+  it('serves schema-valid mock data and refuses invalid canned data', async () => {
+    const generated = await createLLMAdapter({ provider: 'mock' }).generateJSON('인사해', GreetingSchema);
+    const invalid = await createLLMAdapter({ provider: 'mock', mockData: { Greeting: { count: 'two' } } })
+      .generateJSON('인사해', GreetingSchema);
+
+    expect(GreetingSchema.safeParse(generated.data).success).toBe(true);
+    expect(invalid).toMatchObject({ success: false, errorKind: 'invalid_output' });
+  });
+});
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  BasicTracer,
+  FileSpanExporter,
+  LLMAdapter,
+  noopLogger,
+  type FinishedSpan,
+  type GenerateOptions,
+  type LLMResponse
+} from '../src';
+
+// Answers with the queued completion texts in order
+class Scripted extends LLMAdapter {
+  constructor(private completions: string[]) {
+    super({ provider: 'mock', model: 'scripted' });
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    _systemPrompt?: string,
+    options?: GenerateOptions
+  ): Promise<LLMResponse<T>> {
+    return this.generateWithRepair(schema, prompt, options, async () => ({
+      text: this.completions.shift() ?? '',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    }));
+  }
+}
+
+function collect() {
+  const spans: FinishedSpan[] = [];
+  return { spans, tracer: new BasicTracer([{ export: span => spans.push(span) }]) };
+}
+
+describe('BasicTracer', () => {
+  it('nests child spans in the parent trace and exports each span once when it ends', () => {
+    const { spans, tracer } = collect();
+
+    const parent = tracer.startSpan('analysis', { attributes: { 'analysis.id': 'a-1', unset: undefined } });
+    const child = tracer.startSpan('analysis.step', { parent });
+    child.setAttributes({ 'step.name': 'personas' });
+    child.setStatus({ code: 'error', message: 'quota' });
+    child.end();
+    child.end();
+    parent.end();
+
+    expect(spans.map(span => span.name)).toEqual(['analysis.step', 'analysis']);
+    expect(spans[0]).toMatchObject({
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      attributes: { 'step.name': 'personas' },
+      status: { code: 'error', message: 'quota' }
+    });
+    expect(spans[1].parentSpanId).toBeUndefined();
+    expect(spans[1].attributes).toEqual({ 'analysis.id': 'a-1' });
+    expect(BigInt(spans[1].endTimeUnixNano) >= BigInt(spans[1].startTimeUnixNano)).toBe(true);
+  });
+
+  it('keeps tracing when an exporter throws', () => {
+    const spans: FinishedSpan[] = [];
+    const tracer = new BasicTracer([
+      { export: () => { throw new Error('collector down'); } },
+      { export: span => spans.push(span) }
+    ]);
+
+    expect(() => tracer.startSpan('analysis').end()).not.toThrow();
+    expect(spans).toHaveLength(1);
+  });
+
+  it('records one llm.generate span per call with usage, repairs and outcome', async () => {
+    const { spans, tracer } = collect();
+    const parent = tracer.startSpan('analysis');
+    const adapter = new Scripted(['{"verdict":"maybe"}', '{"verdict":"keep"}']);
+
+    await adapter.generateJSON('판정해', z.object({ verdict: z.enum(['keep', 'revise']) }), undefined, {
+      tracer,
+      parentSpan: parent,
+      label: 'checker.continuity',
+      logger: noopLogger
+    });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: 'llm.generate',
+      parentSpanId: parent.spanId,
+      status: { code: 'ok' },
+      attributes: {
+        'gen_ai.system': 'mock',
+        'gen_ai.request.model': 'scripted',
+        'gen_ai.usage.input_tokens': 20,
+        'gen_ai.usage.output_tokens': 10,
+        'llm.label': 'checker.continuity',
+        'llm.retries': 0,
+        'llm.repairs': 1,
+        'llm.outcome': 'success'
+      }
+    });
+  });
+});
+
+describe('FileSpanExporter', () => {
+  it('appends finished spans as JSON lines', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-traces-'));
+    try {
+      const exporter = new FileSpanExporter(path.join(directory, 'nested', 'spans.jsonl'));
+      const tracer = new BasicTracer([exporter]);
+
+      tracer.startSpan('first').end();
+      tracer.startSpan('second').end();
+      await exporter.flush();
+
+      const lines = (await fs.promises.readFile(path.join(directory, 'nested', 'spans.jsonl'), 'utf-8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).name)).toEqual(['first', 'second']);
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+});